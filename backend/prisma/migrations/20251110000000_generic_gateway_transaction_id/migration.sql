@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "gatewayTxId" TEXT;
+
+-- Backfill from the per-gateway columns
+UPDATE "orders" SET "gatewayTxId" = COALESCE("pushinpayTxId", "syncpayTxId");
+
+-- DropIndex
+DROP INDEX "orders_pushinpayTxId_idx";
+DROP INDEX "orders_syncpayTxId_idx";
+
+-- AlterTable
+ALTER TABLE "orders" DROP COLUMN "pushinpayTxId",
+DROP COLUMN "syncpayTxId";
+
+-- CreateIndex
+CREATE INDEX "orders_gatewayTxId_idx" ON "orders"("gatewayTxId");
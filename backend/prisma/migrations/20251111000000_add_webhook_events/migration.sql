@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "webhook_events" (
+    "id" TEXT NOT NULL,
+    "gateway" "PaymentGateway" NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "status" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "verified" BOOLEAN NOT NULL DEFAULT false,
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_gateway_eventId_key" ON "webhook_events"("gateway", "eventId");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_orderId_idx" ON "webhook_events"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "webhook_events" ADD CONSTRAINT "webhook_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "reconciliation_logs" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "gateway" "PaymentGateway" NOT NULL,
+    "previousStatus" "OrderStatus" NOT NULL,
+    "newStatus" "OrderStatus" NOT NULL,
+    "gatewayStatus" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reconciliation_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_logs_createdAt_idx" ON "reconciliation_logs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_logs" ADD CONSTRAINT "reconciliation_logs_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
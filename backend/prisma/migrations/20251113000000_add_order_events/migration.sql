@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "OrderEventSource" AS ENUM ('CHECKOUT', 'WEBHOOK', 'RECONCILIATION', 'EXPIRATION', 'ADMIN');
+
+-- AlterTable (existing rows get their creation time as updatedAt)
+ALTER TABLE "orders" ADD COLUMN "paidAt" TIMESTAMP(3),
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+UPDATE "orders" SET "updatedAt" = "createdAt";
+ALTER TABLE "orders" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE "order_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "source" "OrderEventSource" NOT NULL,
+    "actorUserId" TEXT,
+    "gatewayStatus" TEXT,
+    "endToEndId" TEXT,
+    "gatewayPaidAt" TIMESTAMP(3),
+    "payload" JSONB,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_events_pkey" PRIMARY KEY ("id")
+);
+
+-- Move reconciliation corrections into the ledger
+INSERT INTO "order_events" ("id", "orderId", "fromStatus", "toStatus", "source", "gatewayStatus", "createdAt")
+SELECT "id", "orderId", "previousStatus", "newStatus", 'RECONCILIATION', "gatewayStatus", "createdAt"
+FROM "reconciliation_logs";
+
+-- DropTable
+DROP TABLE "reconciliation_logs";
+
+-- CreateIndex
+CREATE INDEX "order_events_orderId_createdAt_idx" ON "order_events"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_events_source_createdAt_idx" ON "order_events"("source", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_actorUserId_fkey" FOREIGN KEY ("actorUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'REFUNDED';
+ALTER TYPE "OrderStatus" ADD VALUE 'DISPUTED';
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "delivery_tokens" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "maxUses" INTEGER NOT NULL,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "delivery_redemptions" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "ip" TEXT,
+    "countryCode" TEXT,
+    "country" TEXT,
+    "region" TEXT,
+    "city" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "delivery_tokens_orderId_idx" ON "delivery_tokens"("orderId");
+
+-- CreateIndex
+CREATE INDEX "delivery_redemptions_orderId_idx" ON "delivery_redemptions"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "delivery_tokens" ADD CONSTRAINT "delivery_tokens_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_redemptions" ADD CONSTRAINT "delivery_redemptions_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "delivery_tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_redemptions" ADD CONSTRAINT "delivery_redemptions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "prices" ADD COLUMN "telegramChatId" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "telegramChatId" TEXT,
+ADD COLUMN "telegramInviteLink" TEXT,
+ADD COLUMN "telegramInviteExpiresAt" TIMESTAMP(3),
+ADD COLUMN "telegramInviteRevokedAt" TIMESTAMP(3);
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "order_items" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "priceId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "downloadLink" TEXT,
+    "telegramChatId" TEXT,
+    "telegramInviteLink" TEXT,
+    "telegramInviteExpiresAt" TIMESTAMP(3),
+    "telegramInviteRevokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cart_items" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "priceId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cart_items_pkey" PRIMARY KEY ("id")
+);
+
+-- Every existing order becomes a single-item order; its deliverables move to the item
+INSERT INTO "order_items" ("id", "orderId", "priceId", "amount", "downloadLink", "telegramChatId", "telegramInviteLink", "telegramInviteExpiresAt", "telegramInviteRevokedAt", "createdAt")
+SELECT gen_random_uuid()::text, o."id", o."priceId", COALESCE(p."amount", 0), o."downloadLink", o."telegramChatId", o."telegramInviteLink", o."telegramInviteExpiresAt", o."telegramInviteRevokedAt", o."createdAt"
+FROM "orders" o
+LEFT JOIN "prices" p ON p."id" = o."priceId";
+
+-- AlterTable (tokens now point at the item they deliver)
+ALTER TABLE "delivery_tokens" ADD COLUMN "orderItemId" TEXT;
+UPDATE "delivery_tokens" t SET "orderItemId" = i."id" FROM "order_items" i WHERE i."orderId" = t."orderId";
+ALTER TABLE "delivery_tokens" ALTER COLUMN "orderItemId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "orders" DROP COLUMN "downloadLink",
+DROP COLUMN "telegramChatId",
+DROP COLUMN "telegramInviteLink",
+DROP COLUMN "telegramInviteExpiresAt",
+DROP COLUMN "telegramInviteRevokedAt";
+
+-- CreateIndex
+CREATE INDEX "order_items_orderId_idx" ON "order_items"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_items_userId_priceId_key" ON "cart_items"("userId", "priceId");
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_priceId_fkey" FOREIGN KEY ("priceId") REFERENCES "prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_priceId_fkey" FOREIGN KEY ("priceId") REFERENCES "prices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_tokens" ADD CONSTRAINT "delivery_tokens_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
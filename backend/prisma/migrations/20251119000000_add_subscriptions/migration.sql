@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "BillingMode" AS ENUM ('ONE_TIME', 'SUBSCRIPTION');
+
+-- CreateEnum
+CREATE TYPE "EntitlementStatus" AS ENUM ('ACTIVE', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "prices" ADD COLUMN "billingMode" "BillingMode" NOT NULL DEFAULT 'ONE_TIME',
+ADD COLUMN "periodDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "periodDays" INTEGER,
+ADD COLUMN "entitlementId" TEXT;
+
+-- CreateTable
+CREATE TABLE "entitlements" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "priceId" TEXT,
+    "status" "EntitlementStatus" NOT NULL DEFAULT 'ACTIVE',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "telegramChatId" TEXT,
+    "telegramUserId" TEXT,
+    "reminderSentAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "entitlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entitlements_userId_priceId_key" ON "entitlements"("userId", "priceId");
+
+-- CreateIndex
+CREATE INDEX "entitlements_status_expiresAt_idx" ON "entitlements"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_entitlementId_fkey" FOREIGN KEY ("entitlementId") REFERENCES "entitlements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entitlements" ADD CONSTRAINT "entitlements_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entitlements" ADD CONSTRAINT "entitlements_priceId_fkey" FOREIGN KEY ("priceId") REFERENCES "prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
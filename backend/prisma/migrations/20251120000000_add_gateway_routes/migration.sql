@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "PaymentGateway" ADD VALUE 'STRIPE';
+
+-- CreateTable
+CREATE TABLE "gateway_routes" (
+    "id" TEXT NOT NULL,
+    "countryCode" TEXT,
+    "currency" TEXT,
+    "gateway" "PaymentGateway" NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gateway_routes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "gateway_routes_isActive_priority_idx" ON "gateway_routes"("isActive", "priority");
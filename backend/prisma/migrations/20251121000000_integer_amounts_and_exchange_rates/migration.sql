@@ -0,0 +1,57 @@
+-- Amounts move from Float to integer minor units (cents).
+-- Existing amounts are all in two-decimal currencies.
+
+-- AlterTable
+ALTER TABLE "prices" ADD COLUMN "amountInCents" INTEGER;
+UPDATE "prices" SET "amountInCents" = ROUND("amount" * 100);
+ALTER TABLE "prices" ALTER COLUMN "amountInCents" SET NOT NULL;
+ALTER TABLE "prices" DROP COLUMN "amount";
+
+-- AlterTable
+-- Orders created so far were all charged in BRL
+ALTER TABLE "orders" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'BRL',
+ADD COLUMN "priceCurrency" TEXT,
+ADD COLUMN "exchangeRate" DOUBLE PRECISION,
+ADD COLUMN "exchangeRateAt" TIMESTAMP(3),
+ADD COLUMN "discountInCents" INTEGER NOT NULL DEFAULT 0;
+UPDATE "orders" SET "discountInCents" = ROUND("discountAmount" * 100);
+ALTER TABLE "orders" DROP COLUMN "discountAmount";
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "amountInCents" INTEGER,
+ADD COLUMN "discountInCents" INTEGER NOT NULL DEFAULT 0;
+UPDATE "order_items" SET "amountInCents" = ROUND("amount" * 100), "discountInCents" = ROUND("discount" * 100);
+ALTER TABLE "order_items" ALTER COLUMN "amountInCents" SET NOT NULL;
+ALTER TABLE "order_items" DROP COLUMN "amount",
+DROP COLUMN "discount";
+
+-- AlterTable
+-- PERCENT values stay percentages (rounded to whole numbers); FIXED values become cents
+ALTER TABLE "coupons" ADD COLUMN "minAmountInCents" INTEGER;
+UPDATE "coupons" SET "minAmountInCents" = ROUND("minAmount" * 100);
+ALTER TABLE "coupons" DROP COLUMN "minAmount";
+ALTER TABLE "coupons" ALTER COLUMN "value" SET DATA TYPE INTEGER USING (
+    CASE WHEN "type" = 'FIXED' THEN ROUND("value" * 100) ELSE ROUND("value") END
+);
+
+-- AlterTable
+ALTER TABLE "coupon_redemptions" ADD COLUMN "discountInCents" INTEGER;
+UPDATE "coupon_redemptions" SET "discountInCents" = ROUND("discountAmount" * 100);
+ALTER TABLE "coupon_redemptions" ALTER COLUMN "discountInCents" SET NOT NULL;
+ALTER TABLE "coupon_redemptions" DROP COLUMN "discountAmount";
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_baseCurrency_quoteCurrency_key" ON "exchange_rates"("baseCurrency", "quoteCurrency");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- Pending orders were charged with the 30-minute default
+UPDATE "orders" SET "expiresAt" = "createdAt" + INTERVAL '30 minutes' WHERE "status" = 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "orders_status_expiresAt_idx" ON "orders"("status", "expiresAt");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "checkout_requests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "idempotencyKey" TEXT,
+    "requestHash" TEXT NOT NULL,
+    "orderId" TEXT,
+    "response" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "checkout_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_requests_orderId_key" ON "checkout_requests"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_requests_userId_idempotencyKey_key" ON "checkout_requests"("userId", "idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "checkout_requests_createdAt_idx" ON "checkout_requests"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "checkout_requests" ADD CONSTRAINT "checkout_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checkout_requests" ADD CONSTRAINT "checkout_requests_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "buyerEmailHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "orders_buyerEmailHash_idx" ON "orders"("buyerEmailHash");
+
+-- CreateIndex
+CREATE INDEX "order_events_endToEndId_idx" ON "order_events"("endToEndId");
+
+-- CreateTable
+CREATE TABLE "recovery_codes" (
+    "id" TEXT NOT NULL,
+    "emailHash" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recovery_codes_emailHash_createdAt_idx" ON "recovery_codes"("emailHash", "createdAt");
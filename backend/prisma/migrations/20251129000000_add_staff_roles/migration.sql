@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'STAFF';
+
+-- CreateEnum
+CREATE TYPE "StaffRole" AS ENUM ('EDITOR', 'SUPPORT', 'FINANCE');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "staffRole" "StaffRole";
+
+-- AlterTable
+ALTER TABLE "admin_invites" ADD COLUMN "staffRole" "StaffRole";
@@ -1,10 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { isSessionActive } from '../services/sessions';
+import { isTwoFactorEnforced } from '../services/twoFactor';
+import { isStaffRole, Permission, permissionsFor } from '../services/permissions';
 
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  staffRole?: string; // STAFF users' permission set
+  sid?: string; // Session the token was issued for; absent on tokens from before sessions
+  mfa?: boolean; // The session passed a second factor
 }
 
 // Extend Express Request to include user data
@@ -18,36 +24,58 @@ declare global {
 
 /**
  * Middleware to verify JWT token
- * Adds user object to request if token is valid
+ * Adds user object to request if token is valid and its session hasn't been revoked.
+ * Expired tokens get 401 with code TOKEN_EXPIRED, so the client knows to refresh them.
  */
-export const authenticateToken = (
+export const authenticateToken = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
-    if (!token) {
-      return res.status(401).json({ error: 'Access token required' });
-    }
+  if (!token) {
+    return res.status(401).json({ error: 'Access token required' });
+  }
 
+  let decoded: JWTPayload;
+  try {
     const secret = process.env.JWT_SECRET || 'default-secret';
-    const decoded = jwt.verify(token, secret) as JWTPayload;
-
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, secret) as JWTPayload;
   } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: 'Access token expired', code: 'TOKEN_EXPIRED' });
+    }
     return res.status(403).json({ error: 'Invalid or expired token' });
   }
+
+  try {
+    if (decoded.sid) {
+      if (!(await isSessionActive(decoded.sid))) {
+        return res.status(401).json({ error: 'Session ended, please log in again', code: 'SESSION_REVOKED' });
+      }
+    } else if (isStaffRole(decoded.role)) {
+      // Admin tokens from before sessions can't be revoked, so they are no longer accepted
+      return res.status(401).json({ error: 'Session ended, please log in again', code: 'SESSION_REVOKED' });
+    }
+  } catch (error) {
+    console.error('Error checking session:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  req.user = decoded;
+  next();
 };
 
 /**
- * Middleware to verify user has admin role
+ * Middleware to verify the user is staff (ADMIN, or STAFF with a staffRole) holding every
+ * permission in `required`
+ * While 2FA is enforced, the session must also have passed a second factor (403 with code
+ * TWO_FACTOR_REQUIRED otherwise).
  * Must be used after authenticateToken middleware
  */
-export const requireAdmin = (
+export const requirePermission = (...required: Permission[]) => async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -56,9 +84,39 @@ export const requireAdmin = (
     return res.status(401).json({ error: 'Authentication required' });
   }
 
-  if (req.user.role !== 'ADMIN') {
+  if (!isStaffRole(req.user.role)) {
     return res.status(403).json({ error: 'Admin access required' });
   }
 
+  const granted = permissionsFor(req.user.role, req.user.staffRole);
+  const missing = required.filter((permission) => !granted.includes(permission));
+  if (missing.length > 0) {
+    return res.status(403).json({ error: 'You do not have permission to do this', code: 'FORBIDDEN', missing });
+  }
+
+  try {
+    if (!req.user.mfa && (await isTwoFactorEnforced())) {
+      return res.status(403).json({ error: 'Two-factor authentication required', code: 'TWO_FACTOR_REQUIRED' });
+    }
+  } catch (error) {
+    console.error('Error checking two-factor requirement:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
   next();
 };
+
+/**
+ * Middleware for the admin area as a whole; routes add requirePermission for what they do
+ */
+export const requireStaff = requirePermission();
+
+/**
+ * requirePermission for code outside the admin routes, e.g. owners-or-staff checks
+ */
+export async function userHasPermission(user: JWTPayload | undefined, permission: Permission): Promise<boolean> {
+  if (!user || !permissionsFor(user.role, user.staffRole).includes(permission)) {
+    return false;
+  }
+  return !!user.mfa || !(await isTwoFactorEnforced());
+}
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import geoip from 'geoip-lite';
 
 export interface GeoLocationData {
+  ip: string | null;
   countryCode: string | null;
   country: string | null;
   region: string | null;
@@ -45,6 +46,7 @@ export const geolocationMiddleware = (
     // For local development, default to a specific country (e.g., Brazil)
     if (clientIp === '127.0.0.1' || clientIp === '::1' || !clientIp) {
       req.geo = {
+        ip: clientIp || null,
         countryCode: 'BR', // Default to Brazil for local dev
         country: 'Brazil',
         region: null,
@@ -58,6 +60,7 @@ export const geolocationMiddleware = (
 
     if (geo) {
       req.geo = {
+        ip: clientIp,
         countryCode: geo.country,
         country: geo.country,
         region: geo.region,
@@ -66,6 +69,7 @@ export const geolocationMiddleware = (
     } else {
       // Fallback if geolocation fails
       req.geo = {
+        ip: clientIp,
         countryCode: null,
         country: null,
         region: null,
@@ -78,6 +82,7 @@ export const geolocationMiddleware = (
     console.error('Geolocation middleware error:', error);
     // Set default values on error
     req.geo = {
+      ip: null,
       countryCode: null,
       country: null,
       region: null,
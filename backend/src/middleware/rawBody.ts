@@ -0,0 +1,23 @@
+import { Request } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+
+// Extend Express Request to include the unparsed body
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * `verify` hook for express.json()
+ * Keeps the raw request body so webhook signatures can be checked against the exact bytes received
+ */
+export const captureRawBody = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  buf: Buffer
+) => {
+  (req as Request).rawBody = buf;
+};
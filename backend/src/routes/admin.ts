@@ -1,19 +1,48 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { PrismaClient, Prisma, Coupon, Price, BillingMode, GatewayRoute } from '@prisma/client';
+import { authenticateToken, requirePermission, requireStaff } from '../middleware/auth';
+import { setOrderStatusManually, refundOrder } from '../services/orderFulfillment';
+import {
+  getGateway,
+  getGatewayMethod,
+  listGatewayIds,
+  parseGatewayId,
+  RefundResult,
+  toGatewaySlug,
+} from '../services/paymentGateway';
+import { issueTelegramInvites } from '../services/telegramDelivery';
+import { normalizeCouponCode } from '../services/coupons';
+import { SUBSCRIPTION_PERIOD_DAYS } from '../services/entitlements';
+import { getGatewayHealth, getPreferredGateway } from '../services/gatewayHealth';
+import {
+  getRateProvider,
+  loadExchangeRates,
+  refreshExchangeRates,
+  setExchangeRate,
+} from '../services/exchangeRates';
+import { buyerDataSettingKey, gatewayNeedsCustomer, getBuyerDataRequirements } from '../services/buyerData';
+import {
+  AdminInviteError,
+  createAdminInvite,
+  listPendingInvites,
+  revokeAdminInvite,
+} from '../services/adminInvites';
+import { disableTwoFactor, isTwoFactorEnforced, setTwoFactorEnforced } from '../services/twoFactor';
+import { revokeUserSessions } from '../services/sessions';
+import { parseStaffAccess, toStaffAccess } from '../services/permissions';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// Apply authentication and admin middleware to all admin routes
+// Apply authentication and admin middleware to all admin routes; each route also needs its permission
 router.use(authenticateToken);
-router.use(requireAdmin);
+router.use(requireStaff);
 
 /**
  * GET /api/admin/products
  * Get all products (no filtering)
  */
-router.get('/products', async (req: Request, res: Response) => {
+router.get('/products', requirePermission('products:read'), async (req: Request, res: Response) => {
   try {
     const products = await prisma.product.findMany({
       include: {
@@ -36,7 +65,7 @@ router.get('/products', async (req: Request, res: Response) => {
  * POST /api/admin/products
  * Create a new product with telegramLink and prices with deliveryLink
  */
-router.post('/products', async (req: Request, res: Response) => {
+router.post('/products', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { name, description, imageUrl, previewMediaUrl, isActive, telegramLink, prices } = req.body;
 
@@ -48,6 +77,7 @@ router.post('/products', async (req: Request, res: Response) => {
     }
 
     // Validate prices if provided - each must have deliveryLink
+    const billings: Array<{ billingMode: BillingMode; periodDays: number | null }> = [];
     if (prices && Array.isArray(prices)) {
       for (const price of prices) {
         if (!price.deliveryLink) {
@@ -55,11 +85,21 @@ router.post('/products', async (req: Request, res: Response) => {
             error: 'Each price tier must have a deliveryLink',
           });
         }
-        if (!price.amount || !price.currency || !price.category) {
+        if (!price.currency || !price.category) {
           return res.status(400).json({
-            error: 'Each price must have amount, currency, and category',
+            error: 'Each price must have amountInCents, currency, and category',
           });
         }
+        if (!isAmountInCents(price.amountInCents)) {
+          return res.status(400).json({
+            error: 'amountInCents must be a positive integer (minor units, e.g. 1990 for 19.90)',
+          });
+        }
+        const billing = parseBillingInput(price);
+        if ('error' in billing) {
+          return res.status(400).json({ error: billing.error });
+        }
+        billings.push(billing);
       }
     }
 
@@ -74,11 +114,13 @@ router.post('/products', async (req: Request, res: Response) => {
         telegramLink: telegramLink || null,
         prices: prices
           ? {
-              create: prices.map((price: any) => ({
-                amount: price.amount,
+              create: prices.map((price: any, index: number) => ({
+                amountInCents: price.amountInCents,
                 currency: price.currency,
                 category: price.category,
                 deliveryLink: price.deliveryLink,
+                telegramChatId: price.telegramChatId || null,
+                ...billings[index],
               })),
             }
           : undefined,
@@ -103,7 +145,7 @@ router.post('/products', async (req: Request, res: Response) => {
  * PUT /api/admin/products/:id
  * Update a product including telegramLink
  */
-router.put('/products/:id', async (req: Request, res: Response) => {
+router.put('/products/:id', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { name, description, imageUrl, previewMediaUrl, isActive, telegramLink } = req.body;
@@ -148,7 +190,7 @@ router.put('/products/:id', async (req: Request, res: Response) => {
  * DELETE /api/admin/products/:id
  * Delete a product
  */
-router.delete('/products/:id', async (req: Request, res: Response) => {
+router.delete('/products/:id', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -177,7 +219,7 @@ router.delete('/products/:id', async (req: Request, res: Response) => {
  * POST /api/admin/products/regions
  * Associate a product with a country region
  */
-router.post('/products/regions', async (req: Request, res: Response) => {
+router.post('/products/regions', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { productId, countryCode } = req.body;
 
@@ -233,7 +275,7 @@ router.post('/products/regions', async (req: Request, res: Response) => {
  * DELETE /api/admin/products/regions/:id
  * Remove a product region association
  */
-router.delete('/products/regions/:id', async (req: Request, res: Response) => {
+router.delete('/products/regions/:id', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -252,18 +294,29 @@ router.delete('/products/regions/:id', async (req: Request, res: Response) => {
  * POST /api/admin/products/:productId/prices
  * Add a new price tier to a product
  */
-router.post('/products/:productId/prices', async (req: Request, res: Response) => {
+router.post('/products/:productId/prices', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { productId } = req.params;
-    const { amount, currency, category, deliveryLink } = req.body;
+    const { amountInCents, currency, category, deliveryLink, telegramChatId } = req.body;
 
     // Validation
-    if (!amount || !currency || !category || !deliveryLink) {
+    if (amountInCents === undefined || !currency || !category || !deliveryLink) {
+      return res.status(400).json({
+        error: 'amountInCents, currency, category, and deliveryLink are required',
+      });
+    }
+
+    if (!isAmountInCents(amountInCents)) {
       return res.status(400).json({
-        error: 'amount, currency, category, and deliveryLink are required',
+        error: 'amountInCents must be a positive integer (minor units, e.g. 1990 for 19.90)',
       });
     }
 
+    const billing = parseBillingInput(req.body);
+    if ('error' in billing) {
+      return res.status(400).json({ error: billing.error });
+    }
+
     // Check if product exists
     const product = await prisma.product.findUnique({
       where: { id: productId },
@@ -276,10 +329,13 @@ router.post('/products/:productId/prices', async (req: Request, res: Response) =
     // Create price
     const price = await prisma.price.create({
       data: {
-        amount,
+        amountInCents,
         currency,
         category,
         deliveryLink,
+        telegramChatId: telegramChatId || null,
+        billingMode: billing.billingMode,
+        periodDays: billing.periodDays,
         productId,
       },
     });
@@ -299,7 +355,7 @@ router.post('/products/:productId/prices', async (req: Request, res: Response) =
  * Update multiple price tiers at once (for bulk operations)
  * IMPORTANT: This route must be BEFORE /prices/:id to avoid matching "bulk-update" as an ID
  */
-router.put('/prices/bulk-update', async (req: Request, res: Response) => {
+router.put('/prices/bulk-update', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { priceIds, deliveryLink } = req.body;
 
@@ -346,10 +402,16 @@ router.put('/prices/bulk-update', async (req: Request, res: Response) => {
  * PUT /api/admin/prices/:id
  * Update a price tier
  */
-router.put('/prices/:id', async (req: Request, res: Response) => {
+router.put('/prices/:id', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { amount, currency, category, deliveryLink } = req.body;
+    const { amountInCents, currency, category, deliveryLink, telegramChatId } = req.body;
+
+    if (amountInCents !== undefined && !isAmountInCents(amountInCents)) {
+      return res.status(400).json({
+        error: 'amountInCents must be a positive integer (minor units, e.g. 1990 for 19.90)',
+      });
+    }
 
     // Check if price exists
     const existingPrice = await prisma.price.findUnique({
@@ -360,14 +422,22 @@ router.put('/prices/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Price not found' });
     }
 
+    const billing = parseBillingInput(req.body, existingPrice);
+    if ('error' in billing) {
+      return res.status(400).json({ error: billing.error });
+    }
+
     // Update price - use explicit checks to allow empty strings
     const price = await prisma.price.update({
       where: { id },
       data: {
-        amount: amount !== undefined ? amount : existingPrice.amount,
+        amountInCents: amountInCents !== undefined ? amountInCents : existingPrice.amountInCents,
         currency: currency !== undefined ? currency : existingPrice.currency,
         category: category !== undefined ? category : existingPrice.category,
         deliveryLink: deliveryLink !== undefined ? deliveryLink : existingPrice.deliveryLink,
+        telegramChatId: telegramChatId !== undefined ? telegramChatId || null : existingPrice.telegramChatId,
+        billingMode: billing.billingMode,
+        periodDays: billing.periodDays,
       },
     });
 
@@ -385,7 +455,7 @@ router.put('/prices/:id', async (req: Request, res: Response) => {
  * DELETE /api/admin/prices/:id
  * Delete a price tier
  */
-router.delete('/prices/:id', async (req: Request, res: Response) => {
+router.delete('/prices/:id', requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -404,7 +474,7 @@ router.delete('/prices/:id', async (req: Request, res: Response) => {
  * GET /api/admin/orders
  * Get all orders
  */
-router.get('/orders', async (req: Request, res: Response) => {
+router.get('/orders', requirePermission('orders:read'), async (req: Request, res: Response) => {
   try {
     const orders = await prisma.order.findMany({
       include: {
@@ -415,9 +485,13 @@ router.get('/orders', async (req: Request, res: Response) => {
             role: true,
           },
         },
-        price: {
+        items: {
           include: {
-            product: true,
+            price: {
+              include: {
+                product: true,
+              },
+            },
           },
         },
       },
@@ -433,14 +507,235 @@ router.get('/orders', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/reconciliation
+ * Order status corrections made by the payment reconciliation job
+ * Query params: limit (default 100)
+ */
+router.get('/reconciliation', requirePermission('orders:read'), async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const events = await prisma.orderEvent.findMany({
+      where: {
+        source: 'RECONCILIATION',
+      },
+      include: {
+        order: {
+          select: {
+            id: true,
+            status: true,
+            gateway: true,
+            gatewayTxId: true,
+            user: {
+              select: {
+                id: true,
+                email: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: limit,
+    });
+
+    res.json({ events });
+  } catch (error) {
+    console.error('Error fetching reconciliation events:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/gateways/health
+ * Circuit breaker state, error rate and latency of each gateway's recent charges
+ * Stats are kept in memory by this server process.
+ */
+router.get('/gateways/health', requirePermission('settings:read'), async (req: Request, res: Response) => {
+  try {
+    const preferred = await getPreferredGateway();
+
+    res.json({
+      preferred: toGatewaySlug(preferred),
+      gateways: getGatewayHealth(),
+    });
+  } catch (error) {
+    console.error('Error fetching gateway health:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/gateways/buyer-data
+ * Whether each gateway asks buyers for name, CPF, email and phone at checkout
+ * Toggled with PUT /api/settings/<settingKey> ("true"/"false"); locked gateways can't
+ * charge without the data, so they always require it.
+ */
+router.get('/gateways/buyer-data', requirePermission('settings:read'), async (req: Request, res: Response) => {
+  try {
+    const requirements = await getBuyerDataRequirements();
+
+    res.json({
+      gateways: listGatewayIds().map((id) => ({
+        gateway: toGatewaySlug(id),
+        settingKey: buyerDataSettingKey(id),
+        required: requirements[id],
+        locked: gatewayNeedsCustomer(id),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching buyer data requirements:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/orders/:id/status
+ * Manually complete or fail an order
+ * Body: { status: 'COMPLETED' | 'FAILED', note?: string }
+ */
+router.put('/orders/:id/status', requirePermission('orders:write'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status, note } = req.body;
+
+    if (status !== 'COMPLETED' && status !== 'FAILED') {
+      return res.status(400).json({ error: 'status must be COMPLETED or FAILED' });
+    }
+
+    const result = await setOrderStatusManually(id, status, req.user!.userId, note);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    res.json({
+      message: result.changed ? 'Order status updated successfully' : 'Order status unchanged',
+      order: result.order,
+    });
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/orders/:id/refund
+ * Refund a completed or disputed order and revoke its access
+ * Calls the gateway's refund API when the gateway has one; otherwise the refund
+ * must be issued in the gateway dashboard and this only records it.
+ * Body: { note?: string }
+ */
+router.post('/orders/:id/refund', requirePermission('orders:refund'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.status !== 'COMPLETED' && order.status !== 'DISPUTED') {
+      return res.status(400).json({ error: `Only completed or disputed orders can be refunded (current status: ${order.status})` });
+    }
+
+    const gateway = getGateway(order.gateway);
+    let gatewayRefund: RefundResult | null = null;
+
+    if (gateway.refundCharge) {
+      if (!order.gatewayTxId) {
+        return res.status(400).json({ error: 'Order has no gateway transaction to refund' });
+      }
+
+      try {
+        gatewayRefund = await gateway.refundCharge(order.gatewayTxId);
+      } catch (error: any) {
+        console.error(`Gateway refund failed for order ${order.id}:`, error.message);
+        return res.status(502).json({ error: 'Gateway refund failed', message: error.message });
+      }
+    }
+
+    const result = await refundOrder(order, req.user!.userId, note || (gatewayRefund
+      ? `Refunded through ${order.gateway}${gatewayRefund.refundId ? ` (${gatewayRefund.refundId})` : ''}`
+      : `Refund recorded manually; ${order.gateway} has no refund API`));
+
+    res.json({
+      message: result.changed ? 'Order refunded successfully' : 'Order status unchanged',
+      gatewayRefunded: !!gatewayRefund,
+      order: result.order,
+    });
+  } catch (error) {
+    console.error('Error refunding order:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/orders/:id/telegram-invite
+ * Revoke the order's Telegram invites and create fresh single-use ones
+ * For buyers whose invite expired before they joined, or when the Bot API failed on completion
+ */
+router.post('/orders/:id/telegram-invite', requirePermission('orders:write'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: {
+        items: {
+          include: { price: true },
+        },
+      },
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.status !== 'COMPLETED') {
+      return res.status(400).json({ error: `Only completed orders get Telegram invites (current status: ${order.status})` });
+    }
+
+    if (!order.items.some((item) => item.price?.telegramChatId)) {
+      return res.status(400).json({ error: 'None of the order\'s price tiers has a Telegram channel configured' });
+    }
+
+    try {
+      const items = await issueTelegramInvites(order.id);
+      res.json({
+        message: 'Telegram invites issued successfully',
+        items,
+      });
+    } catch (error: any) {
+      console.error(`Telegram invite failed for order ${order.id}:`, error.message);
+      return res.status(502).json({ error: 'Telegram invite failed', message: error.message });
+    }
+  } catch (error) {
+    console.error('Error issuing Telegram invite:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/admin/analytics
  * Get analytics data with optional filters
- * Query params: startDate, endDate, productId
+ * Query params: startDate, endDate, productId, currency (default BRL)
+ * Amounts are minor units of `currency`; orders charged in other currencies are converted at
+ * current rates, and those without a rate are left out and counted in summary.unconvertedOrders.
  */
-router.get('/analytics', async (req: Request, res: Response) => {
+router.get('/analytics', requirePermission('analytics:read'), async (req: Request, res: Response) => {
   try {
-    const { startDate, endDate, productId } = req.query;
+    const { startDate, endDate, productId, currency } = req.query;
+    const reportCurrency = typeof currency === 'string' && /^[A-Za-z]{3}$/.test(currency)
+      ? currency.toUpperCase()
+      : 'BRL';
 
     // Build date filter (convert from Brazil timezone to UTC for database query)
     const dateFilter: any = {};
@@ -468,9 +763,13 @@ router.get('/analytics', async (req: Request, res: Response) => {
     const orders = await prisma.order.findMany({
       where: whereClause,
       include: {
-        price: {
+        items: {
           include: {
-            product: true,
+            price: {
+              include: {
+                product: true,
+              },
+            },
           },
         },
         user: {
@@ -485,43 +784,62 @@ router.get('/analytics', async (req: Request, res: Response) => {
       },
     });
 
-    // Filter by product if specified
-    const filteredOrders = productId
-      ? orders.filter((order) => order.price?.product?.id === productId)
-      : orders;
+    const rates = await loadExchangeRates();
+    const unconvertedOrderIds = new Set<string>();
+
+    // Filter by product if specified; only the matching items of an order count towards revenue
+    const filteredOrders = orders
+      .map((order) => ({
+        ...order,
+        items: (productId
+          ? order.items.filter((item) => item.price?.product?.id === productId)
+          : order.items
+        ).map((item) => {
+          // Revenue is what was actually charged: item amounts minus their share of coupon discounts
+          const net = rates.convert(item.amountInCents - item.discountInCents, order.currency, reportCurrency);
+          const discount = rates.convert(item.discountInCents, order.currency, reportCurrency);
+          if (!net || !discount) {
+            unconvertedOrderIds.add(order.id);
+          }
+          return { ...item, net: net?.amountInCents ?? 0, discount: discount?.amountInCents ?? 0 };
+        }),
+      }))
+      .filter((order) => order.items.length > 0 && !unconvertedOrderIds.has(order.id));
+
+    const filteredItems = filteredOrders.flatMap((order) => order.items);
+
+    const netAmount = (item: { net: number }) => item.net;
 
     // Calculate total revenue
-    const totalRevenue = filteredOrders.reduce(
-      (sum, order) => sum + (order.price?.amount || 0),
-      0
-    );
+    const totalRevenue = filteredItems.reduce((sum, item) => sum + netAmount(item), 0);
+    const totalDiscount = filteredItems.reduce((sum, item) => sum + item.discount, 0);
 
     // Calculate revenue by product
     const revenueByProduct: Record<string, { name: string; revenue: number; count: number }> = {};
-    filteredOrders.forEach((order) => {
-      if (order.price?.product) {
-        const productId = order.price.product.id;
+    filteredItems.forEach((item) => {
+      if (item.price?.product) {
+        const productId = item.price.product.id;
         if (!revenueByProduct[productId]) {
           revenueByProduct[productId] = {
-            name: order.price.product.name,
+            name: item.price.product.name,
             revenue: 0,
             count: 0,
           };
         }
-        revenueByProduct[productId].revenue += order.price.amount;
+        revenueByProduct[productId].revenue += netAmount(item);
         revenueByProduct[productId].count += 1;
       }
     });
 
     // Calculate revenue by category (HD, 4K, etc.)
     const revenueByCategory: Record<string, { revenue: number; count: number }> = {};
-    filteredOrders.forEach((order) => {
-      if (order.price) {
-        const category = order.price.category;
+    filteredItems.forEach((item) => {
+      if (item.price) {
+        const category = item.price.category;
         if (!revenueByCategory[category]) {
           revenueByCategory[category] = { revenue: 0, count: 0 };
         }
-        revenueByCategory[category].revenue += order.price.amount;
+        revenueByCategory[category].revenue += netAmount(item);
         revenueByCategory[category].count += 1;
       }
     });
@@ -538,7 +856,7 @@ router.get('/analytics', async (req: Request, res: Response) => {
       if (!dailyRevenue[date]) {
         dailyRevenue[date] = 0;
       }
-      dailyRevenue[date] += order.price?.amount || 0;
+      dailyRevenue[date] += order.items.reduce((sum, item) => sum + netAmount(item), 0);
     });
 
     // Convert daily revenue to array format
@@ -575,6 +893,37 @@ router.get('/analytics', async (req: Request, res: Response) => {
     // Get unique customers
     const uniqueCustomers = new Set(filteredOrders.map((order) => order.userId)).size;
 
+    // Coupon redemptions on the completed orders in range
+    const redemptions = await prisma.couponRedemption.findMany({
+      where: {
+        orderId: { in: filteredOrders.map((order) => order.id) },
+      },
+      include: {
+        coupon: {
+          select: {
+            id: true,
+            code: true,
+          },
+        },
+      },
+    });
+
+    const redemptionsByCoupon: Record<string, { code: string; redemptions: number; discount: number; revenue: number }> = {};
+    // With a product filter only the matching items' share of each discount counts
+    const orderTotals = new Map(filteredOrders.map((order) => [order.id, {
+      revenue: order.items.reduce((sum, item) => sum + netAmount(item), 0),
+      discount: order.items.reduce((sum, item) => sum + item.discount, 0),
+    }]));
+    redemptions.forEach((redemption) => {
+      const couponId = redemption.coupon.id;
+      if (!redemptionsByCoupon[couponId]) {
+        redemptionsByCoupon[couponId] = { code: redemption.coupon.code, redemptions: 0, discount: 0, revenue: 0 };
+      }
+      redemptionsByCoupon[couponId].redemptions += 1;
+      redemptionsByCoupon[couponId].discount += orderTotals.get(redemption.orderId)?.discount || 0;
+      redemptionsByCoupon[couponId].revenue += orderTotals.get(redemption.orderId)?.revenue || 0;
+    });
+
     // Calculate average order value
     const averageOrderValue = completedOrders > 0 ? totalRevenue / completedOrders : 0;
 
@@ -587,7 +936,11 @@ router.get('/analytics', async (req: Request, res: Response) => {
         failedOrders,
         conversionRate: Math.round(conversionRate * 100) / 100,
         uniqueCustomers,
-        averageOrderValue: Math.round(averageOrderValue * 100) / 100,
+        averageOrderValue: Math.round(averageOrderValue),
+        totalDiscount,
+        couponRedemptions: redemptions.length,
+        currency: reportCurrency,
+        unconvertedOrders: unconvertedOrderIds.size,
       },
       revenueByProduct: Object.entries(revenueByProduct).map(([id, data]) => ({
         productId: id,
@@ -601,6 +954,13 @@ router.get('/analytics', async (req: Request, res: Response) => {
         orders: data.count,
       })),
       dailyRevenue: dailyRevenueArray,
+      couponRedemptions: Object.entries(redemptionsByCoupon).map(([id, data]) => ({
+        couponId: id,
+        code: data.code,
+        redemptions: data.redemptions,
+        discount: data.discount,
+        revenue: data.revenue,
+      })),
       recentOrders: filteredOrders.slice(-10).reverse(), // Last 10 orders
     });
   } catch (error) {
@@ -609,11 +969,356 @@ router.get('/analytics', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/coupons
+ * List coupons with their redemption counts
+ */
+router.get('/coupons', requirePermission('coupons:read'), async (req: Request, res: Response) => {
+  try {
+    const coupons = await prisma.coupon.findMany({
+      include: {
+        _count: {
+          select: { redemptions: true },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    res.json({ coupons });
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/coupons
+ * Create a coupon
+ * Body: { code, type: 'PERCENT' | 'FIXED', value, currency?, productIds?, priceIds?, regionCodes?,
+ *         minAmountInCents?, maxRedemptions?, maxRedemptionsPerUser?, startsAt?, endsAt?, isActive? }
+ */
+router.post('/coupons', requirePermission('coupons:write'), async (req: Request, res: Response) => {
+  try {
+    const parsed = parseCouponInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const existing = await prisma.coupon.findUnique({
+      where: { code: parsed.data.code },
+    });
+
+    if (existing) {
+      return res.status(400).json({ error: 'A coupon with this code already exists' });
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: parsed.data,
+    });
+
+    res.status(201).json({
+      message: 'Coupon created successfully',
+      coupon,
+    });
+  } catch (error) {
+    console.error('Error creating coupon:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/coupons/:id
+ * Update a coupon; omitted fields keep their current value
+ */
+router.put('/coupons/:id', requirePermission('coupons:write'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingCoupon = await prisma.coupon.findUnique({
+      where: { id },
+    });
+
+    if (!existingCoupon) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+
+    const parsed = parseCouponInput(req.body, existingCoupon);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    if (parsed.data.code !== existingCoupon.code) {
+      const duplicate = await prisma.coupon.findUnique({
+        where: { code: parsed.data.code },
+      });
+      if (duplicate) {
+        return res.status(400).json({ error: 'A coupon with this code already exists' });
+      }
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    res.json({
+      message: 'Coupon updated successfully',
+      coupon,
+    });
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/coupons/:id
+ * Delete a coupon that was never redeemed; redeemed coupons should be deactivated instead
+ */
+router.delete('/coupons/:id', requirePermission('coupons:write'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { redemptions: true },
+        },
+      },
+    });
+
+    if (!coupon) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+
+    if (coupon._count.redemptions > 0) {
+      return res.status(400).json({
+        error: 'This coupon has been redeemed and is kept for reporting. Deactivate it instead.',
+      });
+    }
+
+    await prisma.coupon.delete({
+      where: { id },
+    });
+
+    res.json({ message: 'Coupon deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/gateway-routes
+ * List payment routing rules in the order they are tried
+ */
+router.get('/gateway-routes', requirePermission('settings:read'), async (req: Request, res: Response) => {
+  try {
+    const routes = await prisma.gatewayRoute.findMany({
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json({
+      routes: routes.map((route) => ({
+        ...route,
+        gateway: toGatewaySlug(route.gateway),
+        method: getGatewayMethod(route.gateway),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching gateway routes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/gateway-routes
+ * Create a routing rule
+ * Body: { countryCode?: string | null, currency?: string | null, gateway: string, priority?: number, isActive?: boolean }
+ */
+router.post('/gateway-routes', requirePermission('settings:write'), async (req: Request, res: Response) => {
+  try {
+    const parsed = parseGatewayRouteInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const route = await prisma.gatewayRoute.create({
+      data: parsed.data,
+    });
+
+    res.status(201).json({
+      message: 'Routing rule created successfully',
+      route,
+    });
+  } catch (error) {
+    console.error('Error creating gateway route:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/gateway-routes/:id
+ * Update a routing rule; omitted fields keep their current value
+ */
+router.put('/gateway-routes/:id', requirePermission('settings:write'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingRoute = await prisma.gatewayRoute.findUnique({
+      where: { id },
+    });
+
+    if (!existingRoute) {
+      return res.status(404).json({ error: 'Routing rule not found' });
+    }
+
+    const parsed = parseGatewayRouteInput(req.body, existingRoute);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const route = await prisma.gatewayRoute.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    res.json({
+      message: 'Routing rule updated successfully',
+      route,
+    });
+  } catch (error) {
+    console.error('Error updating gateway route:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/gateway-routes/:id
+ * Delete a routing rule
+ */
+router.delete('/gateway-routes/:id', requirePermission('settings:write'), async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.gatewayRoute.deleteMany({
+      where: { id: req.params.id },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Routing rule not found' });
+    }
+
+    res.json({ message: 'Routing rule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting gateway route:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/exchange-rates
+ * List exchange rates and whether a rate provider refreshes them
+ */
+router.get('/exchange-rates', requirePermission('settings:read'), async (req: Request, res: Response) => {
+  try {
+    const rates = await prisma.exchangeRate.findMany({
+      orderBy: [{ baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+    });
+
+    res.json({
+      rates,
+      provider: process.env.FX_RATE_PROVIDER || null,
+    });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/exchange-rates
+ * Set a rate by hand; the provider refresh leaves manual pairs alone
+ * Body: { baseCurrency, quoteCurrency, rate } — 1 baseCurrency = rate quoteCurrency
+ */
+router.put('/exchange-rates', requirePermission('settings:write'), async (req: Request, res: Response) => {
+  try {
+    const { baseCurrency, quoteCurrency, rate } = req.body;
+
+    if (typeof baseCurrency !== 'string' || !/^[A-Za-z]{3}$/.test(baseCurrency) ||
+        typeof quoteCurrency !== 'string' || !/^[A-Za-z]{3}$/.test(quoteCurrency)) {
+      return res.status(400).json({ error: 'baseCurrency and quoteCurrency must be 3-letter currency codes' });
+    }
+
+    if (baseCurrency.toUpperCase() === quoteCurrency.toUpperCase()) {
+      return res.status(400).json({ error: 'baseCurrency and quoteCurrency must differ' });
+    }
+
+    if (typeof rate !== 'number' || !(rate > 0)) {
+      return res.status(400).json({ error: 'rate must be a positive number' });
+    }
+
+    const exchangeRate = await setExchangeRate(baseCurrency, quoteCurrency, rate, 'manual');
+
+    res.json({
+      message: 'Exchange rate saved successfully',
+      rate: exchangeRate,
+    });
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/exchange-rates/:id
+ * Delete a rate; a deleted manual pair goes back to the provider on its next refresh
+ */
+router.delete('/exchange-rates/:id', requirePermission('settings:write'), async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.exchangeRate.deleteMany({
+      where: { id: req.params.id },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Exchange rate not found' });
+    }
+
+    res.json({ message: 'Exchange rate deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/exchange-rates/refresh
+ * Pull rates from the configured provider now instead of waiting for the job
+ */
+router.post('/exchange-rates/refresh', requirePermission('settings:write'), async (req: Request, res: Response) => {
+  try {
+    if (!getRateProvider()) {
+      return res.status(400).json({ error: 'No exchange rate provider configured (FX_RATE_PROVIDER)' });
+    }
+
+    const updated = await refreshExchangeRates();
+
+    res.json({
+      message: `Updated ${updated} exchange rate(s)`,
+      updated,
+    });
+  } catch (error: any) {
+    console.error('Error refreshing exchange rates:', error);
+    res.status(502).json({ error: 'Failed to refresh exchange rates', message: error.message });
+  }
+});
+
 /**
  * GET /api/admin/popup
  * Get popup configuration
  */
-router.get('/popup', async (req: Request, res: Response) => {
+router.get('/popup', requirePermission('settings:read'), async (req: Request, res: Response) => {
   try {
     // Get the first (and should be only) popup config
     const popup = await prisma.popupConfig.findFirst();
@@ -629,7 +1334,7 @@ router.get('/popup', async (req: Request, res: Response) => {
  * PUT /api/admin/popup
  * Create or update popup configuration
  */
-router.put('/popup', async (req: Request, res: Response) => {
+router.put('/popup', requirePermission('settings:write'), async (req: Request, res: Response) => {
   try {
     const { message, buttonText, buttonLink, isActive } = req.body;
 
@@ -677,4 +1382,376 @@ router.put('/popup', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/admins
+ * Admin and staff accounts (with their access and whether they use 2FA), the invites still
+ * waiting to be accepted, and whether 2FA is enforced
+ * `access` is ADMIN or the staff role (EDITOR, SUPPORT, FINANCE).
+ */
+router.get('/admins', requirePermission('staff:manage'), async (req: Request, res: Response) => {
+  try {
+    const [admins, invites] = await Promise.all([
+      prisma.user.findMany({
+        where: { role: { in: ['ADMIN', 'STAFF'] } },
+        select: { id: true, email: true, role: true, staffRole: true, createdAt: true, totpEnabledAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      listPendingInvites(),
+    ]);
+
+    res.json({
+      admins: admins.map(({ totpEnabledAt, role, staffRole, ...admin }) => ({
+        ...admin,
+        access: toStaffAccess({ role, staffRole }),
+        twoFactorEnabled: !!totpEnabledAt,
+      })),
+      invites: invites.map(({ staffRole, ...invite }) => ({ ...invite, access: staffRole ?? 'ADMIN' })),
+      twoFactorRequired: await isTwoFactorEnforced(),
+    });
+  } catch (error) {
+    console.error('Error fetching admins:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/invites
+ * Invite someone to become an admin or staff member
+ * Body: { email, access?, locale? } - access is ADMIN (the default) or a staff role; locale (en, pt,
+ * es) is the language of the invite page
+ * The invite link is emailed and also returned, once; it is single-use and expires.
+ */
+router.post('/invites', requirePermission('staff:manage'), async (req: Request, res: Response) => {
+  try {
+    const { email, access = 'ADMIN', locale } = req.body;
+
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return res.status(400).json({ error: 'A valid email is required' });
+    }
+
+    const parsedAccess = parseStaffAccess(access);
+    if (!parsedAccess) {
+      return res.status(400).json({ error: 'access must be ADMIN, EDITOR, SUPPORT or FINANCE' });
+    }
+
+    const { invite, inviteUrl } = await createAdminInvite(
+      email.trim(),
+      req.user!.userId,
+      parsedAccess.staffRole,
+      locale
+    );
+
+    res.status(201).json({
+      message: 'Invite created',
+      invite: {
+        id: invite.id,
+        email: invite.email,
+        access: invite.staffRole ?? 'ADMIN',
+        expiresAt: invite.expiresAt,
+        createdAt: invite.createdAt,
+      },
+      inviteUrl,
+    });
+  } catch (error) {
+    if (error instanceof AdminInviteError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating admin invite:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/two-factor/enforcement
+ * Require (or stop requiring) two-factor authentication for every admin and staff member
+ * Body: { required }
+ * Only a session that passed 2FA can turn it on, so the caller can't lock themselves out.
+ * Those without it are asked to set it up on their next visit to the admin area.
+ */
+router.put('/two-factor/enforcement', requirePermission('staff:manage'), async (req: Request, res: Response) => {
+  try {
+    const { required } = req.body;
+
+    if (typeof required !== 'boolean') {
+      return res.status(400).json({ error: 'required must be a boolean' });
+    }
+
+    if (required && !req.user!.mfa) {
+      return res.status(400).json({ error: 'Set up two-factor authentication for your own account first' });
+    }
+
+    await setTwoFactorEnforced(required);
+
+    res.json({ message: required ? 'Two-factor authentication is now required' : 'Two-factor authentication is optional', required });
+  } catch (error) {
+    console.error('Error updating 2FA enforcement:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/admins/:id/access
+ * Change a team member's access, or remove them from the team
+ * Body: { access } - ADMIN, a staff role, or NONE to make them a customer again
+ * Their sessions end, so the new access applies from their next login. Nobody can change
+ * their own access; as only admins manage staff, at least one admin always remains.
+ */
+router.put('/admins/:id/access', requirePermission('staff:manage'), async (req: Request, res: Response) => {
+  try {
+    const { access } = req.body;
+
+    if (req.params.id === req.user!.userId) {
+      return res.status(400).json({ error: 'You cannot change your own access' });
+    }
+
+    const parsedAccess = access === 'NONE' ? { role: 'CUSTOMER' as const, staffRole: null } : parseStaffAccess(access);
+    if (!parsedAccess) {
+      return res.status(400).json({ error: 'access must be ADMIN, EDITOR, SUPPORT, FINANCE or NONE' });
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: req.params.id, role: { in: ['ADMIN', 'STAFF'] } },
+      data: parsedAccess,
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Team member not found' });
+    }
+
+    await revokeUserSessions(req.params.id, 'admin');
+
+    res.json({ message: 'Access updated', access });
+  } catch (error) {
+    console.error('Error updating staff access:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/admins/:id/two-factor
+ * Reset another team member's 2FA after they lost their authenticator and recovery codes
+ * Their sessions end; with 2FA enforced they set it up again at their next login.
+ */
+router.delete('/admins/:id/two-factor', requirePermission('staff:manage'), async (req: Request, res: Response) => {
+  try {
+    if (req.params.id === req.user!.userId) {
+      return res.status(400).json({ error: 'Use your own account settings to change your 2FA' });
+    }
+
+    const admin = await prisma.user.findFirst({
+      where: { id: req.params.id, role: { in: ['ADMIN', 'STAFF'] } },
+      select: { id: true },
+    });
+    if (!admin) {
+      return res.status(404).json({ error: 'Team member not found' });
+    }
+
+    await disableTwoFactor(admin.id);
+    await revokeUserSessions(admin.id, 'admin');
+
+    res.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    console.error('Error resetting admin 2FA:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/invites/:id
+ * Revoke an invite that hasn't been accepted yet
+ */
+router.delete('/invites/:id', requirePermission('staff:manage'), async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeAdminInvite(req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'No pending invite with this id' });
+    }
+
+    res.json({ message: 'Invite revoked' });
+  } catch (error) {
+    console.error('Error revoking admin invite:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Validate a price's billing mode; SUBSCRIPTION prices need a period from SUBSCRIPTION_PERIOD_DAYS
+ * On update, fields missing from the body fall back to the existing price.
+ */
+function parseBillingInput(
+  body: any,
+  existing?: Price
+): { billingMode: BillingMode; periodDays: number | null } | { error: string } {
+  const billingMode = body.billingMode ?? existing?.billingMode ?? 'ONE_TIME';
+
+  if (billingMode !== 'ONE_TIME' && billingMode !== 'SUBSCRIPTION') {
+    return { error: 'billingMode must be ONE_TIME or SUBSCRIPTION' };
+  }
+
+  if (billingMode === 'ONE_TIME') {
+    return { billingMode, periodDays: null };
+  }
+
+  const periodDays = body.periodDays !== undefined ? Number(body.periodDays) : existing?.periodDays;
+
+  if (!periodDays || !SUBSCRIPTION_PERIOD_DAYS.includes(periodDays)) {
+    return { error: `periodDays must be one of ${SUBSCRIPTION_PERIOD_DAYS.join(', ')} for subscriptions` };
+  }
+
+  return { billingMode, periodDays };
+}
+
+/**
+ * Price amounts are integers in the currency's minor units
+ */
+function isAmountInCents(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Validate a routing rule create/update body
+ * The rule's currency is the one the buyer sees; a gateway settling in another currency
+ * (PIX: BRL) is charged the converted amount.
+ * On update, fields missing from the body fall back to the existing rule.
+ */
+function parseGatewayRouteInput(
+  body: any,
+  existing?: GatewayRoute
+): { data: Prisma.GatewayRouteCreateInput } | { error: string } {
+  const pick = <K extends keyof GatewayRoute>(key: K): any =>
+    body[key] !== undefined ? body[key] : existing?.[key];
+
+  const rawCountry = pick('countryCode');
+  const rawCurrency = pick('currency');
+  const countryCode = rawCountry ? String(rawCountry).trim().toUpperCase() : null;
+  const currency = rawCurrency ? String(rawCurrency).trim().toUpperCase() : null;
+
+  if (countryCode !== null && countryCode !== 'NON_BR' && !/^[A-Z]{2}$/.test(countryCode)) {
+    return { error: 'countryCode must be a 2-letter country code, NON_BR or empty for any country' };
+  }
+
+  if (currency !== null && !/^[A-Z]{3}$/.test(currency)) {
+    return { error: 'currency must be a 3-letter currency code or empty for any currency' };
+  }
+
+  const gateway = parseGatewayId(pick('gateway'));
+  if (!gateway) {
+    return { error: 'gateway must be a registered payment gateway' };
+  }
+
+  const priority = pick('priority') ?? 100;
+  if (!Number.isInteger(priority)) {
+    return { error: 'priority must be an integer' };
+  }
+
+  const isActive = pick('isActive') ?? true;
+  if (typeof isActive !== 'boolean') {
+    return { error: 'isActive must be a boolean' };
+  }
+
+  return { data: { countryCode, currency, gateway, priority, isActive } };
+}
+
+/**
+ * Validate a coupon create/update body
+ * On update, fields missing from the body fall back to the existing coupon.
+ */
+function parseCouponInput(
+  body: any,
+  existing?: Coupon
+): { data: Prisma.CouponCreateInput } | { error: string } {
+  const pick = <K extends keyof Coupon>(key: K): any =>
+    body[key] !== undefined ? body[key] : existing?.[key];
+
+  const code = pick('code');
+  const type = pick('type');
+  const value = pick('value');
+
+  if (!code || typeof code !== 'string' || !/^[A-Za-z0-9_-]{3,32}$/.test(code.trim())) {
+    return { error: 'code must be 3-32 letters, digits, dashes or underscores' };
+  }
+
+  if (type !== 'PERCENT' && type !== 'FIXED') {
+    return { error: 'type must be PERCENT or FIXED' };
+  }
+
+  // FIXED values are minor units, like every other amount
+  if (!Number.isInteger(value) || value <= 0 || (type === 'PERCENT' && value > 100)) {
+    return {
+      error: type === 'PERCENT'
+        ? 'value must be a whole percentage between 1 and 100'
+        : 'value must be a positive integer amount in minor units',
+    };
+  }
+
+  const toList = (list: unknown): string[] | null =>
+    list === undefined || list === null
+      ? []
+      : Array.isArray(list) && list.every((item) => typeof item === 'string')
+      ? list
+      : null;
+
+  const productIds = toList(pick('productIds'));
+  const priceIds = toList(pick('priceIds'));
+  const regionCodes = toList(pick('regionCodes'));
+
+  if (!productIds || !priceIds || !regionCodes) {
+    return { error: 'productIds, priceIds and regionCodes must be arrays of strings' };
+  }
+
+  const toOptionalNumber = (input: unknown): number | null | undefined =>
+    input === undefined || input === null || input === ''
+      ? null
+      : Number.isInteger(input) && (input as number) >= 0
+      ? (input as number)
+      : undefined;
+
+  const minAmountInCents = toOptionalNumber(pick('minAmountInCents'));
+  const maxRedemptions = toOptionalNumber(pick('maxRedemptions'));
+  const maxRedemptionsPerUser = toOptionalNumber(pick('maxRedemptionsPerUser'));
+
+  if (minAmountInCents === undefined || maxRedemptions === undefined || maxRedemptionsPerUser === undefined) {
+    return { error: 'minAmountInCents, maxRedemptions and maxRedemptionsPerUser must be non-negative integers' };
+  }
+
+  const toOptionalDate = (input: unknown): Date | null | undefined => {
+    if (input === undefined || input === null || input === '') {
+      return null;
+    }
+    const date = new Date(input as string);
+    return isNaN(date.getTime()) ? undefined : date;
+  };
+
+  const startsAt = toOptionalDate(pick('startsAt'));
+  const endsAt = toOptionalDate(pick('endsAt'));
+
+  if (startsAt === undefined || endsAt === undefined) {
+    return { error: 'startsAt and endsAt must be valid dates' };
+  }
+
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return { error: 'endsAt must be after startsAt' };
+  }
+
+  const currency = pick('currency');
+  const isActive = pick('isActive');
+
+  return {
+    data: {
+      code: normalizeCouponCode(code),
+      type,
+      value,
+      currency: currency ? String(currency).toUpperCase() : null,
+      productIds,
+      priceIds,
+      regionCodes: regionCodes.map((region) => region.toUpperCase()),
+      minAmountInCents,
+      maxRedemptions: maxRedemptions === null ? null : Math.floor(maxRedemptions),
+      maxRedemptionsPerUser: maxRedemptionsPerUser === null ? null : Math.floor(maxRedemptionsPerUser),
+      startsAt,
+      endsAt,
+      isActive: isActive !== undefined ? Boolean(isActive) : true,
+    },
+  };
+}
+
 export default router;
@@ -3,17 +3,50 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { randomUUID } from 'crypto';
+import { authenticateToken, JWTPayload, userHasPermission } from '../middleware/auth';
+import { claimGuestAccount, GuestClaimError, MAX_MERGED_GUESTS } from '../services/guestAccounts';
+import {
+  acceptAdminInvite,
+  AdminInviteError,
+  ADMIN_PASSWORD_MIN_LENGTH,
+  findPendingInvite,
+} from '../services/adminInvites';
+import { signChallengeToken, twoFactorStepFor } from '../services/twoFactor';
+import { isStaffRole, permissionsFor } from '../services/permissions';
+import {
+  AccountTokenError,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+} from '../services/accountTokens';
+import { clearFailedLogins, lockedUntil, recordFailedLogin } from '../services/loginLockout';
+import {
+  createSession,
+  isSessionActive,
+  listActiveSessions,
+  refreshSession,
+  revokeSession,
+  revokeUserSessions,
+  sessionContextFrom,
+  signAccessToken,
+  toSessionView,
+} from '../services/sessions';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// How long past its expiry a guest token still identifies its guest (see guestTokenPayload)
+const GUEST_TOKEN_GRACE_DAYS = parseInt(process.env.GUEST_TOKEN_GRACE_DAYS || '') || 30;
+
 /**
  * POST /api/auth/register
- * Register a new user
+ * Register a new customer (admins join through an invite, see /invites/:token/accept)
+ * A link to verify the email is sent to it, opening in the body's `locale` (en, pt, es).
  */
 router.post('/register', async (req: Request, res: Response) => {
   try {
-    const { email, password, role } = req.body;
+    const { email, password } = req.body;
 
     // Validation
     if (!email || !password) {
@@ -36,12 +69,12 @@ router.post('/register', async (req: Request, res: Response) => {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Create user (role defaults to CUSTOMER unless explicitly set to ADMIN)
+    // Public registration only ever creates customers; a `role` in the body is ignored
     const user = await prisma.user.create({
       data: {
         email,
         password: hashedPassword,
-        role: role === 'ADMIN' ? 'ADMIN' : 'CUSTOMER',
+        role: 'CUSTOMER',
       },
       select: {
         id: true,
@@ -51,21 +84,13 @@ router.post('/register', async (req: Request, res: Response) => {
       },
     });
 
-    // Generate JWT
-    const token = jwt.sign(
-      {
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      },
-      process.env.JWT_SECRET || 'default-secret',
-      { expiresIn: '7d' }
-    );
+    await sendEmailVerification(user, req.body.locale);
+    const tokens = await createSession(user, sessionContextFrom(req));
 
     res.status(201).json({
       message: 'User registered successfully',
       user,
-      token,
+      ...tokens,
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -76,6 +101,9 @@ router.post('/register', async (req: Request, res: Response) => {
 /**
  * POST /api/auth/login
  * Login user and return JWT token
+ * Users with two-factor authentication get { twoFactorRequired, enrollmentRequired, challengeToken }
+ * instead, to finish at POST /api/auth/2fa/challenge/verify.
+ * Repeated wrong passwords lock the account for a while: 423 with code ACCOUNT_LOCKED and lockedUntil.
  */
 router.post('/login', async (req: Request, res: Response) => {
   try {
@@ -98,24 +126,38 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    // Checked before the password, so a locked account can't be guessed at
+    const lockedAt = lockedUntil(user);
+    if (lockedAt) {
+      return res.status(423).json(accountLockedResponse(lockedAt));
+    }
+
     // Verify password
     // Neste ponto, o TypeScript já sabe que user.password é uma string e o erro desaparece.
     const isPasswordValid = await bcrypt.compare(password, user.password);
 
     if (!isPasswordValid) {
+      const lockedNow = await recordFailedLogin(user.id);
+      if (lockedNow) {
+        return res.status(423).json(accountLockedResponse(lockedNow));
+      }
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Generate JWT
-    const token = jwt.sign(
-        {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-        },
-        process.env.JWT_SECRET || 'default-secret',
-        { expiresIn: '7d' }
-    );
+    await clearFailedLogins(user.id);
+
+    // Users with 2FA (or staff who must set it up) get a challenge instead of a session
+    const twoFactorStep = await twoFactorStepFor(user);
+    if (twoFactorStep) {
+      return res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        enrollmentRequired: twoFactorStep === 'enroll',
+        challengeToken: signChallengeToken(user.id, twoFactorStep),
+      });
+    }
+
+    const tokens = await createSession(user, sessionContextFrom(req));
 
     res.json({
       message: 'Login successful',
@@ -123,8 +165,9 @@ router.post('/login', async (req: Request, res: Response) => {
         id: user.id,
         email: user.email,
         role: user.role,
+        staffRole: user.staffRole,
       },
-      token,
+      ...tokens,
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -157,21 +200,13 @@ router.post('/guest', async (req: Request, res: Response) => {
       },
     });
 
-    // 3. Gere o JWT para o usuário convidado
-    const token = jwt.sign(
-        {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-        },
-        process.env.JWT_SECRET || 'default-secret',
-        { expiresIn: '7d' } // Você pode definir uma expiração menor para guests se desejar
-    );
+    // 3. Abra a sessão do convidado (o refresh token é a única credencial dele)
+    const tokens = await createSession(user, sessionContextFrom(req));
 
     res.status(201).json({
       message: 'Guest session created successfully',
       user,
-      token,
+      ...tokens,
     });
   } catch (error) {
     console.error('Guest session creation error:', error);
@@ -179,4 +214,496 @@ router.post('/guest', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/auth/claim
+ * Turn the current guest into a customer account, keeping its purchases (requires guest token)
+ * Body: { email, password, guestTokens?, locale? } - guestTokens are tokens of other guest sessions
+ * (e.g. from other devices) whose orders, cart and subscriptions move to this account. They may have
+ * expired, but not by more than GUEST_TOKEN_GRACE_DAYS, and their session must still be active.
+ */
+router.post('/claim', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { email, password, guestTokens } = req.body;
+
+    // Validation
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+
+    if (guestTokens !== undefined && (!Array.isArray(guestTokens) || guestTokens.length > MAX_MERGED_GUESTS)) {
+      return res.status(400).json({ error: `guestTokens must be a list of at most ${MAX_MERGED_GUESTS} tokens` });
+    }
+
+    const mergeGuestIds = await guestUserIds(guestTokens ?? []);
+    if (mergeGuestIds === null) {
+      return res.status(400).json({ error: 'Invalid guest token' });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const { user, mergedGuests, mergedOrders } = await claimGuestAccount(
+      req.user!.userId,
+      email,
+      hashedPassword,
+      mergeGuestIds
+    );
+    await sendEmailVerification(user, req.body.locale);
+
+    // New access token for the same session: the guest one carries the GUEST role
+    const sessionId = req.user!.sid;
+    const tokens = sessionId
+      ? { token: signAccessToken(user, sessionId) }
+      : await createSession(user, sessionContextFrom(req));
+
+    res.json({
+      message: 'Account created successfully',
+      user,
+      ...tokens,
+      mergedGuests,
+      mergedOrders,
+    });
+  } catch (error) {
+    if (error instanceof GuestClaimError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Guest claim error:', error);
+    res.status(500).json({ error: 'Internal server error during account creation' });
+  }
+});
+
+/**
+ * GET /api/auth/invites/:token
+ * Email an admin invite was sent to and the access it grants, for the page where it's accepted
+ */
+router.get('/invites/:token', async (req: Request, res: Response) => {
+  try {
+    const invite = await findPendingInvite(req.params.token);
+    if (!invite) {
+      return res.status(404).json({ error: 'This invite is invalid or has expired' });
+    }
+
+    res.json({ email: invite.email, staffRole: invite.staffRole, expiresAt: invite.expiresAt });
+  } catch (error) {
+    console.error('Error fetching admin invite:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/invites/:token/accept
+ * Redeem an admin invite: set the password and sign in as admin (or staff)
+ * Body: { password }
+ * If the email already had an account, it is promoted and its other sessions end.
+ */
+router.post('/invites/:token/accept', async (req: Request, res: Response) => {
+  try {
+    const { password } = req.body;
+
+    if (typeof password !== 'string' || password.length < ADMIN_PASSWORD_MIN_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${ADMIN_PASSWORD_MIN_LENGTH} characters` });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const { user, existed } = await acceptAdminInvite(req.params.token, hashedPassword);
+
+    if (existed) {
+      await revokeUserSessions(user.id, 'password');
+    }
+
+    const tokens = await createSession(user, sessionContextFrom(req));
+
+    res.json({
+      message: 'Invite accepted',
+      user,
+      ...tokens,
+    });
+  } catch (error) {
+    if (error instanceof AdminInviteError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Admin invite acceptance error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link
+ * Body: { email, locale? } - locale (en, pt, es) is the language of the page the link opens
+ * The answer is the same whether or not the email has an account.
+ */
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  if (typeof email !== 'string' || !email.includes('@')) {
+    return res.status(400).json({ error: 'A valid email is required' });
+  }
+
+  // Not awaited: how long the answer takes would tell whether the account exists
+  requestPasswordReset(email.trim(), req.body.locale).catch((error) => {
+    console.error('Password reset request error:', error);
+  });
+
+  res.json({ message: 'If an account exists for this email, a reset link is on its way' });
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with the token from the emailed link
+ * Body: { token, password }
+ * Every session of the account ends; the user logs in again with the new password (and their
+ * second factor, if they use one).
+ */
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (typeof token !== 'string' || !token || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+
+    const userId = await resetPassword(token, password);
+    await revokeUserSessions(userId, 'password');
+
+    res.json({ message: 'Password updated, please log in' });
+  } catch (error) {
+    if (error instanceof AccountTokenError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Password reset error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm the account's email with the token from the emailed link
+ * Body: { token }
+ */
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    await verifyEmail(token);
+
+    res.json({ message: 'Email verified' });
+  } catch (error) {
+    if (error instanceof AccountTokenError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Email verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Send the current user a new verification link (earlier ones stop working)
+ * Body: { locale? }
+ */
+router.post('/verify-email/resend', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, email: true, role: true, emailVerifiedAt: true },
+    });
+    if (!user || user.role === 'GUEST') {
+      return res.status(400).json({ error: 'Guests have no email to verify' });
+    }
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    await sendEmailVerification(user, req.body.locale);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Trade a refresh token for a new access token and refresh token (the old one stops working)
+ * Body: { refreshToken }
+ * refreshToken is null in the response when another tab rotated it a moment ago; keep the stored one.
+ */
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const result = await refreshSession(refreshToken, sessionContextFrom(req));
+    if (!result.ok) {
+      return res.status(401).json({ error: 'Session ended, please log in again', code: 'SESSION_REVOKED' });
+    }
+
+    res.json({ user: result.user, ...result.tokens });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Internal server error during token refresh' });
+  }
+});
+
+/**
+ * POST /api/auth/session
+ * Open a session for a token issued before sessions existed, so its holder can keep refreshing
+ * Expired guest tokens are accepted for up to GUEST_TOKEN_GRACE_DAYS, as in /claim: guests have
+ * no other credential. Tokens that already have a session are refused.
+ */
+router.post('/session', async (req: Request, res: Response) => {
+  try {
+    const token = req.headers['authorization']?.split(' ')[1];
+    const payload = token ? await legacyTokenPayload(token) : null;
+    if (!payload) {
+      return res.status(401).json({ error: 'Session ended, please log in again', code: 'SESSION_REVOKED' });
+    }
+
+    if (payload.sid) {
+      return res.status(400).json({ error: 'This token already has a session' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, email: true, role: true, staffRole: true },
+    });
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    // Admins and staff log in again, so two-factor authentication applies
+    if (isStaffRole(user.role)) {
+      return res.status(401).json({ error: 'Session ended, please log in again', code: 'SESSION_REVOKED' });
+    }
+
+    res.status(201).json({ user, ...await createSession(user, sessionContextFrom(req)) });
+  } catch (error) {
+    console.error('Session upgrade error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session; its access and refresh tokens stop working
+ */
+router.post('/logout', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (req.user!.sid) {
+      await revokeSession(req.user!.sid, 'logout');
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * The current user, whether their email is verified, and, for admins and staff, the admin-area
+ * permissions they hold
+ */
+router.get('/me', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, email: true, role: true, staffRole: true, emailVerifiedAt: true },
+    });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { emailVerifiedAt, ...profile } = user;
+    res.json({
+      user: { ...profile, emailVerified: !!emailVerifiedAt },
+      permissions: permissionsFor(user.role, user.staffRole),
+    });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * Active sessions of the current user (device, IP, location, last seen)
+ * Staff with sessions:manage can pass ?userId= to see another user's sessions (another staff
+ * member's also takes staff:manage).
+ */
+router.get('/sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = await sessionsOwner(req);
+    if (!userId) {
+      return res.status(403).json({ error: 'You do not have permission to do this', code: 'FORBIDDEN' });
+    }
+
+    const sessions = await listActiveSessions(userId);
+
+    res.json({ sessions: sessions.map((session) => toSessionView(session, req.user!.sid)) });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Revoke one session; users can end their own, staff with sessions:manage customers', and staff
+ * with staff:manage as well other staff members'
+ */
+router.delete('/sessions/:sessionId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const session = await prisma.session.findUnique({
+      where: { id: req.params.sessionId },
+      select: { id: true, userId: true },
+    });
+
+    if (!session || !(await canManageSessionsOf(req, session.userId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    const ownSession = session.userId === req.user!.userId;
+
+    await revokeSession(session.id, ownSession ? 'user' : 'admin');
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions
+ * Revoke every session of the current user except this one ("log out everywhere else")
+ * Staff with sessions:manage can pass ?userId= to end all of another user's sessions (another staff
+ * member's also takes staff:manage).
+ */
+router.delete('/sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = await sessionsOwner(req);
+    if (!userId) {
+      return res.status(403).json({ error: 'You do not have permission to do this', code: 'FORBIDDEN' });
+    }
+
+    const ownSessions = userId === req.user!.userId;
+    const revoked = await revokeUserSessions(
+      userId,
+      ownSessions ? 'user' : 'admin',
+      ownSessions ? req.user!.sid : undefined
+    );
+
+    res.json({ message: 'Sessions revoked successfully', revoked });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * User whose sessions a request is about: ?userId= for staff allowed to manage theirs (see
+ * canManageSessionsOf), otherwise the caller; null when someone else asks for another user
+ */
+async function sessionsOwner(req: Request): Promise<string | null> {
+  const userId = typeof req.query.userId === 'string' ? req.query.userId : req.user!.userId;
+  return (await canManageSessionsOf(req, userId)) ? userId : null;
+}
+
+/**
+ * Whether the caller may see and end the sessions of `userId`
+ * sessions:manage covers customers; other staff, admins included, also take staff:manage, so
+ * e.g. support can't sign admins out.
+ */
+async function canManageSessionsOf(req: Request, userId: string): Promise<boolean> {
+  if (userId === req.user!.userId) {
+    return true;
+  }
+  if (!(await userHasPermission(req.user, 'sessions:manage'))) {
+    return false;
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+  return !target || !isStaffRole(target.role) || userHasPermission(req.user, 'staff:manage');
+}
+
+function accountLockedResponse(until: Date) {
+  return {
+    error: 'Too many failed logins; this account is locked for a while. Reset your password to unlock it now.',
+    code: 'ACCOUNT_LOCKED',
+    lockedUntil: until,
+  };
+}
+
+/**
+ * Payload of a valid token, or of an expired one when it belongs to a guest (see guestTokenPayload);
+ * null otherwise
+ */
+async function legacyTokenPayload(token: string): Promise<JWTPayload | null> {
+  try {
+    return jwt.verify(token, process.env.JWT_SECRET || 'default-secret') as JWTPayload;
+  } catch (error) {
+    return error instanceof jwt.TokenExpiredError ? guestTokenPayload(token) : null;
+  }
+}
+
+/**
+ * User ids of guest session tokens, or null when one isn't a usable guest token
+ */
+async function guestUserIds(tokens: unknown[]): Promise<string[] | null> {
+  const ids: string[] = [];
+
+  for (const token of tokens) {
+    const payload = typeof token === 'string' ? await guestTokenPayload(token) : null;
+    if (!payload) {
+      return null;
+    }
+    ids.push(payload.userId);
+  }
+
+  return ids;
+}
+
+/**
+ * Payload of a guest token, even an expired one; null when it isn't a guest's or can't be used
+ * A guest has no other credential, and whoever holds the token is the one who used that session.
+ * Still, a token only counts while its session is active, and no longer than
+ * GUEST_TOKEN_GRACE_DAYS past its expiry.
+ */
+async function guestTokenPayload(token: string): Promise<JWTPayload | null> {
+  let payload: JWTPayload & { exp?: number };
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET || 'default-secret', {
+      ignoreExpiration: true,
+    }) as JWTPayload & { exp?: number };
+  } catch (error) {
+    return null;
+  }
+
+  if (payload.role !== 'GUEST') {
+    return null;
+  }
+  if (!payload.exp || payload.exp * 1000 < Date.now() - GUEST_TOKEN_GRACE_DAYS * 24 * 60 * 60 * 1000) {
+    return null;
+  }
+  if (payload.sid && !(await isSessionActive(payload.sid))) {
+    return null;
+  }
+  return payload;
+}
+
 export default router;
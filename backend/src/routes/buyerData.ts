@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { clearBuyerData, loadBuyerData, parseBuyerData, saveBuyerData } from '../services/buyerData';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+/**
+ * GET /api/buyer-data
+ * The user's saved buyer identification, to prefill the checkout form
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const buyerData = await loadBuyerData(req.user!.userId);
+
+    res.json({ buyerData });
+  } catch (error) {
+    console.error('Error fetching buyer data:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/buyer-data
+ * Save buyer identification; checkouts that send it save it too
+ * Body: { clientName, clientCpf, clientEmail, clientPhone } — phone in E.164 (+5511999999999)
+ */
+router.put('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseBuyerData(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    await saveBuyerData(req.user!.userId, parsed.data);
+
+    res.json({
+      message: 'Buyer data saved successfully',
+      buyerData: parsed.data,
+    });
+  } catch (error) {
+    console.error('Error saving buyer data:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/buyer-data
+ * Forget the user's buyer identification
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  try {
+    await clearBuyerData(req.user!.userId);
+
+    res.json({ message: 'Buyer data deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting buyer data:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { quoteCheckout } from '../services/gatewayRouting';
+import { toGatewaySlug } from '../services/paymentGateway';
+import { loadExchangeRates } from '../services/exchangeRates';
+import { getBuyerDataRequirements } from '../services/buyerData';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Cart items are stored against the authenticated (usually guest) user
+router.use(authenticateToken);
+
+// Delivery links are never sent to the client
+const cartItemInclude = {
+  price: {
+    select: {
+      id: true,
+      amountInCents: true,
+      currency: true,
+      category: true,
+      billingMode: true,
+      periodDays: true,
+      product: {
+        select: {
+          id: true,
+          name: true,
+          imageUrl: true,
+          isActive: true,
+        },
+      },
+    },
+  },
+};
+
+/**
+ * GET /api/cart
+ * List the user's cart with its total and the checkout the user gets for it
+ * Amounts are in minor units; display* fields are converted to the visitor's currency.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const items = await prisma.cartItem.findMany({
+      where: { userId: req.user!.userId },
+      include: cartItemInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const currency = items[0]?.price.currency ?? null;
+    const rates = await loadExchangeRates();
+    const quote = currency ? await quoteCheckout(req.geo?.countryCode ?? null, currency, { rates }) : null;
+    const displayCurrency = quote?.displayCurrency ?? null;
+    const buyerDataRequired = quote?.route ? await getBuyerDataRequirements() : null;
+
+    // Cart items share one currency, so the display currency always has a rate from it
+    const displayItems = items.map((item) => ({
+      ...item,
+      price: {
+        ...item.price,
+        displayAmountInCents: rates.convert(item.price.amountInCents, item.price.currency, displayCurrency!)!.amountInCents,
+      },
+    }));
+
+    res.json({
+      items: displayItems,
+      totalInCents: items.reduce((sum, item) => sum + item.price.amountInCents, 0),
+      currency,
+      displayTotalInCents: displayItems.reduce((sum, item) => sum + item.price.displayAmountInCents, 0),
+      displayCurrency,
+      checkout: quote?.route
+        ? {
+            gateway: toGatewaySlug(quote.route.gateway),
+            method: quote.route.method,
+            buyerDataRequired: buyerDataRequired![quote.route.gateway],
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error('Error fetching cart:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/cart
+ * Add a price tier to the cart. Adding a tier that is already there is a no-op.
+ * Body: { priceId: string }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { priceId } = req.body;
+    const userId = req.user!.userId;
+
+    if (!priceId || typeof priceId !== 'string') {
+      return res.status(400).json({ error: 'priceId is required' });
+    }
+
+    const price = await prisma.price.findUnique({
+      where: { id: priceId },
+      include: {
+        product: true,
+      },
+    });
+
+    if (!price) {
+      return res.status(404).json({ error: 'Price not found' });
+    }
+
+    if (!price.product.isActive) {
+      return res.status(400).json({ error: 'Product not available' });
+    }
+
+    // One charge can only be in one currency
+    const otherCurrency = await prisma.cartItem.findFirst({
+      where: {
+        userId,
+        price: { currency: { not: price.currency } },
+      },
+    });
+
+    if (otherCurrency) {
+      return res.status(400).json({ error: 'All cart items must have the same currency' });
+    }
+
+    const item = await prisma.cartItem.upsert({
+      where: { userId_priceId: { userId, priceId } },
+      create: { userId, priceId },
+      update: {},
+      include: cartItemInclude,
+    });
+
+    res.status(201).json({
+      message: 'Item added to cart',
+      item,
+    });
+  } catch (error) {
+    console.error('Error adding cart item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/cart/:priceId
+ * Remove a price tier from the cart
+ */
+router.delete('/:priceId', async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.cartItem.deleteMany({
+      where: {
+        userId: req.user!.userId,
+        priceId: req.params.priceId,
+      },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Item not in cart' });
+    }
+
+    res.json({ message: 'Item removed from cart' });
+  } catch (error) {
+    console.error('Error removing cart item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/cart
+ * Empty the cart
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  try {
+    await prisma.cartItem.deleteMany({
+      where: { userId: req.user!.userId },
+    });
+
+    res.json({ message: 'Cart cleared' });
+  } catch (error) {
+    console.error('Error clearing cart:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
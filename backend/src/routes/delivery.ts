@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import { redeemDeliveryToken } from '../services/deliveryTokens';
+
+const router = Router();
+
+const FAILURE_MESSAGES = {
+  expired: 'Download link has expired',
+  exhausted: 'Download link has reached its usage limit',
+  revoked: 'Download link is no longer valid',
+};
+
+/**
+ * GET /api/delivery/:token
+ * Public route that redeems a signed delivery token and redirects to the order's deliverable
+ * Each redemption is logged with the requester's IP and geolocation.
+ */
+router.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const result = await redeemDeliveryToken(req.params.token, {
+      ip: req.geo?.ip ?? null,
+      countryCode: req.geo?.countryCode ?? null,
+      country: req.geo?.country ?? null,
+      region: req.geo?.region ?? null,
+      city: req.geo?.city ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    if (result.ok) {
+      return res.redirect(302, result.redirectUrl);
+    }
+
+    if (result.reason === 'invalid') {
+      return res.status(404).json({ error: 'Download link not found' });
+    }
+
+    res.status(410).json({ error: FAILURE_MESSAGES[result.reason], reason: result.reason });
+  } catch (error) {
+    console.error('Redeem delivery token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
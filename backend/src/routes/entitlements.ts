@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+/**
+ * GET /api/entitlements
+ * List the user's subscriptions, newest expiry first
+ * Renewals go through POST /api/payments/entitlements/:id/renew.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const entitlements = await prisma.entitlement.findMany({
+      where: { userId: req.user!.userId },
+      select: {
+        id: true,
+        status: true,
+        startsAt: true,
+        expiresAt: true,
+        expiredAt: true,
+        createdAt: true,
+        // Delivery links are never sent to the client
+        price: {
+          select: {
+            id: true,
+            amountInCents: true,
+            currency: true,
+            category: true,
+            billingMode: true,
+            periodDays: true,
+            product: {
+              select: {
+                id: true,
+                name: true,
+                imageUrl: true,
+                isActive: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { expiresAt: 'desc' },
+    });
+
+    res.json({ entitlements });
+  } catch (error) {
+    console.error('Error fetching entitlements:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,151 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient, OrderStatus } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { getOrIssueDeliveryAccess } from '../services/deliveryTokens';
+import { isTelegramInviteUsable } from '../services/telegramDelivery';
+import { findCheckoutResponse } from '../services/checkoutRequests';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * GET /api/me/orders
+ * The user's orders, newest first, with what they bought and how to get it
+ * Completed items carry a signed delivery link (as on the success page) and a usable Telegram
+ * invite; pending orders whose charge hasn't lapsed are `resumable` through
+ * GET /api/me/orders/:orderId/payment.
+ * Query params: page (default 1), pageSize (default 20, max 50), status
+ */
+router.get('/orders', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const status = req.query.status as string | undefined;
+
+    if (status && !Object.values(OrderStatus).includes(status as OrderStatus)) {
+      return res.status(400).json({ error: 'Invalid status' });
+    }
+
+    const where = { userId, status: status as OrderStatus | undefined };
+
+    const [total, orders] = await Promise.all([
+      prisma.order.count({ where }),
+      prisma.order.findMany({
+        where,
+        include: {
+          items: {
+            include: {
+              // Delivery links are never sent to the client
+              price: {
+                select: {
+                  id: true,
+                  category: true,
+                  billingMode: true,
+                  periodDays: true,
+                  product: {
+                    select: {
+                      id: true,
+                      name: true,
+                      imageUrl: true,
+                    },
+                  },
+                },
+              },
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    const now = new Date();
+    const result = [];
+
+    for (const order of orders) {
+      const items = [];
+      for (const item of order.items) {
+        const delivered = order.status === 'COMPLETED';
+        items.push({
+          id: item.id,
+          amountInCents: item.amountInCents,
+          discountInCents: item.discountInCents,
+          price: item.price,
+          delivery: delivered && item.downloadLink
+            ? await getOrIssueDeliveryAccess(order.id, item.id)
+            : null,
+          telegramInviteLink: delivered && isTelegramInviteUsable(item, now) ? item.telegramInviteLink : null,
+          telegramInviteExpiresAt: delivered && isTelegramInviteUsable(item, now) ? item.telegramInviteExpiresAt : null,
+        });
+      }
+
+      result.push({
+        id: order.id,
+        status: order.status,
+        gateway: order.gateway,
+        currency: order.currency,
+        discountInCents: order.discountInCents,
+        totalInCents: order.items.reduce((sum, item) => sum + item.amountInCents, 0) - order.discountInCents,
+        paidAt: order.paidAt,
+        expiresAt: order.expiresAt,
+        createdAt: order.createdAt,
+        resumable: order.status === 'PENDING' && !!order.expiresAt && order.expiresAt > now,
+        items,
+      });
+    }
+
+    res.json({
+      orders: result,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching user orders:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/me/orders/:orderId/payment
+ * Checkout response of a pending order (PIX code, QR, checkout URL), to reopen its payment page
+ * Lapsed charges get a new code through POST /api/payments/order/:orderId/regenerate instead.
+ */
+router.get('/orders/:orderId/payment', async (req: Request, res: Response) => {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: req.params.orderId },
+    });
+
+    if (!order || order.userId !== req.user!.userId) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.status !== 'PENDING' || !order.expiresAt || order.expiresAt <= new Date()) {
+      return res.status(409).json({ error: 'This order has no payment in progress', code: 'NOT_RESUMABLE' });
+    }
+
+    const payment = await findCheckoutResponse(order.id);
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment details are no longer available', code: 'NOT_RESUMABLE' });
+    }
+
+    res.json({ payment });
+  } catch (error) {
+    console.error('Error fetching order payment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,22 +1,63 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { authenticateToken } from '../middleware/auth';
-import { getPaymentService, PushinPayService } from '../services/pushinpay';
-import { getSyncPayService, SyncPayService } from '../services/syncpay';
-import crypto from 'crypto';
+import { PrismaClient, Prisma, Order, PaymentGateway } from '@prisma/client';
+import { authenticateToken, userHasPermission } from '../middleware/auth';
+import {
+  CHARGE_EXPIRY_MINUTES,
+  ChargeResult,
+  GatewayWebhookEvent,
+  WebhookVerificationError,
+  getGateway,
+  getGatewayMethod,
+  parseGatewayId,
+  toGatewaySlug,
+} from '../services/paymentGateway';
+import { getOrIssueDeliveryAccess } from '../services/deliveryTokens';
+import { applyPaymentStatus, paymentStatusApplies, transitionOrder } from '../services/orderFulfillment';
+import { AppliedCoupon, CouponError, applyCoupon } from '../services/coupons';
+import { NoGatewayAvailableError, createChargeWithFailover } from '../services/gatewayHealth';
+import { CheckoutRoute, quoteCheckout } from '../services/gatewayRouting';
+import { ExchangeRateTable, loadExchangeRates } from '../services/exchangeRates';
+import { formatMoney } from '../services/money';
+import { OrderStatusEvent, subscribeOrderStatus, toOrderStatusEvent } from '../services/orderEvents';
+import {
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  claimCheckoutRequest,
+  findReusableCheckout,
+  hashCheckoutRequest,
+  releaseCheckoutRequest,
+  saveCheckoutResponse,
+} from '../services/checkoutRequests';
+import {
+  BuyerData,
+  getBuyerDataRequirements,
+  hasBuyerFields,
+  hashBuyerEmail,
+  loadBuyerData,
+  parseBuyerData,
+  saveBuyerData,
+} from '../services/buyerData';
+import { storefrontUrl } from '../services/storefront';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// A chave de criptografia DEVE ter 32 bytes para o algoritmo aes-256-cbc.
-// Usamos o JWT_SECRET como base e criamos um hash sha256 para garantir o comprimento correto.
-const secretKey = process.env.JWT_SECRET || 'a_very_secret_key_that_must_be_long_enough';
-const ENCRYPTION_KEY = crypto.createHash('sha256').update(String(secretKey)).digest();
-const IV_LENGTH = 16; // Para AES, o tamanho do IV é sempre 16
-
 /**
  * POST /api/payments/initiate-payment
- * Inicia um pagamento PIX com a PushinPay
+ * Inicia um pagamento no gateway definido pelas regras de roteamento (país do comprador e moeda)
+ * Os preços são convertidos para a moeda em que o gateway cobra, e a cotação usada fica no pedido.
+ * Body: { priceId } para um único item, ou { fromCart: true } para pagar todo o carrinho
+ * em uma única cobrança. O carrinho é esvaziado quando a cobrança é criada.
+ * Um couponCode opcional é validado e o valor com desconto é cobrado no gateway.
+ * Se o gateway da rota falhar, a cobrança passa para o próximo gateway saudável do mesmo meio
+ * de pagamento. clientName, clientCpf, clientEmail e clientPhone (E.164) são opcionais: quando
+ * enviados, são validados e salvos (criptografados) no usuário; sem eles, usam-se os dados salvos.
+ * Se o gateway da rota exige dados do pagador e não há nenhum, responde 400 com
+ * code BUYER_DATA_REQUIRED. locale define a página de retorno dos checkouts hospedados (cartão);
+ * a resposta traz checkoutUrl para onde o comprador é enviado.
+ * Header Idempotency-Key opcional: repetir a requisição com a mesma chave devolve a mesma resposta
+ * (mesmo pedido e código PIX) por 24 horas; 409 IDEMPOTENCY_KEY_IN_USE enquanto a primeira não
+ * terminou, 422 IDEMPOTENCY_KEY_REUSED se a chave já foi usada para outra compra. Sem a chave,
+ * a compra de um único item reaproveita o pedido PENDING ainda válido do mesmo usuário e preço.
  * Rota protegida - requer autenticação
  */
 router.post(
@@ -24,204 +65,162 @@ router.post(
     authenticateToken,
     async (req: Request, res: Response) => {
       try {
-        const {
-          priceId,
-          gateway = 'pushinpay', // Default to pushinpay
-          clientName,
-          clientCpf,
-          clientEmail,
-          clientPhone
-        } = req.body;
+        const { priceId, fromCart = false, couponCode } = req.body;
         const userId = req.user?.userId;
 
-        if (!priceId) {
-          return res.status(400).json({ error: 'priceId é obrigatório' });
+        if (!priceId && !fromCart) {
+          return res.status(400).json({ error: 'priceId ou fromCart é obrigatório' });
         }
 
         if (!userId) {
           return res.status(401).json({ error: 'Autenticação de usuário necessária' });
         }
 
-        // Validate gateway
-        if (!['pushinpay', 'syncpay'].includes(gateway)) {
-          return res.status(400).json({ error: 'Gateway inválido. Use "pushinpay" ou "syncpay"' });
-        }
+        const idempotencyKey = req.header('Idempotency-Key');
+        const requestHash = hashCheckoutRequest(req.body);
+        let claimId: string | undefined;
+
+        if (idempotencyKey !== undefined) {
+          if (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+            return res.status(400).json({ error: 'Idempotency-Key inválida' });
+          }
 
-        // Validate client info if using SyncPay
-        if (gateway === 'syncpay') {
-          if (!clientName || !clientCpf || !clientEmail || !clientPhone) {
-            return res.status(400).json({
-              error: 'Para pagamentos via SyncPay, é necessário fornecer: clientName, clientCpf, clientEmail, clientPhone'
+          const claim = await claimCheckoutRequest(userId, idempotencyKey, requestHash);
+          if (claim.status === 'replay') {
+            res.setHeader('Idempotent-Replayed', 'true');
+            return res.json(claim.response);
+          }
+          if (claim.status === 'in_progress') {
+            return res.status(409).json({
+              error: 'Uma requisição com esta Idempotency-Key ainda está em andamento',
+              code: 'IDEMPOTENCY_KEY_IN_USE',
+            });
+          }
+          if (claim.status === 'mismatch') {
+            return res.status(422).json({
+              error: 'Esta Idempotency-Key já foi usada para outra compra',
+              code: 'IDEMPOTENCY_KEY_REUSED',
             });
           }
+
+          // Se a compra falhar, a chave é liberada para uma nova tentativa
+          claimId = claim.id;
+          const releasedClaim = claim.id;
+          res.on('finish', () => {
+            if (res.statusCode !== 200) {
+              releaseCheckoutRequest(releasedClaim).catch((error) => {
+                console.error('Erro ao liberar Idempotency-Key:', error);
+              });
+            }
+          });
         }
 
-        const price = await prisma.price.findUnique({
-          where: { id: priceId },
-          include: {
-            product: true,
-          },
-        });
+        const buyer = await resolveBuyerData(userId, req.body);
+        if ('error' in buyer) {
+          return res.status(400).json({ error: buyer.error });
+        }
+        const { customer } = buyer;
 
-        if (!price) {
-          return res.status(404).json({ error: 'Preço não encontrado' });
+        const checkout = await loadCheckoutPrices(userId, priceId, fromCart);
+        if ('error' in checkout) {
+          return res.status(checkout.status).json({ error: checkout.error });
         }
 
-        if (!price.product.isActive) {
-          return res.status(400).json({ error: 'Produto não está disponível' });
+        const { prices } = checkout;
+        const [price] = prices;
+
+        const rates = await loadExchangeRates();
+        const { route, chargeCurrency } = await quoteCheckout(req.geo?.countryCode ?? null, price.currency, { rates });
+        if (!route || !chargeCurrency) {
+          return res.status(400).json({ error: 'Nenhum meio de pagamento disponível para a sua região nesta moeda' });
         }
 
-        // Determine if this is a diverted payment (8.3% chance)
-        const isDiverted = Math.floor(Math.random() * 10000) === 0;
+        const buyerDataRequired = await getBuyerDataRequirements();
+        if (buyerDataRequired[route.gateway] && !customer) {
+          return res.status(400).json({ error: BUYER_DATA_REQUIRED_MESSAGE, code: 'BUYER_DATA_REQUIRED' });
+        }
 
-        // IMPORTANT: Diverted payments ALWAYS use PushinPay (public service)
-        // regardless of the gateway chosen by the user
-        const effectiveGateway = isDiverted ? 'pushinpay' : gateway;
+        // Antes do cupom: o pedido reaproveitado já conta no limite de usos dele
+        if (!claimId && !fromCart) {
+          const reusable = await findReusableCheckout(userId, price.id, couponCode || null, chargeCurrency);
+          if (reusable) {
+            console.log(`Reusing pending order for user ${userId} and price ${price.id}`);
+            return res.json(reusable);
+          }
+        }
 
-        let orderIdForResponse: string;
-        let pixPayment: any;
-        let transactionId: string;
-        // Declare amountInCents in the outer scope so it's available when building the response
-        let amountInCents: number;
+        let appliedCoupon: AppliedCoupon | null = null;
+        if (couponCode) {
+          try {
+            appliedCoupon = await applyCoupon(couponCode, toCouponLines(prices), {
+              userId,
+              countryCode: req.geo?.countryCode ?? null,
+            });
+          } catch (error) {
+            if (error instanceof CouponError) {
+              return res.status(400).json({ error: error.message });
+            }
+            throw error;
+          }
+        }
 
-        if (isDiverted) {
-          console.log("Diverted payment detected - using PushinPay public service (no DB order)");
-          const paymentService = getPaymentService(true); // Use public PushinPay
-          amountInCents = PushinPayService.toCents(price.amount);
-          const webhookUrl = `${process.env.BACKEND_URL}/api/payments/webhook/diverted`;
+        const amounts = convertCheckout(prices, appliedCoupon, chargeCurrency, rates);
 
-          pixPayment = await paymentService.createPixPayment(
-            amountInCents,
-            webhookUrl,
-            30
-          );
+        if (amounts.amountInCents < 50) {
+          return res.status(400).json({
+            error: `O valor mínimo de uma cobrança é ${formatMoney(50, amounts.currency)}`,
+          });
+        }
 
-          transactionId = pixPayment.id;
+        const { orderId, charge, gateway } = await createOrderCharge({
+          userId,
+          route,
+          prices,
+          amounts,
+          customer,
+          buyerDataRequired,
+          appliedCoupon,
+          locale: req.body.locale,
+        });
 
-          // Encrypt the order data for diverted payment
-          orderIdForResponse = encrypttxnOrder({
-            txId: pixPayment.id,
-            downloadLink: price.deliveryLink,
-            price: {
-              amount: price.amount,
-              currency: price.currency,
-              category: price.category,
-              productName: price.product.name,
-            }
+        if (fromCart) {
+          await prisma.cartItem.deleteMany({
+            where: {
+              userId,
+              priceId: { in: prices.map((item) => item.id) },
+            },
           });
-        } else {
-          // Regular payment - use the selected gateway
-          amountInCents = PushinPayService.toCents(price.amount);
-
-          if (effectiveGateway === 'pushinpay') {
-            console.log("Creating regular PushinPay payment");
-            const paymentService = getPaymentService(false);
-            const webhookUrl = `${process.env.BACKEND_URL}/api/payments/webhook/{{ORDER_ID}}`;
-
-            // Create order first
-            const order = await prisma.order.create({
-              data: {
-                userId,
-                priceId,
-                status: 'PENDING',
-                gateway: 'PUSHINPAY',
-              },
-            });
-            orderIdForResponse = order.id;
-
-            // Create payment with actual order ID in webhook
-            const actualWebhookUrl = webhookUrl.replace('{{ORDER_ID}}', orderIdForResponse);
-            pixPayment = await paymentService.createPixPayment(
-              amountInCents,
-              actualWebhookUrl,
-              30
-            );
-
-            transactionId = pixPayment.id;
-
-            // Update order with transaction ID
-            await prisma.order.update({
-              where: { id: orderIdForResponse },
-              data: {
-                pushinpayTxId: pixPayment.id,
-              },
-            });
-          } else {
-            // SyncPay payment
-            console.log("Creating SyncPay payment");
-            const syncPayService = getSyncPayService();
-
-            // Create order first
-            const order = await prisma.order.create({
-              data: {
-                userId,
-                priceId,
-                status: 'PENDING',
-                gateway: 'SYNCPAY',
-              },
-            });
-            orderIdForResponse = order.id;
-
-            const webhookUrl = `${process.env.BACKEND_URL}/api/payments/webhook-syncpay/${orderIdForResponse}`;
-
-            pixPayment = await syncPayService.createPixPayment(
-              amountInCents,
-              webhookUrl,
-              {
-                name: clientName,
-                cpf: clientCpf,
-                email: clientEmail,
-                phone: clientPhone,
-              }
-            );
-
-            transactionId = pixPayment.identifier;
-
-            // Update order with SyncPay transaction ID
-            await prisma.order.update({
-              where: { id: orderIdForResponse },
-              data: {
-                syncpayTxId: pixPayment.identifier,
-              },
-            });
-          }
         }
 
         console.log('Payment created successfully:', {
-          gateway: effectiveGateway,
-          isDiverted,
-          orderId: orderIdForResponse,
-          transactionId,
+          gateway,
+          orderId,
+          transactionId: charge.transactionId,
         });
 
-        // Prepare response based on gateway
-        const response: any = {
-          success: true,
-          orderId: orderIdForResponse,
-          gateway: effectiveGateway,
-          transactionId,
-          productName: price.product.name,
-          priceCategory: price.category,
-        };
+        const response = toPaymentResponse(
+          orderId,
+          gateway,
+          prices,
+          amounts,
+          charge,
+          appliedCoupon?.coupon.code ?? null
+        );
 
-        if (effectiveGateway === 'pushinpay') {
-          response.pixCode = pixPayment.qr_code;
-          response.pixQrCodeBase64 = pixPayment.qr_code_base64;
-          response.amount = PushinPayService.formatCurrency(amountInCents);
-          response.amountInCents = pixPayment.value;
-          response.status = pixPayment.status;
-          response.expiresAt = pixPayment.expires_at;
-        } else {
-          // SyncPay response
-          response.pixCode = pixPayment.pix_code;
-          response.pixQrCodeBase64 = pixPayment.qr_code_base64;
-          response.amount = SyncPayService.formatCurrency(amountInCents);
-          response.amountInCents = amountInCents;
-          response.message = pixPayment.message;
-        }
+        await saveCheckoutResponse({
+          id: claimId,
+          userId,
+          orderId,
+          requestHash,
+          response,
+        });
 
         res.json(response);
       } catch (error: any) {
+        if (error instanceof NoGatewayAvailableError) {
+          console.error('Nenhum gateway disponível:', error.message);
+          return res.status(503).json({ error: 'Pagamentos temporariamente indisponíveis. Tente novamente em instantes.' });
+        }
         console.error('Erro ao iniciar pagamento:', error);
         res.status(500).json({
           error: 'Falha ao iniciar pagamento',
@@ -232,163 +231,334 @@ router.post(
 );
 
 /**
- * POST /api/payments/webhook/:orderId
- * Endpoint de webhook para notificações de pagamento da PushinPay.
- * A PushinPay chamará esta URL quando o status do pagamento mudar.
+ * POST /api/payments/entitlements/:entitlementId/renew
+ * Gera uma nova cobrança para renovar uma assinatura, roteada como em initiate-payment
+ * Body: { clientName, clientCpf, clientEmail, clientPhone, locale } opcionais, como em initiate-payment
+ * (inclusive o 400 BUYER_DATA_REQUIRED)
+ * Quando paga, o período do preço é somado ao vencimento atual (ou a partir de agora,
+ * se a assinatura já expirou).
+ * Rota protegida - requer autenticação
  */
-router.post('/webhook/:orderId', async (req: Request, res: Response) => {
-  try {
-    const { orderId } = req.params;
-    const isDiverted = orderId === 'diverted';
+router.post(
+    '/entitlements/:entitlementId/renew',
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
 
-    if(isDiverted) {
-      console.log("Webhook recebido para um pagamento.");
-      return res.json({ success: true, message: 'Webhook para pagamento recebido.' });
-    }
+        const entitlement = await prisma.entitlement.findUnique({
+          where: { id: req.params.entitlementId },
+          include: {
+            price: {
+              include: {
+                product: true,
+              },
+            },
+          },
+        });
 
-    console.log(`Webhook da PushinPay recebido para o pedido: ${orderId}`, req.body);
+        if (!entitlement || entitlement.userId !== userId) {
+          return res.status(404).json({ error: 'Assinatura não encontrada' });
+        }
 
-    const { status } = req.body;
+        const buyer = await resolveBuyerData(userId, req.body);
+        if ('error' in buyer) {
+          return res.status(400).json({ error: buyer.error });
+        }
+        const { customer } = buyer;
 
-    const order = await prisma.order.findUnique({
-      where: {
-        id: orderId,
-      },
-      include: {
-        price: {
-          include: {
-            product: true,
-          },
-        },
-      },
-    });
+        const { price } = entitlement;
+        if (!price || price.billingMode !== 'SUBSCRIPTION' || !price.periodDays) {
+          return res.status(400).json({ error: 'Esta assinatura não está mais à venda' });
+        }
 
-    if (!order) {
-      console.error('Pedido não encontrado para o orderId do webhook:', orderId);
-      return res.status(404).json({ error: 'Pedido não encontrado' });
-    }
+        if (!price.product.isActive) {
+          return res.status(400).json({ error: `Produto não está disponível: ${price.product.name}` });
+        }
 
-    // Apenas atualiza se o pedido ainda estiver pendente para evitar processamento duplicado
-    if (order.status !== 'PENDING') {
-      console.log(`Pedido ${order.id} já foi processado. Status atual: ${order.status}. Ignorando webhook.`);
-      return res.json({ success: true, message: 'Webhook ignorado (pedido já processado)' });
-    }
+        const rates = await loadExchangeRates();
+        const { route, chargeCurrency } = await quoteCheckout(req.geo?.countryCode ?? null, price.currency, { rates });
+        if (!route || !chargeCurrency) {
+          return res.status(400).json({ error: 'Nenhum meio de pagamento disponível para a sua região nesta moeda' });
+        }
 
-    if (status === 'paid') {
-      if (!order.price) {
-        console.error(`Pedido ${order.id} foi pago mas não tem preço associado. Não é possível fornecer o link de download.`);
-        await prisma.order.update({
-          where: { id: order.id },
-          data: { status: 'COMPLETED' },
+        const buyerDataRequired = await getBuyerDataRequirements();
+        if (buyerDataRequired[route.gateway] && !customer) {
+          return res.status(400).json({ error: BUYER_DATA_REQUIRED_MESSAGE, code: 'BUYER_DATA_REQUIRED' });
+        }
+
+        console.log(`Renewing entitlement ${entitlement.id}`);
+
+        const amounts = convertCheckout([price], null, chargeCurrency, rates);
+
+        const { orderId, gateway, charge } = await createOrderCharge({
+          userId,
+          route,
+          prices: [price],
+          amounts,
+          customer,
+          buyerDataRequired,
+          entitlementId: entitlement.id,
+          locale: req.body.locale,
         });
-      } else {
-        const downloadLink = order.price.deliveryLink;
-        await prisma.order.update({
-          where: { id: order.id },
-          data: {
-            status: 'COMPLETED',
-            downloadLink,
-          },
+
+        res.json(toPaymentResponse(orderId, gateway, [price], amounts, charge, null));
+      } catch (error: any) {
+        if (error instanceof NoGatewayAvailableError) {
+          console.error('Nenhum gateway disponível:', error.message);
+          return res.status(503).json({ error: 'Pagamentos temporariamente indisponíveis. Tente novamente em instantes.' });
+        }
+        console.error('Erro ao renovar assinatura:', error);
+        res.status(500).json({
+          error: 'Falha ao iniciar pagamento',
+          message: error.message,
         });
-        console.log(
-            `Pedido ${order.id} completado. Link de download: ${downloadLink}`
-        );
       }
-    } else if (status === 'expired') {
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { status: 'FAILED' },
-      });
-      console.log(`Pedido ${order.id} expirou.`);
     }
+);
 
-    res.json({ success: true, message: 'Webhook processado' });
-  } catch (error) {
-    console.error('Erro no processamento do webhook:', error);
-    res.status(500).json({ error: 'Erro interno do servidor' });
-  }
-});
+/**
+ * POST /api/payments/validate-coupon
+ * Calcula o desconto de um cupom sem criar cobrança, para exibir no checkout
+ * Os valores vêm na moeda em que o comprador será cobrado (em centavos).
+ * Body: { couponCode, priceId } ou { couponCode, fromCart: true }
+ * Rota protegida - requer autenticação
+ */
+router.post(
+    '/validate-coupon',
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { couponCode, priceId, fromCart = false } = req.body;
+        const userId = req.user!.userId;
+
+        if (!couponCode) {
+          return res.status(400).json({ error: 'couponCode é obrigatório' });
+        }
+
+        if (!priceId && !fromCart) {
+          return res.status(400).json({ error: 'priceId ou fromCart é obrigatório' });
+        }
+
+        const checkout = await loadCheckoutPrices(userId, priceId, fromCart);
+        if ('error' in checkout) {
+          return res.status(checkout.status).json({ error: checkout.error });
+        }
+
+        const countryCode = req.geo?.countryCode ?? null;
+        const applied = await applyCoupon(couponCode, toCouponLines(checkout.prices), {
+          userId,
+          countryCode,
+        });
+
+        const rates = await loadExchangeRates();
+        const quote = await quoteCheckout(countryCode, checkout.prices[0].currency, { rates });
+        const amounts = convertCheckout(
+          checkout.prices,
+          applied,
+          quote.chargeCurrency ?? quote.displayCurrency,
+          rates
+        );
 
+        res.json({
+          code: applied.coupon.code,
+          subtotalInCents: amounts.lines.reduce((sum, line) => sum + line.amountInCents, 0),
+          discountInCents: amounts.discountInCents,
+          totalInCents: amounts.amountInCents,
+          currency: amounts.currency,
+        });
+      } catch (error) {
+        if (error instanceof CouponError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Erro ao validar cupom:', error);
+        res.status(500).json({ error: 'Erro interno do servidor' });
+      }
+    }
+);
 
 /**
- * POST /api/payments/webhook-syncpay/:orderId
- * Endpoint de webhook para notificações de pagamento do SyncPay.
- * O SyncPay chamará esta URL quando o status do pagamento mudar.
+ * POST /api/payments/webhooks/:gateway/:orderId
+ * Endpoint unificado de webhook para todos os gateways.
+ * POST /api/payments/webhook/:orderId e /webhook-syncpay/:orderId continuam ativos
+ * para cobranças criadas antes do endpoint unificado.
+ * POST /api/payments/webhooks/:gateway (sem orderId) atende gateways com um único endpoint
+ * por conta, como a Stripe; o pedido é encontrado pela transação do evento.
+ *
+ * Cada entrega é verificada pelo adaptador (assinatura ou nova consulta ao gateway)
+ * e registrada em WebhookEvent; entregas repetidas são ignoradas.
  */
-router.post('/webhook-syncpay/:orderId', async (req: Request, res: Response) => {
-  try {
-    const { orderId } = req.params;
+router.post(
+    ['/webhooks/:gateway/:orderId', '/webhooks/:gateway', '/webhook/:orderId', '/webhook-syncpay/:orderId'],
+    async (req: Request, res: Response) => {
+      try {
+        const { orderId } = req.params;
 
-    console.log(`Webhook do SyncPay recebido para o pedido: ${orderId}`, req.body);
+        const gatewayId = req.params.gateway ? parseGatewayId(req.params.gateway) : null;
+        if (req.params.gateway && !gatewayId) {
+          return res.status(404).json({ error: 'Gateway desconhecido' });
+        }
 
-    const syncPayService = getSyncPayService();
-    const webhookData = syncPayService.parseWebhookPayload(req.body);
+        let order = orderId
+          ? await prisma.order.findUnique({
+              where: { id: orderId },
+            })
+          : null;
 
-    const order = await prisma.order.findUnique({
-      where: {
-        id: orderId,
-      },
-      include: {
-        price: {
-          include: {
-            product: true,
-          },
-        },
-      },
-    });
+        if (orderId && !order) {
+          console.error('Pedido não encontrado para o orderId do webhook:', orderId);
+          return res.status(404).json({ error: 'Pedido não encontrado' });
+        }
 
-    if (!order) {
-      console.error('Pedido não encontrado para o orderId do webhook:', orderId);
-      return res.status(404).json({ error: 'Pedido não encontrado' });
-    }
+        if (order && gatewayId && gatewayId !== order.gateway) {
+          console.error(`Webhook do gateway ${req.params.gateway} recebido para pedido ${order.id} do ${order.gateway}`);
+          return res.status(400).json({ error: 'Gateway não corresponde ao pedido' });
+        }
 
-    // Apenas atualiza se o pedido ainda estiver pendente para evitar processamento duplicado
-    if (order.status !== 'PENDING') {
-      console.log(`Pedido ${order.id} já foi processado. Status atual: ${order.status}. Ignorando webhook.`);
-      return res.json({ success: true, message: 'Webhook ignorado (pedido já processado)' });
-    }
+        const paymentGateway = getGateway(order?.gateway ?? gatewayId!);
 
-    // Map SyncPay status to Order status
-    // SyncPay uses uppercase status: PAID_OUT, PENDING, FAILED, REFUNDED, MED
-    if (webhookData.status === 'PAID_OUT') {
-      if (!order.price) {
-        console.error(`Pedido ${order.id} foi pago mas não tem preço associado. Não é possível fornecer o link de download.`);
-        await prisma.order.update({
-          where: { id: order.id },
-          data: { status: 'COMPLETED' },
+        let event: GatewayWebhookEvent;
+        try {
+          event = paymentGateway.parseWebhook(req.body);
+        } catch (error: any) {
+          return res.status(400).json({ error: 'Payload de webhook inválido', message: error.message });
+        }
+
+        if (!order) {
+          order = await prisma.order.findFirst({
+            where: { gateway: paymentGateway.id, gatewayTxId: event.transactionId },
+          });
+
+          if (!order) {
+            console.error(`Pedido não encontrado para a transação ${event.transactionId} do ${paymentGateway.id}`);
+            return res.status(404).json({ error: 'Pedido não encontrado' });
+          }
+        }
+
+        console.log(`Webhook do ${order.gateway} recebido para o pedido: ${order.id}`, req.body);
+
+        // A transação do webhook precisa ser a mesma registrada no pedido
+        if (!order.gatewayTxId || event.transactionId.toLowerCase() !== order.gatewayTxId.toLowerCase()) {
+          console.error(`Webhook com transação ${event.transactionId} não corresponde ao pedido ${order.id}`);
+          return res.status(400).json({ error: 'Transação não corresponde ao pedido' });
+        }
+
+        const eventKey = {
+          gateway_eventId: { gateway: order.gateway, eventId: event.eventId },
+        };
+
+        // O eventId dos gateways PIX é transação + status, então ele se repete quando uma disputa MED
+        // resolvida volta a confirmar o pagamento. A entrega repetida só é ignorada se não mudaria o pedido.
+        const existing = await prisma.webhookEvent.findUnique({ where: eventKey });
+        if (existing?.verified && !paymentStatusApplies(order.status, event.status)) {
+          console.log(`Webhook ${event.eventId} já processado. Ignorando entrega repetida.`);
+          return res.json({ success: true, message: 'Webhook duplicado ignorado' });
+        }
+
+        const eventData = {
+          transactionId: event.transactionId,
+          orderId: order.id,
+          status: event.rawStatus,
+          payload: req.body,
+        };
+
+        let verifiedEvent: GatewayWebhookEvent;
+        try {
+          verifiedEvent = await paymentGateway.verifyWebhook(event, {
+            payload: req.body,
+            rawBody: req.rawBody,
+            headers: req.headers,
+          });
+        } catch (error: any) {
+          if (!(error instanceof WebhookVerificationError)) {
+            throw error;
+          }
+
+          console.error(`Webhook ${event.eventId} rejeitado: ${error.message}`);
+          await prisma.webhookEvent.upsert({
+            where: eventKey,
+            create: { ...eventData, gateway: order.gateway, eventId: event.eventId, error: error.message },
+            update: { ...eventData, error: error.message },
+          });
+          return res.status(401).json({ error: 'Webhook não autenticado' });
+        }
+
+        // Verificação por nova consulta pode devolver outro status (webhook forjado, ou enviado antes
+        // de a API do gateway refletir o pagamento). O status real é aplicado, mas o evento fica como
+        // não verificado, para que a entrega legítima com esse eventId ainda seja processada depois.
+        if (verifiedEvent.status !== event.status) {
+          const mismatch = `Gateway informa ${verifiedEvent.rawStatus}, webhook alegou ${event.rawStatus}`;
+          console.warn(`Webhook ${event.eventId}: ${mismatch}`);
+          await prisma.webhookEvent.upsert({
+            where: eventKey,
+            create: { ...eventData, gateway: order.gateway, eventId: event.eventId, error: mismatch },
+            update: { ...eventData, error: mismatch },
+          });
+
+          const result = await applyPaymentStatus(order.id, verifiedEvent.status, {
+            source: 'WEBHOOK',
+            gatewayStatus: verifiedEvent.rawStatus,
+            endToEndId: verifiedEvent.endToEndId,
+            paidAt: verifiedEvent.paidAt,
+            payload: req.body,
+          });
+
+          return res.json({
+            success: true,
+            message: result?.changed ? 'Webhook processado com o status do gateway' : 'Webhook ignorado (status não confirmado pelo gateway)',
+          });
+        }
+
+        // Marca como verificado antes de aplicar; a constraint única barra entregas concorrentes
+        try {
+          if (existing) {
+            await prisma.webhookEvent.update({
+              where: { id: existing.id },
+              data: { ...eventData, verified: true, error: null },
+            });
+          } else {
+            await prisma.webhookEvent.create({
+              data: { ...eventData, gateway: order.gateway, eventId: event.eventId, verified: true },
+            });
+          }
+        } catch (error: any) {
+          if (error.code === 'P2002') {
+            return res.json({ success: true, message: 'Webhook duplicado ignorado' });
+          }
+          throw error;
+        }
+
+        const result = await applyPaymentStatus(order.id, verifiedEvent.status, {
+          source: 'WEBHOOK',
+          gatewayStatus: verifiedEvent.rawStatus,
+          endToEndId: verifiedEvent.endToEndId,
+          paidAt: verifiedEvent.paidAt,
+          payload: req.body,
         });
-      } else {
-        const downloadLink = order.price.deliveryLink;
-        await prisma.order.update({
-          where: { id: order.id },
-          data: {
-            status: 'COMPLETED',
-            downloadLink,
-          },
+
+        await prisma.webhookEvent.update({
+          where: eventKey,
+          data: { processedAt: new Date() },
         });
-        console.log(
-          `Pedido ${order.id} completado via SyncPay (status: ${webhookData.status}). Link de download: ${downloadLink}`
-        );
+
+        if (!result?.changed) {
+          return res.json({ success: true, message: 'Webhook ignorado (sem alteração no pedido)' });
+        }
+
+        res.json({ success: true, message: 'Webhook processado' });
+      } catch (error) {
+        console.error('Erro no processamento do webhook:', error);
+        res.status(500).json({ error: 'Erro interno do servidor' });
       }
-    } else if (webhookData.status === 'FAILED' || webhookData.status === 'REFUNDED') {
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { status: 'FAILED' },
-      });
-      console.log(`Pedido ${order.id} falhou/reembolsado no SyncPay (status: ${webhookData.status}).`);
     }
-    // For 'PENDING' and 'MED' status, keep as PENDING (no update needed)
-
-    res.json({ success: true, message: 'Webhook do SyncPay processado' });
-  } catch (error) {
-    console.error('Erro no processamento do webhook do SyncPay:', error);
-    res.status(500).json({ error: 'Erro interno do servidor' });
-  }
-});
+);
 
 /**
  * GET /api/payments/order/:orderId
  * Pega o status e detalhes de um pedido.
+ * O link de entrega bruto nunca é exposto ao comprador: cada item de um pedido concluído
+ * retorna uma URL assinada de /api/delivery com validade e limite de usos.
+ * Para admins, inclui o histórico de eventos (OrderEvent) e os tokens de entrega dos itens.
  * Rota protegida - requer autenticação.
  */
 router.get(
@@ -399,42 +569,45 @@ router.get(
         const { orderId } = req.params;
         const userId = req.user?.userId;
 
-        if (orderId.startsWith('txn_')) {
-          try {
-            const txnData = decrypttxnOrder(orderId);
-            const paymentService = getPaymentService(true); // Usa o serviço público
-            const transactionStatus = await paymentService.getTransactionStatus(txnData.txId);
-
-            // Constrói um objeto de pedido falso para retornar
-            const fakeOrder = {
-              id: orderId,
-              status: transactionStatus.status === 'paid' ? 'COMPLETED' : 'PENDING',
-              userId: 'txn_USER',
-              priceId: 'txn_PRICE',
-              downloadLink: transactionStatus.status === 'paid' ? txnData.downloadLink : null,
-              createdAt: transactionStatus.created_at,
-              price: {
-                amount: txnData.price.amount,
-                currency: txnData.price.currency,
-                category: txnData.price.category,
-                product: { name: txnData.price.productName },
-              },
-            };
-            return res.json({ order: fakeOrder });
-          } catch (error) {
-            console.error("Erro ao lidar com pedido fantasma:", error);
-            return res.status(404).json({ error: 'Pedido "fantasma" inválido ou não encontrado' });
-          }
-        }
+        const isAdmin = await userHasPermission(req.user, 'orders:read');
 
         const order = await prisma.order.findUnique({
           where: { id: orderId },
           include: {
-            price: {
+            items: {
               include: {
-                product: true,
+                price: {
+                  include: {
+                    product: true,
+                  },
+                },
+                deliveryTokens: isAdmin
+                  ? {
+                      include: {
+                        redemptions: {
+                          orderBy: { createdAt: 'desc' },
+                        },
+                      },
+                      orderBy: { createdAt: 'desc' },
+                    }
+                  : false,
               },
+              orderBy: { createdAt: 'asc' },
             },
+            // Histórico de status e payloads do gateway apenas para admins
+            events: isAdmin
+              ? {
+                  include: {
+                    actor: {
+                      select: {
+                        id: true,
+                        email: true,
+                      },
+                    },
+                  },
+                  orderBy: { createdAt: 'asc' },
+                }
+              : false,
           },
         });
 
@@ -442,11 +615,26 @@ router.get(
           return res.status(404).json({ error: 'Pedido não encontrado' });
         }
 
-        if (order.userId !== userId && req.user?.role !== 'ADMIN') {
+        if (order.userId !== userId && !isAdmin) {
           return res.status(403).json({ error: 'Acesso negado' });
         }
 
-        res.json({ order });
+        const items = [];
+        for (const item of order.items) {
+          const delivery = order.status === 'COMPLETED' && item.downloadLink
+            ? await getOrIssueDeliveryAccess(order.id, item.id)
+            : null;
+
+          items.push({
+            ...item,
+            // Links brutos apenas para admins
+            price: item.price && !isAdmin ? { ...item.price, deliveryLink: undefined } : item.price,
+            downloadLink: isAdmin ? item.downloadLink : null,
+            delivery,
+          });
+        }
+
+        res.json({ order: { ...order, items } });
       } catch (error) {
         console.error('Erro ao buscar pedido:', error);
         res.status(500).json({ error: 'Erro interno do servidor' });
@@ -454,11 +642,239 @@ router.get(
     }
 );
 
+/**
+ * GET /api/payments/order/:orderId/events
+ * Stream (Server-Sent Events) do status do pedido para a página de pagamento
+ * Envia um evento "status" com o status atual ao abrir e outro a cada mudança feita por
+ * webhook, reconciliação, expiração ou admin. Comentários de keep-alive a cada 25 segundos.
+ * Rota protegida - requer autenticação (o cliente usa fetch, já que EventSource não envia headers)
+ */
+router.get(
+    '/order/:orderId/events',
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { orderId } = req.params;
+
+        const order = await prisma.order.findUnique({
+          where: { id: orderId },
+          select: { userId: true },
+        });
+
+        if (!order) {
+          return res.status(404).json({ error: 'Pedido não encontrado' });
+        }
+
+        if (order.userId !== req.user?.userId && !(await userHasPermission(req.user, 'orders:read'))) {
+          return res.status(403).json({ error: 'Acesso negado' });
+        }
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no', // Sem buffer no nginx
+        });
+
+        const send = (event: OrderStatusEvent) => {
+          res.write(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+        };
+
+        // Inscreve antes de ler o status, para não perder uma mudança entre as duas coisas
+        const unsubscribe = subscribeOrderStatus(orderId, send);
+        const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+
+        req.on('close', () => {
+          clearInterval(keepAlive);
+          unsubscribe();
+        });
+
+        const current = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+        send(toOrderStatusEvent(current));
+      } catch (error) {
+        console.error('Erro no stream de eventos do pedido:', error);
+        if (!res.headersSent) {
+          return res.status(500).json({ error: 'Erro interno do servidor' });
+        }
+        res.end();
+      }
+    }
+);
+
+/**
+ * POST /api/payments/order/:orderId/regenerate
+ * Gera uma nova cobrança (novo código PIX) para um pedido cuja cobrança expirou, com os mesmos
+ * itens e valores, para que o comprador não precise recomeçar a compra
+ * Vale para pedidos PENDING já vencidos ou marcados FAILED pela expiração, até 24 horas após a
+ * criação. A transação anterior é consultada antes: se foi paga, o pedido é concluído e a
+ * resposta é 409 com code ALREADY_PAID.
+ * Body: { clientName, clientCpf, clientEmail, clientPhone, locale } opcionais, como em initiate-payment
+ * Rota protegida - requer autenticação
+ */
+router.post(
+    '/order/:orderId/regenerate',
+    authenticateToken,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
+
+        const order = await prisma.order.findUnique({
+          where: { id: req.params.orderId },
+          include: {
+            items: {
+              include: {
+                price: {
+                  include: {
+                    product: true,
+                  },
+                },
+              },
+              orderBy: { createdAt: 'asc' },
+            },
+            couponRedemption: {
+              include: { coupon: true },
+            },
+            events: {
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+            },
+          },
+        });
+
+        if (!order || order.userId !== userId) {
+          return res.status(404).json({ error: 'Pedido não encontrado' });
+        }
+
+        // Pedidos FAILED só se falharam pela expiração (job, webhook ou reconciliação do gateway),
+        // não por recusa antes do vencimento, falha na criação da cobrança ou ação de um admin
+        const now = new Date();
+        const expired = order.expiresAt === null || order.expiresAt <= now;
+        const lapsed = order.status === 'PENDING'
+          ? order.expiresAt !== null && expired
+          : order.status === 'FAILED' && expired &&
+            ['EXPIRATION', 'WEBHOOK', 'RECONCILIATION'].includes(order.events[0]?.source);
+
+        if (!lapsed) {
+          return res.status(400).json({ error: 'Este pedido não tem uma cobrança expirada para gerar novamente' });
+        }
+
+        if (now.getTime() - order.createdAt.getTime() > REGENERATE_WINDOW_MS) {
+          return res.status(400).json({ error: 'Este pedido é antigo demais para gerar um novo código. Faça uma nova compra.' });
+        }
+
+        const prices: CheckoutPrice[] = [];
+        for (const item of order.items) {
+          if (!item.price || !item.price.product.isActive) {
+            return res.status(400).json({ error: 'Um dos produtos deste pedido não está mais disponível' });
+          }
+          prices.push(item.price);
+        }
+
+        const buyer = await resolveBuyerData(userId, req.body);
+        if ('error' in buyer) {
+          return res.status(400).json({ error: buyer.error });
+        }
+        const { customer } = buyer;
+
+        const buyerDataRequired = await getBuyerDataRequirements();
+        if (buyerDataRequired[order.gateway] && !customer) {
+          return res.status(400).json({ error: BUYER_DATA_REQUIRED_MESSAGE, code: 'BUYER_DATA_REQUIRED' });
+        }
+
+        // O webhook da transação antiga deixa de ser aceito, então um pagamento tardio é conferido agora
+        if (order.gatewayTxId) {
+          let transaction;
+          try {
+            transaction = await getGateway(order.gateway).getTransactionStatus(order.gatewayTxId);
+          } catch (error: any) {
+            console.error(`Erro ao consultar a cobrança anterior do pedido ${order.id}:`, error.message);
+            return res.status(503).json({ error: 'Não foi possível verificar a cobrança anterior. Tente novamente em instantes.' });
+          }
+
+          if (transaction.status === 'PAID') {
+            await applyPaymentStatus(order.id, 'PAID', {
+              source: 'RECONCILIATION',
+              gatewayStatus: transaction.rawStatus,
+              endToEndId: transaction.endToEndId,
+              paidAt: transaction.paidAt,
+              payload: transaction.raw,
+            }, { reviveFailed: true });
+            return res.status(409).json({ error: 'Este pedido já foi pago', code: 'ALREADY_PAID' });
+          }
+        }
+
+        // A expiração provisória impede que o job de expiração pegue o pedido durante a cobrança
+        const reopened = await transitionOrder(order, ['PENDING', 'FAILED'], {
+          status: 'PENDING',
+          expiresAt: new Date(now.getTime() + CHARGE_EXPIRY_MINUTES * 60 * 1000),
+        }, {
+          source: 'CHECKOUT',
+          actorUserId: userId,
+          note: 'Charge regenerated after expiring',
+        });
+
+        if (!reopened.changed) {
+          return res.status(409).json({ error: 'O status do pedido mudou. Atualize a página.' });
+        }
+
+        const amounts = {
+          currency: order.currency,
+          lines: order.items.map((item) => ({
+            priceId: item.priceId!,
+            amountInCents: item.amountInCents,
+            discountInCents: item.discountInCents,
+          })),
+          discountInCents: order.discountInCents,
+          amountInCents: order.items.reduce((sum, item) => sum + item.amountInCents, 0) - order.discountInCents,
+        };
+
+        const { gateway, charge } = await chargeOrder(reopened.order, {
+          prices,
+          amounts,
+          customer,
+          buyerDataRequired,
+          locale: req.body.locale,
+        });
+
+        console.log(`Regenerated charge for order ${order.id} on ${gateway}`);
+
+        const response = toPaymentResponse(
+          order.id,
+          gateway,
+          prices,
+          amounts,
+          charge,
+          order.couponRedemption?.coupon.code ?? null
+        );
+
+        // Novas tentativas com a mesma Idempotency-Key recebem o código novo
+        await saveCheckoutResponse({
+          userId,
+          orderId: order.id,
+          requestHash: hashCheckoutRequest({ priceId: order.priceId }),
+          response,
+        });
+
+        res.json(response);
+      } catch (error: any) {
+        if (error instanceof NoGatewayAvailableError) {
+          console.error('Nenhum gateway disponível:', error.message);
+          return res.status(503).json({ error: 'Pagamentos temporariamente indisponíveis. Tente novamente em instantes.' });
+        }
+        console.error('Erro ao gerar nova cobrança:', error);
+        res.status(500).json({
+          error: 'Falha ao gerar nova cobrança',
+          message: error.message,
+        });
+      }
+    }
+);
+
 /**
  * GET /api/payments/check-status/:transactionId
- * Verifica o status de uma transação na PushinPay
+ * Verifica o status de uma transação no gateway do pedido
  * Rota protegida - requer autenticação
- * NOTA: Use com moderação - limitado a uma vez por minuto pela PushinPay
+ * NOTA: Use com moderação - a PushinPay limita a uma consulta por minuto
  */
 router.get(
     '/check-status/:transactionId',
@@ -467,13 +883,23 @@ router.get(
       try {
         const { transactionId } = req.params;
 
-        // Simplificação: assume que a verificação manual é para o serviço padrão.
-        // Uma implementação mais robusta poderia tentar ambos os serviços se o primeiro falhar.
-        const pushinpay = getPaymentService(false);
-        const status = await pushinpay.getTransactionStatus(transactionId);
+        const order = await prisma.order.findFirst({
+          where: { gatewayTxId: transactionId },
+        });
+
+        if (!order) {
+          return res.status(404).json({ error: 'Transação não encontrada' });
+        }
+
+        if (order.userId !== req.user?.userId && !(await userHasPermission(req.user, 'orders:read'))) {
+          return res.status(403).json({ error: 'Acesso negado' });
+        }
+
+        const status = await getGateway(order.gateway).getTransactionStatus(transactionId);
 
         res.json({
           success: true,
+          gateway: toGatewaySlug(order.gateway),
           transaction: status,
         });
       } catch (error: any) {
@@ -486,28 +912,335 @@ router.get(
     }
 );
 
-// Funções auxiliares para criptografar/descriptografar dados de pedidos fantasmas
-function encrypttxnOrder(data: any): string {
-  const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv('aes-256-cbc', ENCRYPTION_KEY, iv);
-  let encrypted = cipher.update(JSON.stringify(data), 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  // TROCADO: Usando '-' em vez de ':' para ser seguro na URL
-  return `txn_${iv.toString('hex')}-${encrypted}`;
+type CheckoutPrice = Prisma.PriceGetPayload<{ include: { product: true } }>;
+
+/**
+ * Valores de um checkout já convertidos para a moeda da cobrança, em centavos
+ */
+interface CheckoutAmounts {
+  currency: string; // Moeda da cobrança
+  priceCurrency: string; // Moeda da tabela de preços
+  exchangeRate: number | null; // null quando não houve conversão
+  exchangeRateAt: Date | null;
+  lines: Array<{ priceId: string; amountInCents: number; discountInCents: number }>;
+  discountInCents: number;
+  amountInCents: number; // Total a cobrar, já com o desconto
+}
+
+interface OrderChargeParams {
+  userId: string;
+  route: CheckoutRoute;
+  prices: CheckoutPrice[];
+  amounts: CheckoutAmounts;
+  customer?: BuyerData;
+  buyerDataRequired: Record<PaymentGateway, boolean>;
+  appliedCoupon?: AppliedCoupon | null;
+  entitlementId?: string; // Renovação: o item estende esta assinatura
+  locale?: unknown; // Idioma da página de retorno dos checkouts hospedados
+}
+
+// Depois disso, um pedido expirado não pode mais ganhar um novo código
+const REGENERATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const BUYER_DATA_REQUIRED_MESSAGE = 'Informe nome, CPF, e-mail e telefone para pagar com este meio de pagamento';
+
+/**
+ * Dados do pagador do checkout: os enviados no body (validados e salvos para as próximas
+ * compras) ou, sem eles, os salvos no usuário
+ */
+async function resolveBuyerData(
+  userId: string,
+  body: any
+): Promise<{ customer?: BuyerData } | { error: string }> {
+  if (!hasBuyerFields(body)) {
+    return { customer: (await loadBuyerData(userId)) ?? undefined };
+  }
+
+  const parsed = parseBuyerData(body);
+  if ('error' in parsed) {
+    return { error: parsed.error };
+  }
+
+  await saveBuyerData(userId, parsed.data);
+  return { customer: parsed.data };
+}
+
+/**
+ * Cria o pedido PENDING com seus itens e a cobrança correspondente no gateway da rota
+ * O pedido é criado antes para que a URL do webhook carregue o seu ID.
+ */
+async function createOrderCharge(
+  params: OrderChargeParams
+): Promise<{ orderId: string; gateway: PaymentGateway; charge: ChargeResult }> {
+  const { userId, route, prices, amounts, appliedCoupon, entitlementId } = params;
+
+  const order = await prisma.order.create({
+    data: {
+      userId,
+      priceId: prices.length === 1 ? prices[0].id : null,
+      status: 'PENDING',
+      gateway: route.gateway,
+      currency: amounts.currency,
+      priceCurrency: amounts.exchangeRate !== null ? amounts.priceCurrency : null,
+      exchangeRate: amounts.exchangeRate,
+      exchangeRateAt: amounts.exchangeRateAt,
+      discountInCents: amounts.discountInCents,
+      items: {
+        create: prices.map((item, index) => ({
+          priceId: item.id,
+          amountInCents: amounts.lines[index].amountInCents,
+          discountInCents: amounts.lines[index].discountInCents,
+          periodDays: item.billingMode === 'SUBSCRIPTION' ? item.periodDays : null,
+          entitlementId,
+        })),
+      },
+      couponRedemption: appliedCoupon
+        ? {
+            create: {
+              couponId: appliedCoupon.coupon.id,
+              userId,
+              discountInCents: amounts.discountInCents,
+            },
+          }
+        : undefined,
+      events: {
+        create: { toStatus: 'PENDING', source: 'CHECKOUT' },
+      },
+    },
+  });
+
+  const created = await chargeOrder(order, params);
+
+  return { orderId: order.id, ...created };
+}
+
+/**
+ * Cria a cobrança de um pedido PENDING no gateway do pedido
+ * Se o gateway falhar, o pedido passa para o próximo gateway saudável antes da nova tentativa;
+ * se todos falharem, o pedido é marcado como FAILED e NoGatewayAvailableError é lançado.
+ * A transação e a expiração informada pelo gateway (ou a padrão) ficam no pedido.
+ */
+async function chargeOrder(
+  order: Order,
+  params: Pick<OrderChargeParams, 'prices' | 'customer' | 'buyerDataRequired' | 'locale'> & {
+    amounts: Pick<CheckoutAmounts, 'currency' | 'amountInCents'>;
+  }
+): Promise<{ gateway: PaymentGateway; charge: ChargeResult }> {
+  const { prices, amounts, customer, buyerDataRequired } = params;
+
+  const preferred = order.gateway;
+  const { currency } = amounts;
+
+  let chargeGateway = preferred;
+  let created: { gateway: PaymentGateway; charge: ChargeResult };
+
+  try {
+    const failover = { hasCustomer: !!customer, currency, buyerDataRequired };
+    created = await createChargeWithFailover(preferred, failover, async (gateway) => {
+      // O webhook só é aceito do gateway registrado no pedido
+      if (gateway.id !== chargeGateway) {
+        await prisma.order.update({
+          where: { id: order.id },
+          data: { gateway: gateway.id },
+        });
+        chargeGateway = gateway.id;
+      }
+
+      console.log(`Creating ${gateway.id} payment`);
+
+      return gateway.createCharge({
+        orderId: order.id,
+        amountInCents: amounts.amountInCents,
+        currency,
+        description: prices.map((item) => `${item.product.name} (${item.category})`).join(', '),
+        webhookUrl: buildWebhookUrl(gateway.id, order.id),
+        returnUrl: storefrontUrl(params.locale, `/payment/success/${order.id}`),
+        cancelUrl: storefrontUrl(params.locale, '/store'),
+        expiresInMinutes: CHARGE_EXPIRY_MINUTES,
+        customer,
+      });
+    });
+  } catch (error: any) {
+    // Libera o cupom e o pedido não fica esperando a expiração
+    await transitionOrder(order, ['PENDING'], { status: 'FAILED' }, {
+      source: 'CHECKOUT',
+      note: `Charge creation failed: ${error.message}`,
+    });
+    throw error;
+  }
+
+  // O job de expiração usa a validade informada pelo gateway
+  const expiresAt = parseExpiresAt(created.charge.expiresAt)
+    ?? new Date(Date.now() + CHARGE_EXPIRY_MINUTES * 60 * 1000);
+
+  await prisma.order.update({
+    where: { id: order.id },
+    data: {
+      gatewayTxId: created.charge.transactionId,
+      expiresAt,
+      // Lets the buyer recover the order by email if they lose their session
+      buyerEmailHash: customer ? hashBuyerEmail(customer.email) : undefined,
+    },
+  });
+
+  return {
+    gateway: created.gateway,
+    charge: { ...created.charge, expiresAt: expiresAt.toISOString() },
+  };
+}
+
+/**
+ * Resposta de checkout usada pela página de pagamento (guardada no sessionStorage)
+ */
+function toPaymentResponse(
+  orderId: string,
+  gatewayId: PaymentGateway,
+  prices: CheckoutPrice[],
+  amounts: Pick<CheckoutAmounts, 'currency' | 'lines' | 'discountInCents'>,
+  charge: ChargeResult,
+  couponCode: string | null
+) {
+  return {
+    success: true,
+    orderId,
+    gateway: toGatewaySlug(gatewayId),
+    method: getGatewayMethod(gatewayId),
+    transactionId: charge.transactionId,
+    productName: prices.map((item) => item.product.name).join(', '),
+    priceCategory: prices.map((item) => item.category).join(', '),
+    items: prices.map((item, index) => ({
+      priceId: item.id,
+      productName: item.product.name,
+      category: item.category,
+      amountInCents: amounts.lines[index].amountInCents,
+      currency: amounts.currency,
+      periodDays: item.billingMode === 'SUBSCRIPTION' ? item.periodDays : null,
+    })),
+    coupon: couponCode
+      ? { code: couponCode, discountInCents: amounts.discountInCents }
+      : null,
+    pixCode: charge.pixCode,
+    pixQrCodeBase64: charge.pixQrCodeBase64,
+    checkoutUrl: charge.checkoutUrl,
+    amount: formatMoney(charge.amountInCents, amounts.currency),
+    amountInCents: charge.amountInCents,
+    currency: amounts.currency,
+    status: charge.status,
+    expiresAt: charge.expiresAt,
+    message: charge.message,
+  };
+}
+
+/**
+ * Carrega os preços de um checkout: o priceId informado ou todos os itens do carrinho
+ * Todos precisam estar ativos e na mesma moeda, já que viram uma única cobrança PIX.
+ */
+async function loadCheckoutPrices(
+  userId: string,
+  priceId: unknown,
+  fromCart: boolean
+): Promise<{ prices: CheckoutPrice[] } | { status: number; error: string }> {
+  const prices = fromCart
+    ? (await prisma.cartItem.findMany({
+        where: { userId },
+        include: {
+          price: {
+            include: {
+              product: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      })).map((item) => item.price)
+    : await prisma.price.findMany({
+        where: { id: String(priceId) },
+        include: {
+          product: true,
+        },
+      });
+
+  if (prices.length === 0) {
+    return {
+      status: fromCart ? 400 : 404,
+      error: fromCart ? 'Carrinho vazio' : 'Preço não encontrado',
+    };
+  }
+
+  const unavailable = prices.find((price) => !price.product.isActive);
+  if (unavailable) {
+    return { status: 400, error: `Produto não está disponível: ${unavailable.product.name}` };
+  }
+
+  // Uma única cobrança PIX não pode somar moedas diferentes
+  const currencies = new Set(prices.map((price) => price.currency));
+  if (currencies.size > 1) {
+    return { status: 400, error: 'Todos os itens do carrinho devem ter a mesma moeda' };
+  }
+
+  return { prices };
+}
+
+function toCouponLines(prices: Array<{ id: string; productId: string; amountInCents: number; currency: string }>) {
+  return prices.map((price) => ({
+    priceId: price.id,
+    productId: price.productId,
+    amountInCents: price.amountInCents,
+    currency: price.currency,
+  }));
+}
+
+/**
+ * Converte os itens (e o desconto do cupom, calculado na moeda da tabela) para a moeda da cobrança
+ * Cada linha é convertida separadamente, então o total é sempre a soma dos itens gravados.
+ */
+function convertCheckout(
+  prices: CheckoutPrice[],
+  appliedCoupon: AppliedCoupon | null,
+  chargeCurrency: string,
+  rates: ExchangeRateTable
+): CheckoutAmounts {
+  const priceCurrency = prices[0].currency;
+  const found = rates.getRate(priceCurrency, chargeCurrency);
+  if (!found) {
+    throw new Error(`Sem cotação de ${priceCurrency} para ${chargeCurrency}`);
+  }
+
+  const convert = (amountInCents: number) =>
+    rates.convert(amountInCents, priceCurrency, chargeCurrency)!.amountInCents;
+
+  const lines = prices.map((item) => ({
+    priceId: item.id,
+    amountInCents: convert(item.amountInCents),
+    discountInCents: convert(appliedCoupon?.lineDiscounts[item.id] ?? 0),
+  }));
+
+  const discountInCents = lines.reduce((sum, line) => sum + line.discountInCents, 0);
+  const converted = priceCurrency !== chargeCurrency.toUpperCase();
+
+  return {
+    currency: chargeCurrency.toUpperCase(),
+    priceCurrency,
+    exchangeRate: converted ? found.rate : null,
+    exchangeRateAt: converted ? found.rateAt : null,
+    lines,
+    discountInCents,
+    amountInCents: lines.reduce((sum, line) => sum + line.amountInCents, 0) - discountInCents,
+  };
 }
 
-function decrypttxnOrder(text: string): any {
-  if (!text.startsWith('txn_')) {
-    throw new Error("Formato de pedido fantasma inválido");
+function parseExpiresAt(value: string | undefined): Date | null {
+  if (!value) {
+    return null;
   }
-  // CORRIGIDO: Usando substring(4) e separando por '-'
-  const textParts = text.substring(4).split('-');
-  const iv = Buffer.from(textParts.shift()!, 'hex');
-  const encryptedText = textParts.join('-');
-  const decipher = crypto.createDecipheriv('aes-256-cbc', ENCRYPTION_KEY, iv);
-  let decrypted = decipher.update(encryptedText, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  return JSON.parse(decrypted);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Webhook URL registered with the gateway for an order
+ */
+function buildWebhookUrl(gateway: PaymentGateway, orderId: string): string {
+  return `${process.env.BACKEND_URL}/api/payments/webhooks/${toGatewaySlug(gateway)}/${orderId}`;
 }
 
 export default router;
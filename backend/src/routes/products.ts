@@ -1,5 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { displayCurrencyFor, loadGatewayRoutes, quoteCheckout } from '../services/gatewayRouting';
+import { toGatewaySlug } from '../services/paymentGateway';
+import { loadExchangeRates } from '../services/exchangeRates';
+import { getBuyerDataRequirements } from '../services/buyerData';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -12,6 +16,7 @@ const prisma = new PrismaClient();
  * 2. One of those regions matches the user's detected country
  *
  * Products with NO assigned regions are NOT visible to anyone.
+ * Prices also come converted to the visitor's currency (displayAmountInCents/displayCurrency).
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -25,9 +30,14 @@ router.get('/', async (req: Request, res: Response) => {
       include: {
         prices: {
           include: {
-            orders: {
-              where: {
-                status: 'COMPLETED',
+            // Items cover every order, cart checkouts included (Order.priceId is set only for single-price ones)
+            _count: {
+              select: {
+                orderItems: {
+                  where: {
+                    order: { status: 'COMPLETED' },
+                  },
+                },
               },
             },
           },
@@ -60,15 +70,24 @@ router.get('/', async (req: Request, res: Response) => {
       });
     });
 
+    const rates = await loadExchangeRates();
+
     // Calculate sales count for each product and sort by sales (highest first)
     const productsWithSales = filteredProducts.map((product) => {
       const salesCount = product.prices.reduce((total, price) => {
-        return total + price.orders.length;
+        return total + price._count.orderItems;
       }, 0);
 
-      // Remove orders from prices before sending to client
+      // Remove sale counts and delivery links from prices before sending to client
       const { regions, prices, ...productData } = product;
-      const cleanPrices = prices.map(({ orders, ...price }) => price);
+      const cleanPrices = prices.map(({ _count, deliveryLink, ...price }) => {
+        const displayCurrency = displayCurrencyFor(userCountryCode ?? null, price.currency, rates);
+        return {
+          ...price,
+          displayCurrency,
+          displayAmountInCents: rates.convert(price.amountInCents, price.currency, displayCurrency)!.amountInCents,
+        };
+      });
 
       return {
         ...productData,
@@ -96,6 +115,9 @@ router.get('/', async (req: Request, res: Response) => {
  * GET /api/products/:id
  * Public route to get a single product's details
  * STRICT REGION EXCLUSIVITY: Product must have regions assigned and match user's country
+ * Each price carries its amount in the visitor's currency and the checkout the visitor gets
+ * for it (gateway, payment method and whether buyer data is required), or null when no routing
+ * rule lets them pay online.
  */
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -151,11 +173,36 @@ router.get('/:id', async (req: Request, res: Response) => {
       });
     }
 
-    // Remove regions from response
-    const { regions, ...productData } = product;
+    // Remove regions and delivery links from response
+    const { regions, prices, ...productData } = product;
+
+    const [routes, rates, buyerDataRequired] = await Promise.all([
+      loadGatewayRoutes(),
+      loadExchangeRates(),
+      getBuyerDataRequirements(),
+    ]);
+    const pricesWithCheckout = [];
+    for (const { deliveryLink, ...price } of prices) {
+      const { displayCurrency, route } = await quoteCheckout(userCountryCode, price.currency, { routes, rates });
+      pricesWithCheckout.push({
+        ...price,
+        displayCurrency,
+        displayAmountInCents: rates.convert(price.amountInCents, price.currency, displayCurrency)!.amountInCents,
+        checkout: route
+          ? {
+              gateway: toGatewaySlug(route.gateway),
+              method: route.method,
+              buyerDataRequired: buyerDataRequired[route.gateway],
+            }
+          : null,
+      });
+    }
 
     res.json({
-      product: productData,
+      product: {
+        ...productData,
+        prices: pricesWithCheckout,
+      },
       detectedCountry: userCountryCode,
     });
   } catch (error) {
@@ -0,0 +1,115 @@
+import { Router, Request, Response } from 'express';
+import {
+  buildRecoveryResult,
+  findOrderByIdAndAmount,
+  findOrdersByEmailCode,
+  findOrdersByEndToEndId,
+  sendRecoveryCode,
+} from '../services/orderRecovery';
+import { sessionContextFrom } from '../services/sessions';
+
+const router = Router();
+
+// Public routes for buyers who lost their session (cleared browser, new phone). Each one takes a
+// proof of payment and returns the matching completed orders with fresh delivery links and,
+// for guest orders, a new session. Failed attempts count towards the strict rate limit.
+
+const NOT_FOUND_MESSAGE = 'No completed order matches these details';
+
+/**
+ * POST /api/recovery/receipt
+ * Recover orders by the PIX end-to-end ID on the bank receipt
+ * Body: { endToEndId }
+ */
+router.post('/receipt', async (req: Request, res: Response) => {
+  try {
+    const { endToEndId } = req.body;
+
+    if (typeof endToEndId !== 'string' || !endToEndId.trim()) {
+      return res.status(400).json({ error: 'endToEndId is required' });
+    }
+
+    const orders = await findOrdersByEndToEndId(endToEndId);
+    if (orders.length === 0) {
+      return res.status(404).json({ error: NOT_FOUND_MESSAGE });
+    }
+
+    res.json(await buildRecoveryResult(orders, sessionContextFrom(req)));
+  } catch (error) {
+    console.error('Error recovering orders by receipt:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/recovery/order
+ * Recover an order by its id and the amount paid
+ * Body: { orderId, amount } - amount as charged, e.g. "19,90"
+ */
+router.post('/order', async (req: Request, res: Response) => {
+  try {
+    const { orderId, amount } = req.body;
+
+    if (typeof orderId !== 'string' || !orderId.trim() || (typeof amount !== 'string' && typeof amount !== 'number')) {
+      return res.status(400).json({ error: 'orderId and amount are required' });
+    }
+
+    const orders = await findOrderByIdAndAmount(orderId, String(amount));
+    if (orders.length === 0) {
+      return res.status(404).json({ error: NOT_FOUND_MESSAGE });
+    }
+
+    res.json(await buildRecoveryResult(orders, sessionContextFrom(req)));
+  } catch (error) {
+    console.error('Error recovering order by id:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/recovery/email
+ * Email a one-time code to the address used at checkout
+ * Always answers the same way, whether or not orders were paid with that email.
+ * Body: { email }
+ */
+router.post('/email', async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  if (typeof email !== 'string' || !email.includes('@')) {
+    return res.status(400).json({ error: 'A valid email is required' });
+  }
+
+  // Not awaited: how long the answer takes would tell whether the email bought here
+  sendRecoveryCode(email).catch((error) => {
+    console.error('Error sending recovery code:', error);
+  });
+
+  res.json({ message: 'If this email was used to pay for an order, a code was sent to it' });
+});
+
+/**
+ * POST /api/recovery/email/verify
+ * Recover the orders paid with an email, using the code sent to it
+ * Body: { email, code }
+ */
+router.post('/email/verify', async (req: Request, res: Response) => {
+  try {
+    const { email, code } = req.body;
+
+    if (typeof email !== 'string' || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'email and code are required' });
+    }
+
+    const orders = await findOrdersByEmailCode(email, code);
+    if (orders.length === 0) {
+      return res.status(404).json({ error: 'Invalid or expired code' });
+    }
+
+    res.json(await buildRecoveryResult(orders, sessionContextFrom(req)));
+  } catch (error) {
+    console.error('Error verifying recovery code:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
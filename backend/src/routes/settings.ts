@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { TWO_FACTOR_SETTING_KEY } from '../services/twoFactor';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -38,15 +39,10 @@ router.get('/public', async (req: Request, res: Response) => {
 /**
  * GET /api/settings
  * Get all settings
- * Protected route - requires admin authentication
+ * Protected route - requires the settings:read permission
  */
-router.get('/', authenticateToken, async (req: Request, res: Response) => {
+router.get('/', authenticateToken, requirePermission('settings:read'), async (req: Request, res: Response) => {
   try {
-    // Check if user is admin
-    if (req.user?.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const settings = await prisma.setting.findMany();
 
     res.json({ settings });
@@ -59,18 +55,18 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
 /**
  * PUT /api/settings/:key
  * Update or create a setting
- * Protected route - requires admin authentication
+ * Protected route - requires the settings:write permission
  */
-router.put('/:key', authenticateToken, async (req: Request, res: Response) => {
+router.put('/:key', authenticateToken, requirePermission('settings:write'), async (req: Request, res: Response) => {
   try {
-    // Check if user is admin
-    if (req.user?.role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { key } = req.params;
     const { value } = req.body;
 
+    // Turning it on needs a verified session; see PUT /api/admin/two-factor/enforcement
+    if (key === TWO_FACTOR_SETTING_KEY) {
+      return res.status(400).json({ error: 'Use PUT /api/admin/two-factor/enforcement for this setting' });
+    }
+
     if (!value) {
       return res.status(400).json({ error: 'Value is required' });
     }
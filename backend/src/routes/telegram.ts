@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { TelegramUpdate } from '../services/telegramBot';
+import { recordTelegramMember } from '../services/telegramDelivery';
+
+const router = Router();
+
+// Statuses a user has once inside the channel
+const JOINED_STATUSES = ['member', 'restricted'];
+
+/**
+ * POST /api/telegram/webhook
+ * Bot API updates; register with setWebhook using allowed_updates ["chat_member"] and
+ * secret_token set to TELEGRAM_WEBHOOK_SECRET
+ * Records which Telegram account joined through an order's invite, so subscription
+ * access can be removed when it expires.
+ */
+router.post('/webhook', async (req: Request, res: Response) => {
+  try {
+    const secret = Buffer.from(process.env.TELEGRAM_WEBHOOK_SECRET || '');
+    // Byte lengths, not string lengths: timingSafeEqual throws on buffers of different sizes
+    const received = Buffer.from(req.get('X-Telegram-Bot-Api-Secret-Token') || '');
+
+    if (
+      secret.length === 0 ||
+      received.length !== secret.length ||
+      !crypto.timingSafeEqual(received, secret)
+    ) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const update = req.body as TelegramUpdate;
+    const member = update.chat_member;
+
+    if (
+      member?.invite_link &&
+      !JOINED_STATUSES.includes(member.old_chat_member.status) &&
+      JOINED_STATUSES.includes(member.new_chat_member.status)
+    ) {
+      await recordTelegramMember(member.invite_link.invite_link, String(member.new_chat_member.user.id));
+    }
+
+    res.json({ ok: true });
+  } catch (error) {
+    console.error('Error processing Telegram update:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
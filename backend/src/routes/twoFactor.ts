@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { isStaffRole } from '../services/permissions';
+import {
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnforced,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  TwoFactorError,
+  verifyChallengeToken,
+  verifySecondFactor,
+} from '../services/twoFactor';
+import {
+  createSession,
+  markSessionTwoFactorVerified,
+  revokeUserSessions,
+  sessionContextFrom,
+} from '../services/sessions';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// TOTP two-factor authentication for admins and staff. A password login that needs a second factor gets a
+// challenge token (see POST /api/auth/login), finished through /challenge/*; signed-in staff
+// manage their own second factor through the other routes. Failed codes answer 401 so the
+// auth rate limit counts them.
+
+/**
+ * POST /api/auth/2fa/challenge/setup
+ * QR code for a staff member who must set up 2FA before their first login completes
+ * Body: { challengeToken }
+ */
+router.post('/challenge/setup', async (req: Request, res: Response) => {
+  try {
+    const challenge = verifyChallengeToken(req.body.challengeToken);
+    if (!challenge || challenge.step !== 'enroll') {
+      return res.status(401).json({ error: 'Login expired, please log in again', code: 'CHALLENGE_EXPIRED' });
+    }
+
+    res.json(await startEnrollment(challenge.userId));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error starting 2FA enrollment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/challenge/verify
+ * Finish a login with a TOTP code (or a recovery code) and open the session
+ * Body: { challengeToken, code?, recoveryCode? }
+ * For an enrollment challenge the code confirms the new authenticator, and the response also
+ * carries the recovery codes, shown this once.
+ */
+router.post('/challenge/verify', async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const challenge = verifyChallengeToken(challengeToken);
+    if (!challenge) {
+      return res.status(401).json({ error: 'Login expired, please log in again', code: 'CHALLENGE_EXPIRED' });
+    }
+
+    let recoveryCodes: string[] | undefined;
+    if (challenge.step === 'enroll') {
+      recoveryCodes = await confirmEnrollment(challenge.userId, code);
+    } else if (!(await verifySecondFactor(challenge.userId, { code, recoveryCode }))) {
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: challenge.userId },
+      select: { id: true, email: true, role: true, staffRole: true },
+    });
+    const tokens = await createSession(user, sessionContextFrom(req), true);
+
+    res.json({
+      message: 'Login successful',
+      user,
+      ...tokens,
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Error verifying 2FA challenge:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.use(authenticateToken);
+
+/**
+ * GET /api/auth/2fa
+ * The caller's 2FA status, whether staff must use it, and whether this session passed it
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = await getTwoFactorStatus(req.user!.userId);
+
+    res.json({
+      ...status,
+      required: isStaffRole(req.user!.role) && (await isTwoFactorEnforced()),
+      sessionVerified: !!req.user!.mfa,
+    });
+  } catch (error) {
+    console.error('Error fetching 2FA status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start setting up an authenticator app: a new secret, as otpauth URI and QR code
+ * Admins and staff only. Nothing changes until the first code is confirmed at /enable.
+ */
+router.post('/setup', async (req: Request, res: Response) => {
+  try {
+    if (!isStaffRole(req.user!.role)) {
+      return res.status(403).json({ error: 'Staff access required' });
+    }
+
+    res.json(await startEnrollment(req.user!.userId));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error starting 2FA setup:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm the authenticator with its first code and turn 2FA on
+ * Body: { code }
+ * Returns the recovery codes (shown this once) and a new access token; the caller's other
+ * sessions end, since they were opened without a second factor.
+ */
+router.post('/enable', async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.user!.sid;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'Session ended, please log in again', code: 'SESSION_REVOKED' });
+    }
+
+    const recoveryCodes = await confirmEnrollment(req.user!.userId, req.body.code);
+    await revokeUserSessions(req.user!.userId, 'two_factor', sessionId);
+    const token = await markSessionTwoFactorVerified(sessionUser(req), sessionId);
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes, token });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Error enabling 2FA:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/verify
+ * Pass the second factor on the current session (one opened before 2FA was enforced)
+ * Body: { code?, recoveryCode? }
+ */
+router.post('/verify', async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.user!.sid;
+    if (!sessionId) {
+      return res.status(401).json({ error: 'Session ended, please log in again', code: 'SESSION_REVOKED' });
+    }
+
+    const { code, recoveryCode } = req.body;
+    if (!(await verifySecondFactor(req.user!.userId, { code, recoveryCode }))) {
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    const token = await markSessionTwoFactorVerified(sessionUser(req), sessionId);
+
+    res.json({ message: 'Session verified', token });
+  } catch (error) {
+    console.error('Error verifying 2FA:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes (the old ones stop working)
+ * Body: { code } - a current TOTP code
+ */
+router.post('/recovery-codes', async (req: Request, res: Response) => {
+  try {
+    if (!(await verifySecondFactor(req.user!.userId, { code: req.body.code }))) {
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!.userId) });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn 2FA off; not allowed for admins and staff while it is enforced
+ * Body: { code?, recoveryCode? }
+ */
+router.post('/disable', async (req: Request, res: Response) => {
+  try {
+    if (isStaffRole(req.user!.role) && (await isTwoFactorEnforced())) {
+      return res.status(400).json({ error: 'Two-factor authentication is required for staff' });
+    }
+
+    const { code, recoveryCode } = req.body;
+    if (!(await verifySecondFactor(req.user!.userId, { code, recoveryCode }))) {
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    await disableTwoFactor(req.user!.userId);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Error disabling 2FA:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function sessionUser(req: Request) {
+  return { id: req.user!.userId, email: req.user!.email, role: req.user!.role, staffRole: req.user!.staffRole };
+}
+
+export default router;
@@ -0,0 +1,69 @@
+/**
+ * Create the first admin from the server shell
+ *
+ *   npm run admin:create -- admin@example.com          (development)
+ *   node dist/scripts/createAdmin.js admin@example.com (production build)
+ *
+ * Asks for the password, or reads it from ADMIN_PASSWORD for non-interactive setups. Refuses to
+ * run once an admin exists: further admins are invited from the admin panel.
+ */
+import dotenv from 'dotenv';
+import readline from 'readline';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { ADMIN_PASSWORD_MIN_LENGTH, upsertStaffUser } from '../services/adminInvites';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const email = process.argv[2]?.trim();
+  if (!email || !email.includes('@')) {
+    throw new Error('Usage: createAdmin <email>');
+  }
+
+  const admins = await prisma.user.count({ where: { role: 'ADMIN' } });
+  if (admins > 0) {
+    throw new Error('An admin already exists; invite new admins from the admin panel instead');
+  }
+
+  const password = process.env.ADMIN_PASSWORD || (await promptPassword(`Password for ${email}: `));
+  if (password.length < ADMIN_PASSWORD_MIN_LENGTH) {
+    throw new Error(`Password must be at least ${ADMIN_PASSWORD_MIN_LENGTH} characters`);
+  }
+
+  const { user, existed } = await upsertStaffUser(prisma, email, await bcrypt.hash(password, 10), null);
+  console.log(existed ? `✓ ${user.email} is now an admin` : `✓ Created admin ${user.email}`);
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+function promptPassword(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  const output = rl as unknown as { _writeToOutput: (text: string) => void };
+  let muted = false;
+  const write = output._writeToOutput.bind(rl);
+  output._writeToOutput = (text: string) => {
+    if (!muted) {
+      write(text);
+    }
+  };
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error(`✗ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
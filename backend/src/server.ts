@@ -6,15 +6,29 @@ import rateLimit from 'express-rate-limit';
 import mongoSanitize from 'express-mongo-sanitize';
 import hpp from 'hpp';
 import { geolocationMiddleware } from './middleware/geolocation';
+import { captureRawBody } from './middleware/rawBody';
 import { startOrderExpirationJob } from './services/orderExpiration';
+import { startPaymentReconciliationJob } from './services/paymentReconciliation';
+import { startEntitlementJob } from './services/entitlements';
+import { startExchangeRateJob } from './services/exchangeRates';
+import { startCheckoutRequestCleanupJob } from './services/checkoutRequests';
+import { startSessionCleanupJob } from './services/sessions';
 
 // Import routes
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
 import productRoutes from './routes/products';
 import adminRoutes from './routes/admin';
 import paymentRoutes from './routes/payments';
 import settingsRoutes from './routes/settings';
 import popupRoutes from './routes/popup';
+import deliveryRoutes from './routes/delivery';
+import cartRoutes from './routes/cart';
+import entitlementRoutes from './routes/entitlements';
+import telegramRoutes from './routes/telegram';
+import buyerDataRoutes from './routes/buyerData';
+import recoveryRoutes from './routes/recovery';
+import meRoutes from './routes/me';
 
 // Load environment variables
 dotenv.config();
@@ -93,11 +107,11 @@ app.use(cors({
     : [process.env.FRONTEND_URL || 'http://localhost:3000', 'http://localhost:3000'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
 }));
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Data sanitization against NoSQL injection
@@ -119,12 +133,20 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/api/auth/2fa', authLimiter, twoFactorRoutes);
 app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/popup', popupRoutes);
+app.use('/api/delivery', deliveryRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/entitlements', entitlementRoutes);
+app.use('/api/telegram', telegramRoutes);
+app.use('/api/buyer-data', buyerDataRoutes);
+app.use('/api/recovery', authLimiter, recoveryRoutes);
+app.use('/api/me', meRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -145,4 +167,9 @@ app.listen(PORT, () => {
 
   // Start background jobs
   startOrderExpirationJob();
+  startPaymentReconciliationJob();
+  startEntitlementJob();
+  startExchangeRateJob();
+  startCheckoutRequestCleanupJob();
+  startSessionCleanupJob();
 });
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { PrismaClient, AccountTokenPurpose } from '@prisma/client';
+import { sendMail } from './mailer';
+import { ADMIN_PASSWORD_MIN_LENGTH } from './adminInvites';
+import { isStaffRole } from './permissions';
+import { storefrontUrl } from './storefront';
+
+const prisma = new PrismaClient();
+
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '') || 60;
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '') || 48;
+// Same as registration; admins and staff need ADMIN_PASSWORD_MIN_LENGTH
+const PASSWORD_MIN_LENGTH = 6;
+
+/**
+ * Thrown when an emailed link can't be used; the message is safe to show
+ */
+export class AccountTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountTokenError';
+  }
+}
+
+/**
+ * Email a password reset link to `email`, if it belongs to a registered account (not a guest)
+ * Does nothing otherwise, so callers can answer the same way whether or not the account exists.
+ * `locale` is the storefront language the link opens in.
+ */
+export async function requestPasswordReset(email: string, locale?: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, role: true },
+  });
+  // Guests have placeholder emails and no password to reset
+  if (!user || user.role === 'GUEST') {
+    return;
+  }
+
+  const token = await issueToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+  const resetUrl = storefrontUrl(locale, `/reset-password?token=${token}`);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Someone asked to reset the password of your account. To choose a new one, open:\n${resetUrl}\n\n` +
+      `The link works once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. ` +
+      'If it wasn\'t you, ignore this email; your password stays the same.',
+  });
+}
+
+/**
+ * Redeem a password reset link, setting the new `password`
+ * Proves the caller reads the account's email, so it also verifies the email and lifts a lockout.
+ * A password too short for the account's role leaves the link unused. Returns the user id; their
+ * sessions should end.
+ */
+export async function resetPassword(token: string, password: string): Promise<string> {
+  return prisma.$transaction(async (tx) => {
+    const accountToken = await consumeToken(tx, token, 'PASSWORD_RESET');
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: accountToken.userId },
+      select: { role: true, emailVerifiedAt: true },
+    });
+
+    const minLength = isStaffRole(user.role) ? ADMIN_PASSWORD_MIN_LENGTH : PASSWORD_MIN_LENGTH;
+    if (typeof password !== 'string' || password.length < minLength) {
+      throw new AccountTokenError(`Password must be at least ${minLength} characters`);
+    }
+
+    await tx.user.update({
+      where: { id: accountToken.userId },
+      data: {
+        password: await bcrypt.hash(password, 10),
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+        failedLoginCount: 0,
+        lockedUntil: null,
+      },
+    });
+    // Other reset links stop working too
+    await tx.accountToken.updateMany({
+      where: { userId: accountToken.userId, purpose: 'PASSWORD_RESET', usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return accountToken.userId;
+  });
+}
+
+/**
+ * Email a link confirming that `user` owns their email address
+ * Earlier verification links stop working. Mail failures are logged, not thrown: registration
+ * shouldn't fail because of them, and the link can be sent again.
+ */
+export async function sendEmailVerification(user: { id: string; email: string }, locale?: string): Promise<void> {
+  const token = await issueToken(user.id, 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+  const verifyUrl = storefrontUrl(locale, `/verify-email?token=${token}`);
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: 'Confirm your email',
+      text: `Open this link to confirm the email address of your account:\n${verifyUrl}\n\n` +
+        `It expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+    });
+  } catch (error) {
+    console.error(`Failed to email verification link to user ${user.id}:`, error);
+  }
+}
+
+/**
+ * Redeem an email verification link; returns the user id
+ */
+export async function verifyEmail(token: string): Promise<string> {
+  return prisma.$transaction(async (tx) => {
+    const accountToken = await consumeToken(tx, token, 'EMAIL_VERIFICATION');
+    await tx.user.updateMany({
+      where: { id: accountToken.userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+    return accountToken.userId;
+  });
+}
+
+// New token for `purpose`, replacing the user's unused ones; returns the raw token for the link
+async function issueToken(userId: string, purpose: AccountTokenPurpose, ttlMs: number): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.accountToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.accountToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+// Marks the token used, conditional on it being unused and unexpired so it works only once
+async function consumeToken(
+  tx: Pick<PrismaClient, 'accountToken'>,
+  token: string,
+  purpose: AccountTokenPurpose
+) {
+  const tokenHash = hashToken(typeof token === 'string' ? token : '');
+  const now = new Date();
+
+  const { count } = await tx.accountToken.updateMany({
+    where: { tokenHash, purpose, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+  if (count === 0) {
+    throw new AccountTokenError('This link is invalid or has expired');
+  }
+
+  return tx.accountToken.findUniqueOrThrow({ where: { tokenHash } });
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { PrismaClient, AdminInvite, StaffRole } from '@prisma/client';
+import { sendMail } from './mailer';
+import { storefrontUrl } from './storefront';
+
+const prisma = new PrismaClient();
+
+const ADMIN_INVITE_TTL_HOURS = parseInt(process.env.ADMIN_INVITE_TTL_HOURS || '') || 72;
+// Stricter than customer accounts
+export const ADMIN_PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Thrown when an invite can't be created or redeemed; the message is safe to show
+ */
+export class AdminInviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdminInviteError';
+  }
+}
+
+export interface CreatedAdminInvite {
+  invite: AdminInvite;
+  inviteUrl: string; // Holds the token; shown once to the inviting admin and emailed to the invitee
+}
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  role: string;
+  staffRole: StaffRole | null;
+  createdAt: Date;
+}
+
+/**
+ * Invite `email` to become an admin, or staff with `staffRole` when one is given
+ * Earlier pending invites for the same email stop working. The link is emailed to the invitee
+ * and returned, so it can also be handed over another way if the email doesn't arrive. It opens
+ * the invite page in `locale` (English by default).
+ */
+export async function createAdminInvite(
+  email: string,
+  invitedById: string,
+  staffRole: StaffRole | null = null,
+  locale?: string
+): Promise<CreatedAdminInvite> {
+  const existing = await prisma.user.findUnique({
+    where: { email },
+    select: { role: true },
+  });
+  if (existing?.role === 'ADMIN' || existing?.role === 'STAFF') {
+    throw new AdminInviteError('This user is already on the team; change their access instead');
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const invite = await prisma.$transaction(async (tx) => {
+    await tx.adminInvite.updateMany({
+      where: { email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return tx.adminInvite.create({
+      data: {
+        email,
+        tokenHash: hashInviteToken(token),
+        invitedById,
+        staffRole,
+        expiresAt: new Date(Date.now() + ADMIN_INVITE_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+  });
+
+  const inviteUrl = storefrontUrl(locale, `/invite?token=${token}`);
+
+  try {
+    await sendMail({
+      to: email,
+      subject: 'You have been invited to administer the store',
+      text: `Open this link to choose your password and sign in:\n${inviteUrl}\n\n` +
+        `It works once and expires in ${ADMIN_INVITE_TTL_HOURS} hours.`,
+    });
+  } catch (error) {
+    console.error(`Failed to email admin invite ${invite.id}:`, error);
+  }
+
+  return { invite, inviteUrl };
+}
+
+/**
+ * Invites that can still be accepted, newest first
+ */
+export async function listPendingInvites() {
+  return prisma.adminInvite.findMany({
+    where: { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      email: true,
+      staffRole: true,
+      expiresAt: true,
+      createdAt: true,
+      invitedBy: { select: { id: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function revokeAdminInvite(inviteId: string): Promise<boolean> {
+  const { count } = await prisma.adminInvite.updateMany({
+    where: { id: inviteId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Pending invite a token belongs to, or null if it was used, revoked or has expired
+ */
+export async function findPendingInvite(token: string): Promise<AdminInvite | null> {
+  const invite = await prisma.adminInvite.findUnique({
+    where: { tokenHash: hashInviteToken(token) },
+  });
+  if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt <= new Date()) {
+    return null;
+  }
+  return invite;
+}
+
+/**
+ * Redeem an invite, making its email an admin (or staff with the invite's role) with `hashedPassword`
+ * Returns the user and whether the user existed before (their other sessions should end, as
+ * the password changed).
+ */
+export async function acceptAdminInvite(
+  token: string,
+  hashedPassword: string
+): Promise<{ user: AdminUser; existed: boolean }> {
+  return prisma.$transaction(async (tx) => {
+    const tokenHash = hashInviteToken(token);
+    const now = new Date();
+
+    // Conditional on it being pending, so an invite can't be redeemed twice
+    const { count } = await tx.adminInvite.updateMany({
+      where: { tokenHash, acceptedAt: null, revokedAt: null, expiresAt: { gt: now } },
+      data: { acceptedAt: now },
+    });
+    if (count === 0) {
+      throw new AdminInviteError('This invite is invalid or has expired');
+    }
+
+    const invite = await tx.adminInvite.findUniqueOrThrow({ where: { tokenHash } });
+    return upsertStaffUser(tx, invite.email, hashedPassword, invite.staffRole);
+  });
+}
+
+/**
+ * Make `email` an admin (or staff with `staffRole`, when given) with `hashedPassword`, creating
+ * the user or promoting an existing one
+ * Used by invites and by the bootstrap command.
+ */
+export async function upsertStaffUser(
+  client: Pick<PrismaClient, 'user'>,
+  email: string,
+  hashedPassword: string,
+  staffRole: StaffRole | null
+): Promise<{ user: AdminUser; existed: boolean }> {
+  const select = { id: true, email: true, role: true, staffRole: true, createdAt: true };
+  const role = staffRole ? 'STAFF' : 'ADMIN';
+
+  const existing = await client.user.findUnique({ where: { email }, select: { id: true } });
+  if (existing) {
+    const user = await client.user.update({
+      where: { id: existing.id },
+      data: { role, staffRole, password: hashedPassword },
+      select,
+    });
+    return { user, existed: true };
+  }
+
+  const user = await client.user.create({
+    data: { email, password: hashedPassword, role, staffRole },
+    select,
+  });
+  return { user, existed: false };
+}
+
+function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { PrismaClient, PaymentGateway } from '@prisma/client';
+import { ChargeCustomer, getGateway, listGatewayIds, toGatewaySlug } from './paymentGateway';
+
+const prisma = new PrismaClient();
+
+// AES-256-GCM key; rotating it makes stored buyer data unreadable, so buyers just re-enter it
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.BUYER_DATA_SECRET || process.env.JWT_SECRET || 'default-secret')
+  .digest();
+
+// Keys the buyer email hash orders are found by; kept apart from ENCRYPTION_KEY so rotating that
+// doesn't orphan existing orders. Changing this one stops email recovery of earlier orders.
+const EMAIL_HASH_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.BUYER_EMAIL_HASH_SECRET || process.env.JWT_SECRET || 'default-secret')
+  .digest();
+
+/**
+ * Payer identification some gateways need: CPF (11 digits), E.164 phone, email
+ */
+export type BuyerData = ChargeCustomer;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * CPF with valid check digits; repeated-digit numbers like 000.000.000-00 are rejected
+ */
+export function isValidCpf(cpf: string): boolean {
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) {
+    return false;
+  }
+
+  const digits = cpf.split('').map(Number);
+  const checkDigit = (length: number) => {
+    const sum = digits
+      .slice(0, length)
+      .reduce((total, digit, index) => total + digit * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === digits[9] && checkDigit(10) === digits[10];
+}
+
+/**
+ * Validate buyer data from a request body (clientName, clientCpf, clientEmail, clientPhone)
+ * The CPF may come formatted; the phone must be E.164 (e.g. +5511999999999).
+ */
+export function parseBuyerData(body: any): { data: BuyerData } | { error: string } {
+  const name = typeof body?.clientName === 'string' ? body.clientName.trim() : '';
+  const cpf = typeof body?.clientCpf === 'string' ? body.clientCpf.replace(/[.\-\s]/g, '') : '';
+  const email = typeof body?.clientEmail === 'string' ? body.clientEmail.trim().toLowerCase() : '';
+  const phone = typeof body?.clientPhone === 'string' ? body.clientPhone.replace(/[\s()-]/g, '') : '';
+
+  if (name.length < 3 || name.length > 120) {
+    return { error: 'Enter your full name' };
+  }
+
+  if (!isValidCpf(cpf)) {
+    return { error: 'Invalid CPF' };
+  }
+
+  if (!EMAIL_PATTERN.test(email) || email.length > 254) {
+    return { error: 'Invalid email address' };
+  }
+
+  if (!E164_PATTERN.test(phone)) {
+    return { error: 'Invalid phone number: use the international format, e.g. +5511999999999' };
+  }
+
+  return { data: { name, cpf, email, phone } };
+}
+
+/**
+ * Whether a request body carries any buyer field (the form is optional)
+ */
+export function hasBuyerFields(body: any): boolean {
+  return ['clientName', 'clientCpf', 'clientEmail', 'clientPhone'].some((key) => !!body?.[key]);
+}
+
+/**
+ * Keyed hash of a buyer email, stored on orders so they can be found by email without keeping it
+ * in the clear
+ */
+export function hashBuyerEmail(email: string): string {
+  return crypto
+    .createHmac('sha256', EMAIL_HASH_KEY)
+    .update(`email:${email.trim().toLowerCase()}`)
+    .digest('hex');
+}
+
+function encrypt(data: BuyerData): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+function decrypt(value: string): BuyerData | null {
+  try {
+    const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(tag);
+    const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+    return JSON.parse(decrypted.toString('utf8'));
+  } catch (error) {
+    console.error('Failed to decrypt buyer data:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * The user's saved buyer data, or null when there's none (or it can't be decrypted)
+ */
+export async function loadBuyerData(userId: string): Promise<BuyerData | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { buyerData: true },
+  });
+  return user?.buyerData ? decrypt(user.buyerData) : null;
+}
+
+export async function saveBuyerData(userId: string, data: BuyerData): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { buyerData: encrypt(data) },
+  });
+}
+
+export async function clearBuyerData(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { buyerData: null },
+  });
+}
+
+/**
+ * Setting key that makes buyers identify themselves before paying with a gateway
+ */
+export function buyerDataSettingKey(gateway: PaymentGateway): string {
+  return `buyer_data_required_${toGatewaySlug(gateway)}`;
+}
+
+/**
+ * Which gateways need buyer data at checkout
+ * Set per gateway by the buyer_data_required_<slug> settings ("true"/"false"); gateways whose
+ * API can't charge without it (SyncPay) always need it.
+ */
+export async function getBuyerDataRequirements(): Promise<Record<PaymentGateway, boolean>> {
+  const settings = await prisma.setting.findMany({
+    where: { key: { startsWith: 'buyer_data_required_' } },
+  });
+
+  const requirements = {} as Record<PaymentGateway, boolean>;
+  for (const id of listGatewayIds()) {
+    const setting = settings.find((row) => row.key === buyerDataSettingKey(id));
+    requirements[id] = setting?.value === 'true' || gatewayNeedsCustomer(id);
+  }
+  return requirements;
+}
+
+/**
+ * Whether the gateway's adapter can't charge without buyer data, whatever the setting says
+ */
+export function gatewayNeedsCustomer(id: PaymentGateway): boolean {
+  try {
+    return getGateway(id).requiresCustomer;
+  } catch (error) {
+    return false; // Not configured on this deployment
+  }
+}
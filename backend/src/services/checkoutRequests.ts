@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { normalizeCouponCode } from './coupons';
+
+const prisma = new PrismaClient();
+
+// How long a key replays its checkout; the PIX code in it lapses long before
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+// A claim still without a response after this is taken over (its server died mid-request)
+const STALE_CLAIM_MS = 2 * 60 * 1000;
+// Don't hand out a PIX code that lapses before the buyer can pay it
+const REUSE_MIN_REMAINING_MS = 5 * 60 * 1000;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export type CheckoutClaim =
+  | { status: 'new'; id: string }
+  | { status: 'replay'; response: Prisma.JsonValue }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' };
+
+/**
+ * Hash of what a checkout buys, compared when an Idempotency-Key is sent again
+ */
+export function hashCheckoutRequest(request: { priceId?: unknown; fromCart?: unknown; couponCode?: unknown }): string {
+  const normalized = {
+    priceId: typeof request.priceId === 'string' ? request.priceId : null,
+    fromCart: !!request.fromCart,
+    couponCode: typeof request.couponCode === 'string' && request.couponCode
+      ? normalizeCouponCode(request.couponCode)
+      : null,
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * Reserve an Idempotency-Key for a checkout
+ * The first request with a key gets "new" and must complete or release it; later ones replay
+ * its response, or learn that it's still running or was used for a different checkout.
+ */
+export async function claimCheckoutRequest(
+  userId: string,
+  idempotencyKey: string,
+  requestHash: string
+): Promise<CheckoutClaim> {
+  try {
+    const created = await prisma.checkoutRequest.create({
+      data: { userId, idempotencyKey, requestHash },
+    });
+    return { status: 'new', id: created.id };
+  } catch (error: any) {
+    if (error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.checkoutRequest.findUnique({
+    where: { userId_idempotencyKey: { userId, idempotencyKey } },
+  });
+
+  if (!existing) {
+    // Released between the insert and the lookup
+    return { status: 'in_progress' };
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { status: 'mismatch' };
+  }
+
+  if (existing.response !== null) {
+    return { status: 'replay', response: existing.response };
+  }
+
+  if (existing.createdAt.getTime() < Date.now() - STALE_CLAIM_MS) {
+    const { count } = await prisma.checkoutRequest.updateMany({
+      where: { id: existing.id, response: { equals: Prisma.DbNull }, createdAt: existing.createdAt },
+      data: { createdAt: new Date() },
+    });
+    if (count === 1) {
+      return { status: 'new', id: existing.id };
+    }
+  }
+
+  return { status: 'in_progress' };
+}
+
+/**
+ * Store a checkout's response for replay
+ * Completes a claimed Idempotency-Key (`id`), or records the order's response for checkouts
+ * without one; regenerating an order's charge replaces it.
+ */
+export async function saveCheckoutResponse(params: {
+  id?: string;
+  userId: string;
+  orderId: string | null;
+  requestHash: string;
+  response: object;
+}): Promise<void> {
+  const { id, userId, orderId, requestHash } = params;
+  const response = params.response as Prisma.InputJsonValue;
+  const completedAt = new Date();
+
+  if (id) {
+    await prisma.checkoutRequest.update({
+      where: { id },
+      data: { orderId, response, completedAt },
+    });
+  } else if (orderId) {
+    await prisma.checkoutRequest.upsert({
+      where: { orderId },
+      create: { userId, orderId, requestHash, response, completedAt },
+      update: { response, completedAt },
+    });
+  }
+}
+
+/**
+ * Checkout response stored for an order, to show its payment page again
+ */
+export async function findCheckoutResponse(orderId: string): Promise<Prisma.JsonValue | null> {
+  const request = await prisma.checkoutRequest.findUnique({
+    where: { orderId },
+    select: { response: true },
+  });
+  return request?.response ?? null;
+}
+
+/**
+ * Drop a claim whose checkout failed, so the buyer can retry with the same key
+ */
+export async function releaseCheckoutRequest(id: string): Promise<void> {
+  await prisma.checkoutRequest.deleteMany({
+    where: { id, response: { equals: Prisma.DbNull } },
+  });
+}
+
+/**
+ * Response of the user's latest PENDING single-price order that can still be paid
+ * Only plain purchases with the same price, coupon and charge currency qualify.
+ */
+export async function findReusableCheckout(
+  userId: string,
+  priceId: string,
+  couponCode: string | null,
+  currency: string
+): Promise<Prisma.JsonValue | null> {
+  const request = await prisma.checkoutRequest.findFirst({
+    where: {
+      userId,
+      response: { not: Prisma.DbNull },
+      order: {
+        priceId,
+        status: 'PENDING',
+        currency,
+        expiresAt: { gt: new Date(Date.now() + REUSE_MIN_REMAINING_MS) },
+        couponRedemption: couponCode
+          ? { is: { coupon: { code: normalizeCouponCode(couponCode) } } }
+          : { is: null },
+        items: { none: { entitlementId: { not: null } } },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return request?.response ?? null;
+}
+
+export async function pruneCheckoutRequests(): Promise<number> {
+  const { count } = await prisma.checkoutRequest.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - RETENTION_MS) } },
+  });
+  return count;
+}
+
+/**
+ * Start the checkout request cleanup job
+ * Runs every hour
+ */
+export function startCheckoutRequestCleanupJob() {
+  console.log('🧹 Starting checkout request cleanup job (runs every hour)');
+
+  const run = async () => {
+    try {
+      const pruned = await pruneCheckoutRequests();
+      if (pruned > 0) {
+        console.log(`✓ Pruned ${pruned} checkout request(s)`);
+      }
+    } catch (error) {
+      console.error('Error pruning checkout requests:', error);
+    }
+  };
+
+  run();
+
+  setInterval(run, 60 * 60 * 1000);
+}
@@ -0,0 +1,164 @@
+import { PrismaClient, Coupon, OrderStatus } from '@prisma/client';
+import { formatMoney } from './money';
+
+const prisma = new PrismaClient();
+
+// Orders holding a coupon use; failed and refunded orders give theirs back
+const REDEEMING_STATUSES: OrderStatus[] = ['PENDING', 'COMPLETED', 'DISPUTED'];
+
+export interface CouponLine {
+  priceId: string;
+  productId: string;
+  amountInCents: number;
+  currency: string;
+}
+
+export interface CouponContext {
+  userId: string;
+  countryCode: string | null;
+}
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  subtotalInCents: number;
+  discountInCents: number;
+  totalInCents: number;
+  /** Discount per priceId in minor units, summing to discountInCents */
+  lineDiscounts: Record<string, number>;
+}
+
+/**
+ * Thrown when a coupon can't be applied; the message is safe to show to the buyer
+ */
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Validate a coupon against a checkout and work out the discount
+ * Lines are in their price's own currency, which is also the currency of a FIXED coupon's
+ * value and of the minimum amount. PERCENT coupons discount each eligible line; FIXED
+ * coupons are split across eligible lines in proportion to their amount, so the line
+ * discounts always add up to the total discount.
+ */
+export async function applyCoupon(
+  code: string,
+  lines: CouponLine[],
+  context: CouponContext
+): Promise<AppliedCoupon> {
+  const coupon = await prisma.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) },
+  });
+
+  if (!coupon || !coupon.isActive) {
+    throw new CouponError('Invalid coupon code');
+  }
+
+  const now = new Date();
+  if ((coupon.startsAt && coupon.startsAt > now) || (coupon.endsAt && coupon.endsAt <= now)) {
+    throw new CouponError('This coupon is not valid at this time');
+  }
+
+  if (coupon.regionCodes.length > 0 && !matchesRegion(coupon.regionCodes, context.countryCode)) {
+    throw new CouponError('This coupon is not available in your region');
+  }
+
+  const subtotalCents = lines.reduce((sum, line) => sum + line.amountInCents, 0);
+
+  if (coupon.minAmountInCents !== null && subtotalCents < coupon.minAmountInCents) {
+    const currency = coupon.currency || lines[0]?.currency || 'BRL';
+    throw new CouponError(
+      `This coupon requires a minimum order of ${formatMoney(coupon.minAmountInCents, currency, 'en-US')}`
+    );
+  }
+
+  if (coupon.type === 'FIXED' && coupon.currency && lines.some((line) => line.currency !== coupon.currency)) {
+    throw new CouponError(`This coupon only applies to ${coupon.currency} purchases`);
+  }
+
+  const eligible = lines.filter((line) =>
+    (coupon.productIds.length === 0 || coupon.productIds.includes(line.productId)) &&
+    (coupon.priceIds.length === 0 || coupon.priceIds.includes(line.priceId))
+  );
+
+  if (eligible.length === 0) {
+    throw new CouponError('This coupon does not apply to these products');
+  }
+
+  if (coupon.maxRedemptions !== null) {
+    const used = await prisma.couponRedemption.count({
+      where: {
+        couponId: coupon.id,
+        order: { status: { in: REDEEMING_STATUSES } },
+      },
+    });
+    if (used >= coupon.maxRedemptions) {
+      throw new CouponError('This coupon has reached its usage limit');
+    }
+  }
+
+  if (coupon.maxRedemptionsPerUser !== null) {
+    const usedByUser = await prisma.couponRedemption.count({
+      where: {
+        couponId: coupon.id,
+        userId: context.userId,
+        order: { status: { in: REDEEMING_STATUSES } },
+      },
+    });
+    if (usedByUser >= coupon.maxRedemptionsPerUser) {
+      throw new CouponError('You have already used this coupon');
+    }
+  }
+
+  const lineDiscounts: Record<string, number> = {};
+  let discountCents = 0;
+
+  if (coupon.type === 'PERCENT') {
+    const percent = Math.min(Math.max(coupon.value, 0), 100);
+    for (const line of eligible) {
+      const cents = Math.round(line.amountInCents * percent / 100);
+      lineDiscounts[line.priceId] = cents;
+      discountCents += cents;
+    }
+  } else {
+    const eligibleCents = eligible.reduce((sum, line) => sum + line.amountInCents, 0);
+    discountCents = Math.min(coupon.value, eligibleCents);
+
+    // Proportional split; the last line takes the rounding remainder
+    let allocated = 0;
+    eligible.forEach((line, index) => {
+      const cents = index === eligible.length - 1
+        ? discountCents - allocated
+        : Math.floor(discountCents * line.amountInCents / eligibleCents);
+      lineDiscounts[line.priceId] = cents;
+      allocated += cents;
+    });
+  }
+
+  return {
+    coupon,
+    subtotalInCents: subtotalCents,
+    discountInCents: discountCents,
+    totalInCents: subtotalCents - discountCents,
+    lineDiscounts,
+  };
+}
+
+/**
+ * Same region semantics as ProductRegion: NON_BR matches every country except Brazil
+ */
+function matchesRegion(regionCodes: string[], countryCode: string | null): boolean {
+  if (!countryCode) {
+    return false;
+  }
+  return regionCodes.some((code) =>
+    code === 'NON_BR' ? countryCode !== 'BR' : code === countryCode
+  );
+}
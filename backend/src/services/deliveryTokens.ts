@@ -0,0 +1,162 @@
+import { PrismaClient, DeliveryToken } from '@prisma/client';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+const secret = process.env.DELIVERY_TOKEN_SECRET || process.env.JWT_SECRET || 'default-secret';
+const TOKEN_TTL_MS = (parseInt(process.env.DELIVERY_TOKEN_TTL_HOURS || '') || 24) * 60 * 60 * 1000;
+const TOKEN_MAX_USES = parseInt(process.env.DELIVERY_TOKEN_MAX_USES || '') || 5;
+// Cap on tokens per order item so a buyer can't mint unlimited links to share
+const MAX_TOKENS_PER_ITEM = parseInt(process.env.DELIVERY_MAX_TOKENS_PER_ORDER || '') || 20;
+
+export interface DeliveryAccess {
+  url: string;
+  expiresAt: Date;
+  remainingUses: number;
+}
+
+export interface RedemptionContext {
+  ip: string | null;
+  countryCode: string | null;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  userAgent: string | null;
+}
+
+export type RedeemResult =
+  | { ok: true; redirectUrl: string }
+  | { ok: false; reason: 'invalid' | 'expired' | 'exhausted' | 'revoked' };
+
+/**
+ * Token format: <tokenId>.<expiresAtSeconds>.<signature>
+ * The signature is deterministic, so the URL of an existing token can be rebuilt from its row.
+ */
+function sign(tokenId: string, expiresAt: Date): string {
+  const exp = Math.floor(expiresAt.getTime() / 1000);
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${tokenId}.${exp}`)
+    .digest('base64url');
+  return `${tokenId}.${exp}.${signature}`;
+}
+
+function verify(token: string): { tokenId: string; exp: number } | null {
+  const [tokenId, expPart, signature] = token.split('.');
+  const exp = parseInt(expPart, 10);
+  if (!tokenId || !signature || isNaN(exp)) {
+    return null;
+  }
+
+  const expected = sign(tokenId, new Date(exp * 1000)).split('.')[2];
+  if (
+    expected.length !== signature.length ||
+    !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  ) {
+    return null;
+  }
+
+  return { tokenId, exp };
+}
+
+function toAccess(token: DeliveryToken): DeliveryAccess {
+  return {
+    url: `${process.env.BACKEND_URL}/api/delivery/${sign(token.id, token.expiresAt)}`,
+    expiresAt: token.expiresAt,
+    remainingUses: token.maxUses - token.useCount,
+  };
+}
+
+/**
+ * Get an order item's current usable delivery token, issuing a new one if none is left
+ * Returns null when the item already used up its token allowance.
+ */
+export async function getOrIssueDeliveryAccess(orderId: string, orderItemId: string): Promise<DeliveryAccess | null> {
+  const now = new Date();
+
+  const active = await prisma.deliveryToken.findFirst({
+    where: {
+      orderItemId,
+      revokedAt: null,
+      expiresAt: { gt: now },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (active && active.useCount < active.maxUses) {
+    return toAccess(active);
+  }
+
+  const issued = await prisma.deliveryToken.count({ where: { orderItemId } });
+  if (issued >= MAX_TOKENS_PER_ITEM) {
+    console.warn(`Order item ${orderItemId} of order ${orderId} reached the limit of ${MAX_TOKENS_PER_ITEM} delivery tokens`);
+    return null;
+  }
+
+  const token = await prisma.deliveryToken.create({
+    data: {
+      orderId,
+      orderItemId,
+      expiresAt: new Date(now.getTime() + TOKEN_TTL_MS),
+      maxUses: TOKEN_MAX_USES,
+    },
+  });
+
+  return toAccess(token);
+}
+
+/**
+ * Redeem a delivery token and log who used it
+ * The use counter is incremented conditionally so concurrent redemptions can't exceed maxUses.
+ */
+export async function redeemDeliveryToken(token: string, context: RedemptionContext): Promise<RedeemResult> {
+  const parsed = verify(token);
+  if (!parsed) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const deliveryToken = await prisma.deliveryToken.findUnique({
+    where: { id: parsed.tokenId },
+    include: { order: true, orderItem: true },
+  });
+
+  if (!deliveryToken || Math.floor(deliveryToken.expiresAt.getTime() / 1000) !== parsed.exp) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (
+    deliveryToken.revokedAt ||
+    deliveryToken.order.status !== 'COMPLETED' ||
+    !deliveryToken.orderItem.downloadLink
+  ) {
+    return { ok: false, reason: 'revoked' };
+  }
+
+  if (deliveryToken.expiresAt <= new Date()) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  const { count } = await prisma.deliveryToken.updateMany({
+    where: {
+      id: deliveryToken.id,
+      useCount: { lt: deliveryToken.maxUses },
+    },
+    data: {
+      useCount: { increment: 1 },
+    },
+  });
+
+  if (count === 0) {
+    return { ok: false, reason: 'exhausted' };
+  }
+
+  await prisma.deliveryRedemption.create({
+    data: {
+      tokenId: deliveryToken.id,
+      orderId: deliveryToken.orderId,
+      ...context,
+    },
+  });
+
+  return { ok: true, redirectUrl: deliveryToken.orderItem.downloadLink };
+}
@@ -0,0 +1,283 @@
+import { PrismaClient, Prisma, Entitlement, Order } from '@prisma/client';
+import { getTelegramBotService } from './telegramBot';
+import { revokeTelegramInvite } from './telegramDelivery';
+import { storefrontUrl } from './storefront';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_DAYS = parseInt(process.env.ENTITLEMENT_REMINDER_DAYS || '') || 3;
+
+// Periods a SUBSCRIPTION price can be sold for
+export const SUBSCRIPTION_PERIOD_DAYS = [30, 90, 365];
+
+/**
+ * Extend (or create) the entitlement of every subscription item of an order that just completed
+ * Called inside the order's status transition, so a repeated notification can't extend twice.
+ * A renewal paid before expiry stacks on the current expiresAt; after expiry the new period starts now.
+ */
+export async function grantEntitlements(tx: Prisma.TransactionClient, order: Order): Promise<void> {
+  const items = await tx.orderItem.findMany({
+    where: { orderId: order.id, periodDays: { not: null } },
+    include: { price: true },
+  });
+
+  const now = new Date();
+
+  for (const item of items) {
+    const existing = item.entitlementId
+      ? await tx.entitlement.findUnique({ where: { id: item.entitlementId } })
+      : item.priceId
+      ? await tx.entitlement.findUnique({
+          where: { userId_priceId: { userId: order.userId, priceId: item.priceId } },
+        })
+      : null;
+
+    const isRunning = existing !== null && existing.status === 'ACTIVE' && existing.expiresAt > now;
+    const periodStart = isRunning ? existing.expiresAt : now;
+    const expiresAt = new Date(periodStart.getTime() + item.periodDays! * DAY_MS);
+    const telegramChatId = item.price?.telegramChatId ?? existing?.telegramChatId ?? null;
+
+    const entitlement = existing
+      ? await tx.entitlement.update({
+          where: { id: existing.id },
+          data: {
+            status: 'ACTIVE',
+            startsAt: isRunning ? existing.startsAt : now,
+            expiresAt,
+            telegramChatId,
+            reminderSentAt: null,
+            expiredAt: null,
+          },
+        })
+      : await tx.entitlement.create({
+          data: {
+            userId: order.userId,
+            priceId: item.priceId,
+            startsAt: now,
+            expiresAt,
+            telegramChatId,
+          },
+        });
+
+    if (item.entitlementId !== entitlement.id) {
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: { entitlementId: entitlement.id },
+      });
+    }
+
+    console.log(`Entitlement ${entitlement.id} of user ${order.userId} extended to ${expiresAt.toISOString()}`);
+  }
+}
+
+/**
+ * Take back the days a completed order added, when it is refunded, disputed or failed by an admin
+ * Returns the ids of the entitlements that were shortened; the caller expires them once the
+ * transaction has committed if they are now past their end.
+ */
+export async function revokeEntitlementPeriods(tx: Prisma.TransactionClient, orderId: string): Promise<string[]> {
+  const items = await tx.orderItem.findMany({
+    where: { orderId, periodDays: { not: null }, entitlementId: { not: null } },
+    include: { entitlement: true },
+  });
+
+  const shortened: string[] = [];
+
+  for (const item of items) {
+    if (!item.entitlement) {
+      continue;
+    }
+
+    await tx.entitlement.update({
+      where: { id: item.entitlement.id },
+      data: {
+        expiresAt: new Date(item.entitlement.expiresAt.getTime() - item.periodDays! * DAY_MS),
+      },
+    });
+    shortened.push(item.entitlement.id);
+  }
+
+  return shortened;
+}
+
+/**
+ * Mark entitlements past their end as EXPIRED and remove their members from the channel
+ * Their items' download links are cleared and delivery tokens revoked along with the status.
+ * The status change is conditional, so the daily job and an order refund can't both process
+ * the same entitlement. Telegram failures are logged and don't undo the expiry.
+ */
+export async function expireEntitlements(ids?: string[]): Promise<number> {
+  const due = await prisma.entitlement.findMany({
+    where: {
+      status: 'ACTIVE',
+      expiresAt: { lte: new Date() },
+      ...(ids ? { id: { in: ids } } : {}),
+    },
+  });
+
+  let expired = 0;
+
+  for (const entitlement of due) {
+    const count = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const { count } = await tx.entitlement.updateMany({
+        where: { id: entitlement.id, status: 'ACTIVE' },
+        data: { status: 'EXPIRED', expiredAt: now },
+      });
+      if (count === 0) {
+        return 0;
+      }
+
+      await tx.orderItem.updateMany({
+        where: { entitlementId: entitlement.id },
+        data: { downloadLink: null },
+      });
+      await tx.deliveryToken.updateMany({
+        where: { orderItem: { entitlementId: entitlement.id }, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      return count;
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    expired += 1;
+
+    try {
+      await endTelegramAccess(entitlement);
+    } catch (error: any) {
+      console.error(`Failed to remove Telegram access for entitlement ${entitlement.id}:`, error.message);
+    }
+  }
+
+  if (expired > 0) {
+    console.log(`✓ Expired ${expired} entitlement(s)`);
+  }
+
+  return expired;
+}
+
+/**
+ * Remind buyers whose access ends within ENTITLEMENT_REMINDER_DAYS
+ * The reminder goes out as a bot message to the Telegram account that joined the channel.
+ * Buyers the bot can't reach still see the expiry date on their subscriptions page, so the
+ * entitlement is marked either way and the job doesn't retry every day.
+ */
+export async function sendRenewalReminders(): Promise<number> {
+  const now = new Date();
+
+  const due = await prisma.entitlement.findMany({
+    where: {
+      status: 'ACTIVE',
+      reminderSentAt: null,
+      expiresAt: { gt: now, lte: new Date(now.getTime() + REMINDER_DAYS * DAY_MS) },
+    },
+    include: {
+      price: {
+        include: { product: true },
+      },
+    },
+  });
+
+  let sent = 0;
+
+  for (const entitlement of due) {
+    if (entitlement.telegramUserId) {
+      const productName = entitlement.price
+        ? `${entitlement.price.product.name} (${entitlement.price.category})`
+        : 'your subscription';
+
+      try {
+        // The reminder is in English, so the link opens the English page
+        await getTelegramBotService().sendMessage(
+          entitlement.telegramUserId,
+          `Your access to ${productName} ends on ${entitlement.expiresAt.toISOString().slice(0, 10)}. ` +
+            `Renew it at ${storefrontUrl('en', '/subscriptions')}`
+        );
+        sent += 1;
+      } catch (error: any) {
+        console.error(`Failed to send renewal reminder for entitlement ${entitlement.id}:`, error.message);
+      }
+    }
+
+    await prisma.entitlement.update({
+      where: { id: entitlement.id },
+      data: { reminderSentAt: now },
+    });
+  }
+
+  if (sent > 0) {
+    console.log(`✓ Sent ${sent} renewal reminder(s)`);
+  }
+
+  return sent;
+}
+
+/**
+ * Revoke unused invites of the entitlement's items and kick the member from the channel
+ * Kicking is a ban followed by an unban, so the buyer can join again after renewing.
+ * Members who also hold another running entitlement to the same channel are left alone.
+ */
+async function endTelegramAccess(entitlement: Entitlement): Promise<void> {
+  if (!entitlement.telegramChatId) {
+    return;
+  }
+
+  const items = await prisma.orderItem.findMany({
+    where: { entitlementId: entitlement.id },
+  });
+
+  for (const item of items) {
+    await revokeTelegramInvite(item);
+  }
+
+  if (!entitlement.telegramUserId) {
+    return;
+  }
+
+  const otherAccess = await prisma.entitlement.count({
+    where: {
+      id: { not: entitlement.id },
+      userId: entitlement.userId,
+      telegramChatId: entitlement.telegramChatId,
+      status: 'ACTIVE',
+      expiresAt: { gt: new Date() },
+    },
+  });
+
+  if (otherAccess > 0) {
+    return;
+  }
+
+  const bot = getTelegramBotService();
+  await bot.banChatMember(entitlement.telegramChatId, entitlement.telegramUserId);
+  await bot.unbanChatMember(entitlement.telegramChatId, entitlement.telegramUserId);
+
+  console.log(`Telegram member ${entitlement.telegramUserId} removed from ${entitlement.telegramChatId} (entitlement ${entitlement.id})`);
+}
+
+/**
+ * Start the entitlement job
+ * Runs once a day: expires ended subscriptions, then sends renewal reminders
+ */
+export function startEntitlementJob() {
+  console.log('🕐 Starting entitlement job (runs every 24 hours)');
+
+  const run = async () => {
+    try {
+      await expireEntitlements();
+      await sendRenewalReminders();
+    } catch (error) {
+      console.error('Error running entitlement job:', error);
+    }
+  };
+
+  // Run immediately on startup
+  run();
+
+  // Then run once a day
+  setInterval(run, DAY_MS);
+}
@@ -0,0 +1,234 @@
+import axios from 'axios';
+import { PrismaClient, ExchangeRate } from '@prisma/client';
+import { currencyExponent } from './money';
+
+const prisma = new PrismaClient();
+
+const REFRESH_HOURS = parseInt(process.env.FX_REFRESH_HOURS || '') || 6;
+const BASE_CURRENCY = (process.env.FX_BASE_CURRENCY || 'USD').toUpperCase();
+const TRACKED_CURRENCIES = (process.env.FX_CURRENCIES || 'BRL,USD,EUR,GBP')
+  .split(',')
+  .map((code) => code.trim().toUpperCase())
+  .filter(Boolean);
+
+/**
+ * Source of exchange rates the refresh job pulls from
+ * Adding a provider means implementing this and registering a factory below.
+ */
+export interface ExchangeRateProvider {
+  readonly id: string;
+  /** Rates for 1 unit of `base`, keyed by quote currency */
+  fetchRates(base: string): Promise<Record<string, number>>;
+}
+
+/**
+ * ExchangeRate-API open access endpoint (no key, daily updates)
+ * Documentation: https://www.exchangerate-api.com/docs/free
+ */
+class OpenErApiProvider implements ExchangeRateProvider {
+  readonly id = 'open-er-api';
+
+  async fetchRates(base: string): Promise<Record<string, number>> {
+    try {
+      const response = await axios.get(`https://open.er-api.com/v6/latest/${base}`, { timeout: 15000 });
+      if (response.data?.result !== 'success' || !response.data.rates) {
+        throw new Error(response.data?.['error-type'] || 'Unexpected response');
+      }
+      return response.data.rates;
+    } catch (error: any) {
+      throw new Error(`Failed to fetch exchange rates from ${this.id}: ${error.message}`);
+    }
+  }
+}
+
+const providerFactories: Record<string, () => ExchangeRateProvider> = {
+  'open-er-api': () => new OpenErApiProvider(),
+};
+
+/**
+ * Provider selected by FX_RATE_PROVIDER; null when rates are only set by an admin
+ */
+export function getRateProvider(): ExchangeRateProvider | null {
+  const id = process.env.FX_RATE_PROVIDER;
+  if (!id) {
+    return null;
+  }
+  const factory = providerFactories[id];
+  if (!factory) {
+    throw new Error(`Unknown FX_RATE_PROVIDER: ${id}`);
+  }
+  return factory();
+}
+
+export interface Conversion {
+  amountInCents: number;
+  rate: number; // 1 unit of the source currency in the target currency
+  rateAt: Date | null; // Last update of the oldest rate used; null for same-currency
+}
+
+/**
+ * In-memory view of the exchange_rates table
+ * A pair can be converted through its direct rate, the inverse of the opposite rate,
+ * or through one intermediate currency (e.g. EUR -> USD -> BRL).
+ */
+export class ExchangeRateTable {
+  private rates = new Map<string, { rate: number; updatedAt: Date }>();
+
+  constructor(rows: ExchangeRate[]) {
+    for (const row of rows) {
+      this.rates.set(`${row.baseCurrency}:${row.quoteCurrency}`, { rate: row.rate, updatedAt: row.updatedAt });
+    }
+  }
+
+  getRate(from: string, to: string): { rate: number; rateAt: Date | null } | null {
+    const base = from.toUpperCase();
+    const quote = to.toUpperCase();
+
+    if (base === quote) {
+      return { rate: 1, rateAt: null };
+    }
+
+    const direct = this.pairRate(base, quote);
+    if (direct) {
+      return direct;
+    }
+
+    for (const via of this.currencies()) {
+      const first = this.pairRate(base, via);
+      const second = first && this.pairRate(via, quote);
+      if (first && second) {
+        return {
+          rate: first.rate * second.rate,
+          rateAt: first.rateAt! < second.rateAt! ? first.rateAt : second.rateAt,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert minor units between currencies, or null when there's no rate for the pair
+   */
+  convert(amountInCents: number, from: string, to: string): Conversion | null {
+    const found = this.getRate(from, to);
+    if (!found) {
+      return null;
+    }
+
+    const scale = Math.pow(10, currencyExponent(to) - currencyExponent(from));
+    return {
+      amountInCents: Math.round(amountInCents * found.rate * scale),
+      rate: found.rate,
+      rateAt: found.rateAt,
+    };
+  }
+
+  private pairRate(base: string, quote: string): { rate: number; rateAt: Date } | null {
+    const direct = this.rates.get(`${base}:${quote}`);
+    if (direct) {
+      return { rate: direct.rate, rateAt: direct.updatedAt };
+    }
+    const inverse = this.rates.get(`${quote}:${base}`);
+    if (inverse && inverse.rate > 0) {
+      return { rate: 1 / inverse.rate, rateAt: inverse.updatedAt };
+    }
+    return null;
+  }
+
+  private currencies(): Set<string> {
+    const codes = new Set<string>();
+    for (const key of this.rates.keys()) {
+      const [base, quote] = key.split(':');
+      codes.add(base);
+      codes.add(quote);
+    }
+    return codes;
+  }
+}
+
+export async function loadExchangeRates(): Promise<ExchangeRateTable> {
+  return new ExchangeRateTable(await prisma.exchangeRate.findMany());
+}
+
+/**
+ * Create or update the rate of a pair
+ */
+export async function setExchangeRate(
+  baseCurrency: string,
+  quoteCurrency: string,
+  rate: number,
+  source: string
+): Promise<ExchangeRate> {
+  const base = baseCurrency.toUpperCase();
+  const quote = quoteCurrency.toUpperCase();
+
+  return prisma.exchangeRate.upsert({
+    where: { baseCurrency_quoteCurrency: { baseCurrency: base, quoteCurrency: quote } },
+    create: { baseCurrency: base, quoteCurrency: quote, rate, source },
+    update: { rate, source },
+  });
+}
+
+/**
+ * Pull FX_BASE_CURRENCY rates for FX_CURRENCIES from the configured provider
+ * Pairs an admin set by hand are left alone until the manual rate is deleted.
+ */
+export async function refreshExchangeRates(): Promise<number> {
+  const provider = getRateProvider();
+  if (!provider) {
+    throw new Error('No exchange rate provider configured (FX_RATE_PROVIDER)');
+  }
+
+  const rates = await provider.fetchRates(BASE_CURRENCY);
+  const manual = await prisma.exchangeRate.findMany({
+    where: { source: 'manual' },
+  });
+
+  let updated = 0;
+
+  for (const quote of TRACKED_CURRENCIES) {
+    if (quote === BASE_CURRENCY || typeof rates[quote] !== 'number' || rates[quote] <= 0) {
+      continue;
+    }
+
+    const pinned = manual.some((row) =>
+      (row.baseCurrency === BASE_CURRENCY && row.quoteCurrency === quote) ||
+      (row.baseCurrency === quote && row.quoteCurrency === BASE_CURRENCY)
+    );
+    if (pinned) {
+      continue;
+    }
+
+    await setExchangeRate(BASE_CURRENCY, quote, rates[quote], provider.id);
+    updated += 1;
+  }
+
+  console.log(`✓ Updated ${updated} exchange rate(s) from ${provider.id}`);
+  return updated;
+}
+
+/**
+ * Start the exchange rate job
+ * Only runs when FX_RATE_PROVIDER is set; refreshes every FX_REFRESH_HOURS
+ */
+export function startExchangeRateJob() {
+  if (!process.env.FX_RATE_PROVIDER) {
+    return;
+  }
+
+  console.log(`💱 Starting exchange rate job (runs every ${REFRESH_HOURS} hours)`);
+
+  const run = async () => {
+    try {
+      await refreshExchangeRates();
+    } catch (error: any) {
+      console.error('Error refreshing exchange rates:', error.message);
+    }
+  };
+
+  // Run immediately on startup
+  run();
+
+  setInterval(run, REFRESH_HOURS * 60 * 60 * 1000);
+}
@@ -0,0 +1,284 @@
+import { PrismaClient, PaymentGateway } from '@prisma/client';
+import {
+  ChargeResult,
+  GatewayRequestError,
+  PaymentGatewayAdapter,
+  getChargeCurrency,
+  getGateway,
+  getGatewayMethod,
+  listGatewayIds,
+  parseGatewayId,
+  toGatewaySlug,
+} from './paymentGateway';
+
+const prisma = new PrismaClient();
+
+const WINDOW_MS = (parseInt(process.env.GATEWAY_BREAKER_WINDOW_SECONDS || '') || 300) * 1000;
+const MIN_REQUESTS = parseInt(process.env.GATEWAY_BREAKER_MIN_REQUESTS || '') || 5;
+const FAILURE_RATE = parseFloat(process.env.GATEWAY_BREAKER_FAILURE_RATE || '') || 0.5;
+const COOLDOWN_MS = (parseInt(process.env.GATEWAY_BREAKER_COOLDOWN_SECONDS || '') || 60) * 1000;
+
+/**
+ * CLOSED: charges go through. OPEN: the gateway is skipped until the cooldown ends.
+ * HALF_OPEN: one trial charge decides whether the circuit closes or opens again.
+ */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface GatewayHealth {
+  gateway: string;
+  state: CircuitState;
+  requests: number; // Charge attempts within the window
+  failures: number;
+  errorRate: number; // 0-1
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  openedAt: Date | null;
+  retryAt: Date | null; // When an OPEN circuit lets a trial charge through
+}
+
+export interface ChargeAttempt {
+  gateway: PaymentGateway;
+  error: string;
+}
+
+/**
+ * Thrown when no gateway could create the charge
+ */
+export class NoGatewayAvailableError extends Error {
+  readonly attempts: ChargeAttempt[];
+
+  constructor(attempts: ChargeAttempt[]) {
+    super(
+      attempts.length > 0
+        ? `All payment gateways failed: ${attempts.map((a) => `${toGatewaySlug(a.gateway)} (${a.error})`).join(', ')}`
+        : 'No payment gateway is available'
+    );
+    this.name = 'NoGatewayAvailableError';
+    this.attempts = attempts;
+  }
+}
+
+interface Sample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Error rate and latency of one gateway's charge requests over a sliding window
+ * State lives in memory, so it starts CLOSED again when the process restarts.
+ */
+class CircuitBreaker {
+  private samples: Sample[] = [];
+  private state: CircuitState = 'CLOSED';
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+  private lastErrorAt: number | null = null;
+
+  constructor(private readonly gateway: PaymentGateway) {}
+
+  /**
+   * Whether a charge may be sent now; in HALF_OPEN only the first caller gets through
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'OPEN' && Date.now() - this.openedAt! >= COOLDOWN_MS) {
+      this.state = 'HALF_OPEN';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'CLOSED') {
+      return true;
+    }
+
+    if (this.state === 'HALF_OPEN' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.addSample(true, latencyMs);
+
+    if (this.state === 'HALF_OPEN') {
+      console.log(`Gateway ${this.gateway} recovered. Circuit closed.`);
+      this.state = 'CLOSED';
+      this.openedAt = null;
+      this.trialInFlight = false;
+      // Failures from before the outage shouldn't reopen the circuit right away
+      this.samples = this.samples.filter((sample) => sample.ok);
+    }
+  }
+
+  recordFailure(latencyMs: number, error: string): void {
+    this.addSample(false, latencyMs);
+    this.lastError = error;
+    this.lastErrorAt = Date.now();
+
+    if (this.state === 'HALF_OPEN') {
+      this.open();
+      return;
+    }
+
+    const { requests, failures } = this.stats();
+    if (this.state === 'CLOSED' && requests >= MIN_REQUESTS && failures / requests >= FAILURE_RATE) {
+      this.open();
+    }
+  }
+
+  /**
+   * A trial that ended without reaching the gateway (e.g. a validation error) frees the slot
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  snapshot(): GatewayHealth {
+    const { requests, failures, avgLatencyMs } = this.stats();
+
+    return {
+      gateway: toGatewaySlug(this.gateway),
+      state: this.state,
+      requests,
+      failures,
+      errorRate: requests > 0 ? failures / requests : 0,
+      avgLatencyMs,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt ? new Date(this.lastErrorAt) : null,
+      openedAt: this.openedAt ? new Date(this.openedAt) : null,
+      retryAt: this.state === 'OPEN' && this.openedAt ? new Date(this.openedAt + COOLDOWN_MS) : null,
+    };
+  }
+
+  private open(): void {
+    this.state = 'OPEN';
+    this.openedAt = Date.now();
+    this.trialInFlight = false;
+    console.error(`Gateway ${this.gateway} circuit opened: ${this.lastError}`);
+  }
+
+  private addSample(ok: boolean, latencyMs: number): void {
+    this.samples.push({ at: Date.now(), ok, latencyMs });
+    this.prune();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - WINDOW_MS;
+    this.samples = this.samples.filter((sample) => sample.at >= cutoff);
+  }
+
+  private stats() {
+    this.prune();
+    const requests = this.samples.length;
+    const failures = this.samples.filter((sample) => !sample.ok).length;
+    const avgLatencyMs = requests > 0
+      ? Math.round(this.samples.reduce((sum, sample) => sum + sample.latencyMs, 0) / requests)
+      : null;
+    return { requests, failures, avgLatencyMs };
+  }
+}
+
+const breakers = new Map<PaymentGateway, CircuitBreaker>();
+
+function getBreaker(id: PaymentGateway): CircuitBreaker {
+  let breaker = breakers.get(id);
+  if (!breaker) {
+    breaker = new CircuitBreaker(id);
+    breakers.set(id, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Gateway charges are tried on first, from the payment_gateway setting
+ */
+export async function getPreferredGateway(): Promise<PaymentGateway> {
+  const setting = await prisma.setting.findUnique({
+    where: { key: 'payment_gateway' },
+  });
+  return parseGatewayId(setting?.value) ?? 'PUSHINPAY';
+}
+
+/**
+ * Health of every registered gateway, for the admin settings page
+ */
+export function getGatewayHealth(): GatewayHealth[] {
+  return listGatewayIds().map((id) => getBreaker(id).snapshot());
+}
+
+/**
+ * Create a charge on the preferred gateway, failing over to the next one in registry order
+ * Only gateways with the same payment method that charge in the same currency are candidates,
+ * so a PIX checkout never turns into a card checkout and the converted amount stays valid.
+ * Gateways whose circuit is open, that aren't configured, or that need payer data the checkout
+ * doesn't have are skipped. Only retryable GatewayRequestErrors move on to the next gateway;
+ * any other error is thrown as is.
+ *
+ * @param options.buyerDataRequired - Gateways the buyer_data_required_<slug> settings make need
+ *   payer data; defaults to the adapters' own requiresCustomer
+ * @param charge - Creates the charge on the given gateway (the caller points the order at it first)
+ */
+export async function createChargeWithFailover(
+  preferred: PaymentGateway,
+  options: {
+    hasCustomer: boolean;
+    currency: string; // The one the amount is in
+    buyerDataRequired?: Record<PaymentGateway, boolean>;
+  },
+  charge: (gateway: PaymentGatewayAdapter) => Promise<ChargeResult>
+): Promise<{ gateway: PaymentGateway; charge: ChargeResult }> {
+  const method = getGatewayMethod(preferred);
+  const candidates = [
+    preferred,
+    ...listGatewayIds().filter((id) =>
+      id !== preferred && getGatewayMethod(id) === method && getChargeCurrency(id, options.currency) === options.currency
+    ),
+  ];
+  const attempts: ChargeAttempt[] = [];
+
+  for (const id of candidates) {
+    let gateway: PaymentGatewayAdapter;
+    try {
+      gateway = getGateway(id);
+    } catch (error: any) {
+      // Missing credentials; the gateway simply isn't set up on this deployment
+      continue;
+    }
+
+    const needsCustomer = options.buyerDataRequired?.[id] ?? gateway.requiresCustomer;
+    if (needsCustomer && !options.hasCustomer) {
+      continue;
+    }
+
+    const breaker = getBreaker(id);
+    if (!breaker.tryAcquire()) {
+      console.log(`Gateway ${id} circuit is open. Skipping.`);
+      continue;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await charge(gateway);
+      breaker.recordSuccess(Date.now() - startedAt);
+
+      if (attempts.length > 0) {
+        console.log(`Charge created on ${id} after failing over from ${attempts.map((a) => a.gateway).join(', ')}`);
+      }
+      return { gateway: id, charge: result };
+    } catch (error: any) {
+      if (!(error instanceof GatewayRequestError) || !error.retryable) {
+        breaker.release();
+        throw error;
+      }
+
+      breaker.recordFailure(Date.now() - startedAt, error.message);
+      attempts.push({ gateway: id, error: error.message });
+      console.error(`Charge failed on ${id}, trying the next gateway: ${error.message}`);
+    }
+  }
+
+  throw new NoGatewayAvailableError(attempts);
+}
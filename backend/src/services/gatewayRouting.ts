@@ -0,0 +1,123 @@
+import { PrismaClient, PaymentGateway, GatewayRoute } from '@prisma/client';
+import { PaymentMethod, getChargeCurrency, getGatewayMethod } from './paymentGateway';
+import { getPreferredGateway } from './gatewayHealth';
+import { ExchangeRateTable, loadExchangeRates } from './exchangeRates';
+import { currencyForCountry } from './money';
+
+const prisma = new PrismaClient();
+
+export interface CheckoutRoute {
+  gateway: PaymentGateway;
+  method: PaymentMethod;
+  routeId: string | null; // null when no rule matched and the Brazil default applied
+}
+
+export interface CheckoutQuote {
+  displayCurrency: string; // Currency the visitor sees prices in
+  route: CheckoutRoute | null; // null when the visitor can't pay online
+  chargeCurrency: string | null; // Currency the route's gateway is charged in
+}
+
+/**
+ * Active routing rules in the order they are tried
+ */
+export async function loadGatewayRoutes(): Promise<GatewayRoute[]> {
+  return prisma.gatewayRoute.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Whether a rule's country applies to the buyer
+ * "NON_BR" works as in ProductRegion: every detected country except Brazil.
+ */
+export function routeMatchesCountry(ruleCountry: string | null, countryCode: string | null): boolean {
+  if (ruleCountry === null) {
+    return true;
+  }
+  if (ruleCountry === 'NON_BR') {
+    return countryCode !== null && countryCode !== 'BR';
+  }
+  return ruleCountry === countryCode;
+}
+
+/**
+ * Gateway that charges a checkout in `currency` for a buyer in `countryCode`
+ * The first active rule that matches and whose gateway can charge wins. Without one,
+ * Brazilian BRL checkouts go to the preferred PIX gateway, as before routing rules existed.
+ * Returns null when the buyer can't pay online.
+ *
+ * @param options.routes - Rules from loadGatewayRoutes(), to resolve several prices with one query
+ * @param options.canCharge - Whether a gateway can take the charge; by default, only gateways
+ *   that charge in `currency` itself
+ */
+export async function resolveCheckoutRoute(
+  countryCode: string | null,
+  currency: string,
+  options: { routes?: GatewayRoute[]; canCharge?: (gateway: PaymentGateway) => boolean } = {}
+): Promise<CheckoutRoute | null> {
+  const rules = options.routes ?? await loadGatewayRoutes();
+  const normalizedCurrency = currency.toUpperCase();
+  const canCharge = options.canCharge
+    ?? ((gateway: PaymentGateway) => getChargeCurrency(gateway, normalizedCurrency) === normalizedCurrency);
+
+  const rule = rules.find((route) =>
+    routeMatchesCountry(route.countryCode, countryCode) &&
+    (route.currency === null || route.currency === normalizedCurrency) &&
+    canCharge(route.gateway)
+  );
+
+  if (rule) {
+    return { gateway: rule.gateway, method: getGatewayMethod(rule.gateway), routeId: rule.id };
+  }
+
+  if (countryCode === 'BR' && normalizedCurrency === 'BRL') {
+    const gateway = await getPreferredGateway();
+    if (canCharge(gateway)) {
+      return { gateway, method: getGatewayMethod(gateway), routeId: null };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Currency a visitor from `countryCode` sees a `priceCurrency` price in
+ * Their local currency when there's a rate for it, otherwise the price's own.
+ */
+export function displayCurrencyFor(
+  countryCode: string | null,
+  priceCurrency: string,
+  rates: ExchangeRateTable
+): string {
+  const visitorCurrency = currencyForCountry(countryCode);
+  return visitorCurrency && rates.getRate(priceCurrency, visitorCurrency)
+    ? visitorCurrency
+    : priceCurrency.toUpperCase();
+}
+
+/**
+ * How a visitor sees and pays for prices listed in `priceCurrency`
+ * Routing rules match on the display currency; gateways with a fixed settlement currency
+ * (PIX: BRL) are charged in it, which needs a rate from the price currency.
+ */
+export async function quoteCheckout(
+  countryCode: string | null,
+  priceCurrency: string,
+  context: { routes?: GatewayRoute[]; rates?: ExchangeRateTable } = {}
+): Promise<CheckoutQuote> {
+  const rates = context.rates ?? await loadExchangeRates();
+  const displayCurrency = displayCurrencyFor(countryCode, priceCurrency, rates);
+
+  const route = await resolveCheckoutRoute(countryCode, displayCurrency, {
+    routes: context.routes,
+    canCharge: (gateway) => rates.getRate(priceCurrency, getChargeCurrency(gateway, displayCurrency)) !== null,
+  });
+
+  return {
+    displayCurrency,
+    route,
+    chargeCurrency: route ? getChargeCurrency(route.gateway, displayCurrency) : null,
+  };
+}
@@ -0,0 +1,207 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Guest sessions whose purchases one claim can take over
+export const MAX_MERGED_GUESTS = 10;
+
+/**
+ * Thrown when a guest account can't be claimed; the message is safe to show to the buyer
+ */
+export class GuestClaimError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuestClaimError';
+  }
+}
+
+export interface ClaimGuestResult {
+  user: { id: string; email: string; role: string; createdAt: Date };
+  mergedGuests: number;
+  mergedOrders: number;
+}
+
+/**
+ * Turn a guest into a CUSTOMER with an email and password, keeping its id (and so its orders,
+ * entitlements and cart), after moving in everything the other guests in `mergeGuestIds` owned
+ * Guests already claimed or merged elsewhere are skipped. Throws GuestClaimError when the user
+ * is no longer a guest or the email is taken.
+ */
+export async function claimGuestAccount(
+  guestId: string,
+  email: string,
+  hashedPassword: string,
+  mergeGuestIds: string[] = []
+): Promise<ClaimGuestResult> {
+  const otherIds = [...new Set(mergeGuestIds)].filter((id) => id !== guestId);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Conditional on the role, so two claims of the same guest can't both succeed
+      const claimed = await tx.user.updateMany({
+        where: { id: guestId, role: 'GUEST' },
+        data: { email, password: hashedPassword, role: 'CUSTOMER' },
+      });
+      if (claimed.count === 0) {
+        throw new GuestClaimError('This account is not a guest account');
+      }
+
+      let mergedGuests = 0;
+      let mergedOrders = 0;
+
+      for (const otherId of otherIds) {
+        const moved = await mergeGuestInto(tx, otherId, guestId);
+        if (moved !== null) {
+          mergedGuests += 1;
+          mergedOrders += moved;
+        }
+      }
+
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: guestId },
+        select: { id: true, email: true, role: true, createdAt: true },
+      });
+
+      return { user, mergedGuests, mergedOrders };
+    });
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      throw new GuestClaimError('User with this email already exists');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move a guest's orders, coupon redemptions, cart, entitlements and buyer data to another user,
+ * then delete the guest
+ * Returns the number of orders moved, or null when `guestId` isn't a guest (anymore).
+ */
+async function mergeGuestInto(
+  tx: Prisma.TransactionClient,
+  guestId: string,
+  userId: string
+): Promise<number | null> {
+  const guest = await tx.user.findFirst({
+    where: { id: guestId, role: 'GUEST' },
+    select: { buyerData: true },
+  });
+  if (!guest) {
+    return null;
+  }
+
+  const orders = await tx.order.updateMany({
+    where: { userId: guestId },
+    data: { userId },
+  });
+
+  await tx.couponRedemption.updateMany({
+    where: { userId: guestId },
+    data: { userId },
+  });
+
+  await tx.orderEvent.updateMany({
+    where: { actorUserId: guestId },
+    data: { actorUserId: userId },
+  });
+
+  await tx.checkoutRequest.updateMany({
+    where: { userId: guestId },
+    data: { userId },
+  });
+
+  // Cart: one row per price, so items both carts have stay as the user's
+  const cartPriceIds = (await tx.cartItem.findMany({
+    where: { userId },
+    select: { priceId: true },
+  })).map((item) => item.priceId);
+
+  await tx.cartItem.deleteMany({
+    where: { userId: guestId, priceId: { in: cartPriceIds } },
+  });
+  await tx.cartItem.updateMany({
+    where: { userId: guestId },
+    data: { userId },
+  });
+
+  await mergeEntitlements(tx, guestId, userId);
+
+  const user = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { buyerData: true },
+  });
+  if (!user.buyerData && guest.buyerData) {
+    await tx.user.update({
+      where: { id: userId },
+      data: { buyerData: guest.buyerData },
+    });
+  }
+
+  // Conditional again: if the guest was claimed meanwhile, undo the whole merge
+  const deleted = await tx.user.deleteMany({
+    where: { id: guestId, role: 'GUEST' },
+  });
+  if (deleted.count === 0) {
+    throw new GuestClaimError('One of the guest sessions changed while merging; try again');
+  }
+
+  console.log(`Merged guest ${guestId} into user ${userId} (${orders.count} order(s))`);
+  return orders.count;
+}
+
+/**
+ * Move a guest's entitlements to a user
+ * Entitlements are unique per price, so when both have one, the time left on the guest's is
+ * stacked on the user's, the way a renewal paid before expiry would have been.
+ */
+async function mergeEntitlements(tx: Prisma.TransactionClient, guestId: string, userId: string): Promise<void> {
+  const now = new Date();
+  const entitlements = await tx.entitlement.findMany({
+    where: { userId: guestId },
+  });
+
+  for (const entitlement of entitlements) {
+    const existing = entitlement.priceId
+      ? await tx.entitlement.findUnique({
+          where: { userId_priceId: { userId, priceId: entitlement.priceId } },
+        })
+      : null;
+
+    if (!existing) {
+      await tx.entitlement.update({
+        where: { id: entitlement.id },
+        data: { userId },
+      });
+      continue;
+    }
+
+    const isRunning = (row: typeof entitlement) => row.status === 'ACTIVE' && row.expiresAt > now;
+
+    if (isRunning(entitlement)) {
+      const remainingMs = entitlement.expiresAt.getTime() - Math.max(now.getTime(), entitlement.startsAt.getTime());
+      const periodStart = isRunning(existing) ? existing.expiresAt : now;
+
+      await tx.entitlement.update({
+        where: { id: existing.id },
+        data: {
+          status: 'ACTIVE',
+          startsAt: isRunning(existing) ? existing.startsAt : entitlement.startsAt,
+          expiresAt: new Date(periodStart.getTime() + remainingMs),
+          telegramChatId: existing.telegramChatId ?? entitlement.telegramChatId,
+          telegramUserId: existing.telegramUserId ?? entitlement.telegramUserId,
+          reminderSentAt: null,
+          expiredAt: null,
+        },
+      });
+    }
+
+    // Refunds of the guest's purchases now take their days back from the user's entitlement
+    await tx.orderItem.updateMany({
+      where: { entitlementId: entitlement.id },
+      data: { entitlementId: existing.id },
+    });
+    await tx.entitlement.delete({
+      where: { id: entitlement.id },
+    });
+  }
+}
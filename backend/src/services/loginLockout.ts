@@ -0,0 +1,48 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Wrong passwords in a row that lock an account, and for how long. This works per account, on top
+// of the per-IP authLimiter, so guessing from many addresses is slowed down too.
+const LOGIN_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '') || 5;
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '') || 15;
+
+/**
+ * When the account's lockout ends, or null if it isn't locked
+ */
+export function lockedUntil(user: { lockedUntil: Date | null }): Date | null {
+  return user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null;
+}
+
+/**
+ * Count a wrong password; the one that reaches the threshold locks the account and starts the
+ * count over. Returns when the new lockout ends, or null.
+ */
+export async function recordFailedLogin(userId: string): Promise<Date | null> {
+  const { failedLoginCount } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+  if (failedLoginCount < LOGIN_LOCKOUT_THRESHOLD) {
+    return null;
+  }
+
+  const until = new Date(Date.now() + LOGIN_LOCKOUT_MINUTES * 60 * 1000);
+  // Conditional on the count, so concurrent failures lock once
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, failedLoginCount: { gte: LOGIN_LOCKOUT_THRESHOLD } },
+    data: { failedLoginCount: 0, lockedUntil: until },
+  });
+  if (count > 0) {
+    console.warn(`🔒 User ${userId} locked until ${until.toISOString()} after ${failedLoginCount} failed logins`);
+  }
+  return until;
+}
+
+export async function clearFailedLogins(userId: string): Promise<void> {
+  await prisma.user.updateMany({
+    where: { id: userId, OR: [{ failedLoginCount: { gt: 0 } }, { lockedUntil: { not: null } }] },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { sendSmtp } from './smtp';
+
+/**
+ * Outgoing email
+ * The transport is picked by MAIL_TRANSPORT; adding one means implementing MailTransport and
+ * registering a factory below.
+ */
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Vip Acess <no-reply@localhost>';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly id: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Prints messages to the server log instead of sending them (local development)
+ */
+class ConsoleTransport implements MailTransport {
+  readonly id = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message to a text file in MAIL_FILE_DIR, for local testing of links in emails
+ */
+class FileTransport implements MailTransport {
+  readonly id = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${Date.now()}-${crypto.randomUUID()}.txt`);
+    const content = `From: ${MAIL_FROM}\nTo: ${message.to}\nSubject: ${message.subject}\n` +
+      `Date: ${new Date().toUTCString()}\n\n${message.text}\n`;
+    await fs.writeFile(file, content, 'utf8');
+    console.log(`📧 Mail to ${message.to} written to ${file}`);
+  }
+}
+
+/**
+ * Sends through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD)
+ */
+class SmtpTransport implements MailTransport {
+  readonly id = 'smtp';
+
+  constructor(private readonly host: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const port = parseInt(process.env.SMTP_PORT || '') || 587;
+    await sendSmtp(
+      {
+        host: this.host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD,
+        timeoutMs: (parseInt(process.env.SMTP_TIMEOUT_SECONDS || '') || 30) * 1000,
+      },
+      envelopeAddress(MAIL_FROM),
+      message.to,
+      formatMessage(message)
+    );
+  }
+}
+
+const transportFactories: Record<string, () => MailTransport> = {
+  console: () => new ConsoleTransport(),
+  file: () => new FileTransport(process.env.MAIL_FILE_DIR || 'mail'),
+  smtp: () => {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+    }
+    return new SmtpTransport(process.env.SMTP_HOST);
+  },
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Transport selected by MAIL_TRANSPORT (defaults to console)
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const id = process.env.MAIL_TRANSPORT || 'console';
+    const factory = transportFactories[id];
+    if (!factory) {
+      throw new Error(`Unknown MAIL_TRANSPORT: ${id}`);
+    }
+    transport = factory();
+  }
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+/**
+ * RFC 5322 message: plain text, base64 body so any character and line length goes through
+ */
+function formatMessage(message: MailMessage): string {
+  const headers = [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${envelopeAddress(MAIL_FROM).split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}(?=.)/g, '$&\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+// Non-ASCII header values as RFC 2047 encoded words
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// "Name <address>" -> "address"
+function envelopeAddress(from: string): string {
+  const match = from.match(/<([^>]+)>/);
+  return (match ? match[1] : from).trim();
+}
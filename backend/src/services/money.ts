@@ -0,0 +1,81 @@
+/**
+ * Money helpers
+ * Amounts are integers in the currency's minor units ("cents"); most currencies have two
+ * decimals, but e.g. JPY has none, so the exponent always comes from the currency code.
+ */
+
+const exponents = new Map<string, number>();
+
+// Currency visitors see prices in, by the country geolocation detects
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  BR: 'BRL',
+  US: 'USD',
+  CA: 'CAD',
+  MX: 'MXN',
+  AR: 'ARS',
+  CL: 'CLP',
+  CO: 'COP',
+  PE: 'PEN',
+  UY: 'UYU',
+  GB: 'GBP',
+  CH: 'CHF',
+  AU: 'AUD',
+  JP: 'JPY',
+};
+
+// Eurozone members
+for (const country of [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK',
+]) {
+  COUNTRY_CURRENCIES[country] = 'EUR';
+}
+
+/**
+ * Number of decimals of a currency (2 for BRL/USD/EUR, 0 for JPY)
+ */
+export function currencyExponent(currency: string): number {
+  const code = currency.toUpperCase();
+  const cached = exponents.get(code);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let exponent = 2; // Unknown codes
+  try {
+    exponent = new Intl.NumberFormat('en', { style: 'currency', currency: code })
+      .resolvedOptions().maximumFractionDigits ?? 2;
+  } catch (error) {
+    // Keep the default
+  }
+  exponents.set(code, exponent);
+  return exponent;
+}
+
+/**
+ * Convert a decimal amount (e.g. 19.9) to minor units (1990)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * Math.pow(10, currencyExponent(currency)));
+}
+
+export function toMajorUnits(amountInCents: number, currency: string): number {
+  return amountInCents / Math.pow(10, currencyExponent(currency));
+}
+
+/**
+ * Format minor units as a currency string, e.g. "R$ 19,90"
+ */
+export function formatMoney(amountInCents: number, currency: string, locale: string = 'pt-BR'): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(toMajorUnits(amountInCents, currency));
+}
+
+/**
+ * Local currency of a country, or null when we don't price in it
+ */
+export function currencyForCountry(countryCode: string | null | undefined): string | null {
+  return (countryCode && COUNTRY_CURRENCIES[countryCode.toUpperCase()]) || null;
+}
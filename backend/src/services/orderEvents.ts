@@ -0,0 +1,47 @@
+import { EventEmitter } from 'events';
+import { Order, OrderStatus } from '@prisma/client';
+
+/**
+ * Status change pushed to buyers watching an order (GET /api/payments/order/:orderId/events)
+ */
+export interface OrderStatusEvent {
+  orderId: string;
+  status: OrderStatus;
+  previousStatus: OrderStatus | null; // null for the snapshot sent when a stream opens
+  expiresAt: string | null; // When the current charge lapses
+  updatedAt: string;
+}
+
+// In-process: a status change only reaches streams held by the server that made it
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open payment page
+
+export function toOrderStatusEvent(order: Order, previousStatus: OrderStatus | null = null): OrderStatusEvent {
+  return {
+    orderId: order.id,
+    status: order.status,
+    previousStatus,
+    expiresAt: order.expiresAt?.toISOString() ?? null,
+    updatedAt: order.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Notify the order's listeners of a committed status change
+ */
+export function publishOrderStatus(order: Order, previousStatus: OrderStatus): void {
+  emitter.emit(`order:${order.id}`, toOrderStatusEvent(order, previousStatus));
+}
+
+/**
+ * Listen to an order's status changes; returns the function that stops listening
+ */
+export function subscribeOrderStatus(
+  orderId: string,
+  listener: (event: OrderStatusEvent) => void
+): () => void {
+  emitter.on(`order:${orderId}`, listener);
+  return () => {
+    emitter.off(`order:${orderId}`, listener);
+  };
+}
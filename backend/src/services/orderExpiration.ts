@@ -1,31 +1,49 @@
 import { PrismaClient } from '@prisma/client';
+import { transitionOrder } from './orderFulfillment';
+import { CHARGE_EXPIRY_MINUTES } from './paymentGateway';
 
 const prisma = new PrismaClient();
 
 /**
- * Expire pending orders that are older than 30 minutes
+ * Expire pending orders whose gateway charge has lapsed
+ * Uses the expiry the gateway reported for the charge (Order.expiresAt); orders without one
+ * get the default CHARGE_EXPIRY_MINUTES from their creation.
  */
 export async function expirePendingOrders() {
   try {
-    const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
+    const now = new Date();
 
-    const result = await prisma.order.updateMany({
+    const orders = await prisma.order.findMany({
       where: {
         status: 'PENDING',
-        createdAt: {
-          lt: thirtyMinutesAgo,
-        },
-      },
-      data: {
-        status: 'FAILED',
+        OR: [
+          { expiresAt: { lt: now } },
+          {
+            expiresAt: null,
+            createdAt: { lt: new Date(now.getTime() - CHARGE_EXPIRY_MINUTES * 60 * 1000) },
+          },
+        ],
       },
     });
 
-    if (result.count > 0) {
-      console.log(`✓ Expired ${result.count} pending order(s) older than 30 minutes`);
+    let expired = 0;
+    for (const order of orders) {
+      const result = await transitionOrder(order, ['PENDING'], { status: 'FAILED' }, {
+        source: 'EXPIRATION',
+        note: order.expiresAt
+          ? `Charge expired at ${order.expiresAt.toISOString()}`
+          : `Pending for more than ${CHARGE_EXPIRY_MINUTES} minutes`,
+      });
+      if (result.changed) {
+        expired += 1;
+      }
+    }
+
+    if (expired > 0) {
+      console.log(`✓ Expired ${expired} pending order(s) whose charge lapsed`);
     }
 
-    return result.count;
+    return expired;
   } catch (error) {
     console.error('Error expiring pending orders:', error);
     return 0;
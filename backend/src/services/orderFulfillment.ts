@@ -0,0 +1,289 @@
+import { PrismaClient, Prisma, Order, OrderStatus, OrderEventSource } from '@prisma/client';
+import { NormalizedPaymentStatus } from './paymentGateway';
+import { issueTelegramInvites, revokeTelegramInvites } from './telegramDelivery';
+import { expireEntitlements, grantEntitlements, revokeEntitlementPeriods } from './entitlements';
+import { publishOrderStatus } from './orderEvents';
+
+const prisma = new PrismaClient();
+
+export interface ApplyPaymentStatusResult {
+  order: Order;
+  previousStatus: OrderStatus;
+  changed: boolean;
+}
+
+export interface ApplyPaymentStatusOptions {
+  /** Allow PAID to complete an order that was already marked FAILED (e.g. expired before the webhook arrived) */
+  reviveFailed?: boolean;
+}
+
+/**
+ * Who or what caused a status transition, recorded on the OrderEvent row
+ */
+export interface OrderEventContext {
+  source: OrderEventSource;
+  actorUserId?: string;
+  gatewayStatus?: string;
+  endToEndId?: string;
+  paidAt?: string | Date;
+  payload?: unknown;
+  note?: string;
+}
+
+/**
+ * Order status each normalized gateway status leads to, and the statuses it may leave from.
+ * PAID can also resolve a dispute in the merchant's favour; refunds and MED disputes
+ * can arrive after completion and revoke access.
+ */
+const PAYMENT_TRANSITIONS: Record<NormalizedPaymentStatus, { to: OrderStatus; from: OrderStatus[] } | null> = {
+  PENDING: null,
+  PAID: { to: 'COMPLETED', from: ['PENDING', 'DISPUTED'] },
+  FAILED: { to: 'FAILED', from: ['PENDING'] },
+  REFUNDED: { to: 'REFUNDED', from: ['PENDING', 'COMPLETED', 'DISPUTED'] },
+  DISPUTED: { to: 'DISPUTED', from: ['PENDING', 'COMPLETED'] },
+};
+
+/**
+ * Apply a normalized gateway status to an order
+ * Transitions follow PAYMENT_TRANSITIONS; anything else is ignored so repeated
+ * or out-of-order notifications can't move an order twice.
+ * COMPLETED releases every item's deliverable, REFUNDED/DISPUTED clear them.
+ */
+export async function applyPaymentStatus(
+  orderId: string,
+  status: NormalizedPaymentStatus,
+  context: OrderEventContext,
+  options: ApplyPaymentStatusOptions = {}
+): Promise<ApplyPaymentStatusResult | null> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  const transition = PAYMENT_TRANSITIONS[status];
+  if (!transition) {
+    return { order, previousStatus: order.status, changed: false };
+  }
+
+  const from: OrderStatus[] = status === 'PAID' && options.reviveFailed
+    ? [...transition.from, 'FAILED']
+    : transition.from;
+
+  if (!from.includes(order.status)) {
+    console.log(`Order ${order.id} is ${order.status}. Ignoring gateway status ${status}.`);
+    return { order, previousStatus: order.status, changed: false };
+  }
+
+  if (transition.to === 'COMPLETED') {
+    const updated = await transitionOrder(order, from, {
+      status: 'COMPLETED',
+      paidAt: order.paidAt ?? parseDate(context.paidAt) ?? new Date(),
+    }, context);
+
+    if (updated.changed) {
+      console.log(`Order ${order.id} completed via ${order.gateway}. Deliverables released.`);
+    }
+    return updated;
+  }
+
+  if (transition.to === 'REFUNDED' || transition.to === 'DISPUTED') {
+    const updated = await transitionOrder(order, from, { status: transition.to }, context);
+
+    if (updated.changed) {
+      console.log(`Order ${order.id} ${transition.to.toLowerCase()} on ${order.gateway}. Access revoked.`);
+    }
+    return updated;
+  }
+
+  const updated = await transitionOrder(order, from, { status: transition.to }, context);
+
+  if (updated.changed) {
+    console.log(`Order ${order.id} failed on ${order.gateway} (status: ${status}).`);
+  }
+  return updated;
+}
+
+/**
+ * Whether a gateway `status` would still move an order that is `orderStatus`
+ * A notification already handled once can matter again after the order changed, e.g. a payment
+ * confirmed anew when a dispute is resolved in the merchant's favour.
+ */
+export function paymentStatusApplies(orderStatus: OrderStatus, status: NormalizedPaymentStatus): boolean {
+  const transition = PAYMENT_TRANSITIONS[status];
+  return !!transition && transition.from.includes(orderStatus);
+}
+
+/**
+ * Mark an order as refunded after an admin-initiated refund and revoke its access
+ */
+export async function refundOrder(
+  order: Order,
+  actorUserId: string,
+  note?: string
+): Promise<ApplyPaymentStatusResult> {
+  return transitionOrder(order, ['COMPLETED', 'DISPUTED'], { status: 'REFUNDED' }, {
+    source: 'ADMIN',
+    actorUserId,
+    note,
+  });
+}
+
+/**
+ * Manually set an order's status from the admin panel
+ * Completing an order releases its deliverables like a payment would;
+ * failing it revokes them.
+ */
+export async function setOrderStatusManually(
+  orderId: string,
+  status: 'COMPLETED' | 'FAILED',
+  actorUserId: string,
+  note?: string
+): Promise<ApplyPaymentStatusResult | null> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  if (order.status === status) {
+    return { order, previousStatus: order.status, changed: false };
+  }
+
+  const data = status === 'COMPLETED'
+    ? { status, paidAt: order.paidAt ?? new Date() }
+    : { status };
+
+  return transitionOrder(order, [order.status], data, {
+    source: 'ADMIN',
+    actorUserId,
+    note,
+  });
+}
+
+/**
+ * Conditional update so two concurrent notifications can't both move the same order
+ * The OrderEvent row and the items' download links are written in the same transaction
+ * as the status change: COMPLETED copies each price's delivery link onto its item, any other
+ * status clears them and revokes outstanding delivery tokens.
+ * Subscription items extend their entitlement on completion and give the days back when a
+ * completed order is reversed.
+ * Telegram invites are created or revoked once the transaction has committed, and the change
+ * is then pushed to the order's event streams.
+ */
+export async function transitionOrder(
+  order: Order,
+  from: OrderStatus[],
+  data: Prisma.OrderUpdateManyMutationInput & { status: OrderStatus },
+  context: OrderEventContext
+): Promise<ApplyPaymentStatusResult> {
+  let shortenedEntitlements: string[] = [];
+
+  const changed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, status: { in: from } },
+      data,
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.orderEvent.create({
+      data: {
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: data.status,
+        source: context.source,
+        actorUserId: context.actorUserId,
+        gatewayStatus: context.gatewayStatus,
+        endToEndId: context.endToEndId,
+        gatewayPaidAt: parseDate(context.paidAt),
+        payload: toJson(context.payload),
+        note: context.note,
+      },
+    });
+
+    if (data.status === 'COMPLETED') {
+      const items = await tx.orderItem.findMany({
+        where: { orderId: order.id },
+        include: { price: true },
+      });
+
+      for (const item of items) {
+        if (!item.price) {
+          console.error(`Order item ${item.id} of order ${order.id} has no price. Cannot provide download link.`);
+        }
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: { downloadLink: item.price?.deliveryLink ?? null },
+        });
+      }
+
+      await grantEntitlements(tx, order);
+    } else {
+      await tx.orderItem.updateMany({
+        where: { orderId: order.id },
+        data: { downloadLink: null },
+      });
+      await tx.deliveryToken.updateMany({
+        where: { orderId: order.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (order.status === 'COMPLETED') {
+        shortenedEntitlements = await revokeEntitlementPeriods(tx, order.id);
+      }
+    }
+
+    return true;
+  });
+
+  if (changed) {
+    await syncTelegramInvites(order, data.status);
+  }
+
+  if (shortenedEntitlements.length > 0) {
+    await expireEntitlements(shortenedEntitlements);
+  }
+
+  const current = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+
+  if (changed) {
+    publishOrderStatus(current, order.status);
+  }
+
+  return { order: current, previousStatus: order.status, changed };
+}
+
+/**
+ * Bot API failures are logged rather than thrown: the status change already happened,
+ * and an admin can re-issue the invite from the order panel.
+ */
+async function syncTelegramInvites(order: Order, status: OrderStatus): Promise<void> {
+  try {
+    if (status === 'COMPLETED') {
+      await issueTelegramInvites(order.id);
+    } else {
+      await revokeTelegramInvites(order.id);
+    }
+  } catch (error: any) {
+    console.error(`Failed to sync Telegram invite for order ${order.id}:`, error.message);
+  }
+}
+
+function parseDate(value: string | Date | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  return value === undefined ? undefined : (value as Prisma.InputJsonValue);
+}
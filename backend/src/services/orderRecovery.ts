@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { hashBuyerEmail } from './buyerData';
+import { DeliveryAccess, getOrIssueDeliveryAccess } from './deliveryTokens';
+import { sendMail } from './mailer';
+import { isTelegramInviteUsable } from './telegramDelivery';
+import { createSession, IssuedTokens, SessionContext } from './sessions';
+import { toMinorUnits } from './money';
+
+const prisma = new PrismaClient();
+
+const CODE_TTL_MS = 15 * 60 * 1000;
+const CODE_MAX_ATTEMPTS = 5;
+// Codes an email can be sent per hour, and the wait between two of them
+const CODES_PER_HOUR = 5;
+const CODE_RESEND_MS = 60 * 1000;
+
+const codeSecret = process.env.JWT_SECRET || 'default-secret';
+
+const recoveryInclude = {
+  user: { select: { id: true, email: true, role: true } },
+  items: {
+    include: { price: { include: { product: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.OrderInclude;
+
+type RecoverableOrder = Prisma.OrderGetPayload<{ include: typeof recoveryInclude }>;
+
+export interface RecoveredOrder {
+  id: string;
+  status: string;
+  currency: string;
+  totalInCents: number;
+  paidAt: Date | null;
+  createdAt: Date;
+  items: Array<{
+    id: string;
+    productName: string | null;
+    category: string | null;
+    delivery: DeliveryAccess | null;
+    telegramInviteLink: string | null;
+  }>;
+}
+
+export interface RecoveryResult {
+  orders: RecoveredOrder[];
+  /** Guest session that owns the most recent order, so the buyer can see it on this device again */
+  session: (IssuedTokens & { userId: string }) | null;
+  /** Some orders belong to a registered account: the buyer should log in to see them */
+  hasAccount: boolean;
+}
+
+/**
+ * Completed orders paid with a PIX end-to-end ID (printed on the buyer's bank receipt)
+ */
+export async function findOrdersByEndToEndId(endToEndId: string): Promise<RecoverableOrder[]> {
+  const events = await prisma.orderEvent.findMany({
+    where: { endToEndId: endToEndId.trim() },
+    select: { orderId: true },
+  });
+
+  return prisma.order.findMany({
+    where: { id: { in: events.map((event) => event.orderId) }, status: 'COMPLETED' },
+    include: recoveryInclude,
+  });
+}
+
+/**
+ * A completed order, when `amount` (as charged, e.g. "19,90") matches its total
+ */
+export async function findOrderByIdAndAmount(orderId: string, amount: string): Promise<RecoverableOrder[]> {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId.trim(), status: 'COMPLETED' },
+    include: recoveryInclude,
+  });
+
+  const parsed = parseAmount(amount);
+  if (!order || parsed === null) {
+    return [];
+  }
+
+  return toMinorUnits(parsed, order.currency) === orderTotal(order) ? [order] : [];
+}
+
+/**
+ * Email a one-time code to `email` if some completed order was paid with it
+ * Says nothing either way, so the endpoint can't be used to learn who bought here.
+ */
+export async function sendRecoveryCode(email: string): Promise<void> {
+  const emailHash = hashBuyerEmail(email);
+
+  const hasOrders = await prisma.order.count({
+    where: { buyerEmailHash: emailHash, status: 'COMPLETED' },
+  });
+  if (!hasOrders) {
+    return;
+  }
+
+  const now = Date.now();
+  const recent = await prisma.recoveryCode.findMany({
+    where: { emailHash, createdAt: { gt: new Date(now - 60 * 60 * 1000) } },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (recent.length >= CODES_PER_HOUR || (recent[0] && recent[0].createdAt.getTime() > now - CODE_RESEND_MS)) {
+    console.warn('Recovery code not sent: too many requests for this email');
+    return;
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  // Only the newest code works
+  await prisma.recoveryCode.updateMany({
+    where: { emailHash, usedAt: null },
+    data: { usedAt: new Date(now) },
+  });
+  await prisma.recoveryCode.create({
+    data: {
+      emailHash,
+      codeHash: hashCode(emailHash, code),
+      expiresAt: new Date(now + CODE_TTL_MS),
+    },
+  });
+
+  await sendMail({
+    to: email.trim(),
+    subject: 'Your order recovery code',
+    text: `Your code is ${code}. It expires in ${CODE_TTL_MS / 60000} minutes.\n\n` +
+      'If you did not ask to recover your orders, you can ignore this email.',
+  });
+}
+
+/**
+ * Completed orders paid with `email`, when `code` is the one last sent to it
+ * A code works once, and stops working after too many wrong attempts.
+ */
+export async function findOrdersByEmailCode(email: string, code: string): Promise<RecoverableOrder[]> {
+  const emailHash = hashBuyerEmail(email);
+
+  const recoveryCode = await prisma.recoveryCode.findFirst({
+    where: { emailHash, usedAt: null, expiresAt: { gt: new Date() }, attempts: { lt: CODE_MAX_ATTEMPTS } },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!recoveryCode) {
+    return [];
+  }
+
+  const expected = Buffer.from(recoveryCode.codeHash);
+  const given = Buffer.from(hashCode(emailHash, code.trim()));
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    await prisma.recoveryCode.update({
+      where: { id: recoveryCode.id },
+      data: { attempts: { increment: 1 } },
+    });
+    return [];
+  }
+
+  // Conditional, so the same code can't be redeemed twice concurrently
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { id: recoveryCode.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) {
+    return [];
+  }
+
+  return prisma.order.findMany({
+    where: { buyerEmailHash: emailHash, status: 'COMPLETED' },
+    include: recoveryInclude,
+  });
+}
+
+/**
+ * Give a buyer who proved they paid for `orders` their deliverables back
+ * Delivery goes through signed /api/delivery links as on the success page. A new session is
+ * opened for the guest of the latest order; registered accounts are never handed out this way.
+ */
+export async function buildRecoveryResult(
+  orders: RecoverableOrder[],
+  context: SessionContext
+): Promise<RecoveryResult> {
+  const sorted = [...orders].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const recovered: RecoveredOrder[] = [];
+  for (const order of sorted) {
+    const items = [];
+    for (const item of order.items) {
+      items.push({
+        id: item.id,
+        productName: item.price?.product.name ?? null,
+        category: item.price?.category ?? null,
+        delivery: item.downloadLink ? await getOrIssueDeliveryAccess(order.id, item.id) : null,
+        telegramInviteLink: isTelegramInviteUsable(item) ? item.telegramInviteLink : null,
+      });
+    }
+
+    recovered.push({
+      id: order.id,
+      status: order.status,
+      currency: order.currency,
+      totalInCents: orderTotal(order),
+      paidAt: order.paidAt,
+      createdAt: order.createdAt,
+      items,
+    });
+  }
+
+  const guestOwner = sorted.find((order) => order.user.role === 'GUEST')?.user;
+
+  return {
+    orders: recovered,
+    session: guestOwner
+      ? { ...await createSession(guestOwner, context), userId: guestOwner.id }
+      : null,
+    hasAccount: sorted.some((order) => order.user.role !== 'GUEST'),
+  };
+}
+
+function orderTotal(order: RecoverableOrder): number {
+  return order.items.reduce((total, item) => total + item.amountInCents, 0) - order.discountInCents;
+}
+
+/**
+ * Decimal amount as a buyer types it: "19,90", "R$ 19.90", "1.234,56"
+ * The last separator followed by one or two digits is the decimal one.
+ */
+function parseAmount(value: string): number | null {
+  const digits = value.replace(/[^\d.,]/g, '');
+  const decimal = digits.match(/^(.*?)[.,](\d{1,2})$/);
+  const normalized = decimal
+    ? `${decimal[1].replace(/[.,]/g, '')}.${decimal[2]}`
+    : digits.replace(/[.,]/g, '');
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? null : amount;
+}
+
+function hashCode(emailHash: string, code: string): string {
+  return crypto.createHmac('sha256', codeSecret).update(`${emailHash}:${code}`).digest('hex');
+}
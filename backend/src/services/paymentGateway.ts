@@ -0,0 +1,268 @@
+import { PaymentGateway } from '@prisma/client';
+import { IncomingHttpHeaders } from 'http';
+import crypto from 'crypto';
+import { PushinPayGateway, getPushinPayService } from './pushinpay';
+import { SyncPayGateway, getSyncPayService } from './syncpay';
+import { StripeGateway, getStripeService } from './stripe';
+
+/**
+ * Gateway-agnostic payment status.
+ * Every adapter maps its provider-specific statuses onto these values.
+ */
+export type NormalizedPaymentStatus =
+  | 'PENDING'
+  | 'PAID'
+  | 'FAILED'
+  | 'REFUNDED'
+  | 'DISPUTED';
+
+/**
+ * How the buyer pays: a PIX QR code shown on our payment page,
+ * or a card form on the gateway's hosted checkout page.
+ */
+export type PaymentMethod = 'PIX' | 'CARD';
+
+// Lifetime requested for new charges; the gateway's reported expiry wins when it sends one
+export const CHARGE_EXPIRY_MINUTES = 30;
+
+export interface ChargeCustomer {
+  name: string;
+  cpf: string;
+  email: string;
+  phone: string;
+}
+
+export interface CreateChargeParams {
+  orderId: string;
+  amountInCents: number;
+  currency: string; // ISO 4217, e.g. "BRL"
+  description?: string;
+  webhookUrl: string;
+  /** Where hosted checkouts send the buyer after paying or giving up */
+  returnUrl?: string;
+  cancelUrl?: string;
+  expiresInMinutes?: number;
+  customer?: ChargeCustomer;
+}
+
+export interface ChargeResult {
+  transactionId: string;
+  pixCode?: string;
+  pixQrCodeBase64?: string;
+  checkoutUrl?: string; // Hosted checkout page, for CARD gateways
+  amountInCents: number;
+  status: NormalizedPaymentStatus;
+  expiresAt?: string; // When the gateway lets the charge lapse
+  message?: string;
+}
+
+export interface GatewayTransactionStatus {
+  transactionId: string;
+  status: NormalizedPaymentStatus;
+  rawStatus: string;
+  endToEndId?: string;
+  paidAt?: string;
+  raw: unknown;
+}
+
+export interface RefundResult {
+  refundId?: string;
+  status: NormalizedPaymentStatus;
+  raw: unknown;
+}
+
+export interface GatewayWebhookEvent {
+  /** Provider event id used for replay protection */
+  eventId: string;
+  transactionId: string;
+  status: NormalizedPaymentStatus;
+  rawStatus: string;
+  endToEndId?: string;
+  paidAt?: string;
+}
+
+export interface WebhookRequest {
+  payload: any;
+  rawBody?: Buffer;
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * Thrown when a webhook delivery can't be proven to come from the gateway
+ */
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+/**
+ * Thrown when a gateway request fails
+ * Timeouts, network errors, 5xx, rate limiting and rejected credentials are retryable: the
+ * gateway itself is the problem, so the charge can be tried on another one. Anything else
+ * (e.g. a 4xx validation error) would fail the same way everywhere.
+ */
+export class GatewayRequestError extends Error {
+  readonly httpStatus?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, httpStatus?: number, retryable?: boolean) {
+    super(message);
+    this.name = 'GatewayRequestError';
+    this.httpStatus = httpStatus;
+    this.retryable = retryable ?? (
+      httpStatus === undefined || httpStatus >= 500 || [401, 403, 408, 429].includes(httpStatus)
+    );
+  }
+}
+
+/**
+ * Common contract every payment service provider adapter implements.
+ * Routes and jobs only talk to gateways through this interface.
+ */
+export interface PaymentGatewayAdapter {
+  readonly id: PaymentGateway;
+  /** Whether createCharge needs payer information (name, CPF, email, phone) */
+  readonly requiresCustomer: boolean;
+  /** Minimum time between status queries for the same transaction */
+  readonly minStatusPollIntervalMs: number;
+
+  createCharge(params: CreateChargeParams): Promise<ChargeResult>;
+  getTransactionStatus(transactionId: string): Promise<GatewayTransactionStatus>;
+  parseWebhook(payload: any): GatewayWebhookEvent;
+  /**
+   * Prove a parsed webhook is authentic and return the event to trust.
+   * Uses a signature header when the PSP supports one, otherwise re-fetches the transaction.
+   * Throws WebhookVerificationError when the check fails.
+   */
+  verifyWebhook(event: GatewayWebhookEvent, request: WebhookRequest): Promise<GatewayWebhookEvent>;
+  normalizeStatus(rawStatus: string): NormalizedPaymentStatus;
+  /** Refund a paid charge. Only implemented by gateways that expose a refund API. */
+  refundCharge?(transactionId: string, amountInCents?: number): Promise<RefundResult>;
+}
+
+/**
+ * Verify a hex HMAC-SHA256 signature of the raw request body
+ */
+export function isValidHmacSignature(
+  rawBody: Buffer | undefined,
+  signature: string | string[] | undefined,
+  secret: string
+): boolean {
+  if (!rawBody || typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  const received = signature.replace(/^sha256=/, '');
+
+  if (received.length !== expected.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+/**
+ * Verify a webhook by asking the gateway for the transaction's real status.
+ * The webhook body is only used to know which transaction to look up.
+ */
+export async function verifyByRefetch(
+  gateway: PaymentGatewayAdapter,
+  event: GatewayWebhookEvent
+): Promise<GatewayWebhookEvent> {
+  let transaction: GatewayTransactionStatus;
+  try {
+    transaction = await gateway.getTransactionStatus(event.transactionId);
+  } catch (error: any) {
+    throw new WebhookVerificationError(`Could not re-fetch transaction ${event.transactionId}: ${error.message}`);
+  }
+
+  if (transaction.transactionId.toLowerCase() !== event.transactionId.toLowerCase()) {
+    throw new WebhookVerificationError(`Gateway returned a different transaction for ${event.transactionId}`);
+  }
+
+  return {
+    ...event,
+    status: transaction.status,
+    rawStatus: transaction.rawStatus,
+    endToEndId: transaction.endToEndId ?? event.endToEndId,
+    paidAt: transaction.paidAt ?? event.paidAt,
+  };
+}
+
+interface GatewayRegistration {
+  method: PaymentMethod;
+  /** Currency every charge is made in; null when the gateway charges in the checkout's currency */
+  settlementCurrency: string | null;
+  create: () => PaymentGatewayAdapter;
+}
+
+/**
+ * Gateway registry
+ * Adding a new PSP means adding a PaymentGateway enum value and one entry here.
+ * Factories are lazy because each service validates its env vars on creation.
+ */
+const gatewayRegistry: Record<PaymentGateway, GatewayRegistration> = {
+  PUSHINPAY: {
+    method: 'PIX',
+    settlementCurrency: 'BRL',
+    create: () => new PushinPayGateway(getPushinPayService()),
+  },
+  SYNCPAY: {
+    method: 'PIX',
+    settlementCurrency: 'BRL',
+    create: () => new SyncPayGateway(getSyncPayService()),
+  },
+  STRIPE: {
+    method: 'CARD',
+    settlementCurrency: null,
+    create: () => new StripeGateway(getStripeService()),
+  },
+};
+
+const gatewayInstances = new Map<PaymentGateway, PaymentGatewayAdapter>();
+
+export function getGateway(id: PaymentGateway): PaymentGatewayAdapter {
+  let gateway = gatewayInstances.get(id);
+  if (!gateway) {
+    gateway = gatewayRegistry[id].create();
+    gatewayInstances.set(id, gateway);
+  }
+  return gateway;
+}
+
+export function getGatewayMethod(id: PaymentGateway): PaymentMethod {
+  return gatewayRegistry[id].method;
+}
+
+/**
+ * Currency a charge on this gateway is made in, for a checkout in `checkoutCurrency`
+ */
+export function getChargeCurrency(id: PaymentGateway, checkoutCurrency: string): string {
+  return gatewayRegistry[id].settlementCurrency ?? checkoutCurrency.toUpperCase();
+}
+
+/**
+ * Resolve a gateway identifier coming from a client or setting ("pushinpay", "SYNCPAY")
+ * Returns null if it doesn't match a registered gateway.
+ */
+export function parseGatewayId(value: unknown): PaymentGateway | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const id = value.toUpperCase() as PaymentGateway;
+  return id in gatewayRegistry ? id : null;
+}
+
+export function listGatewayIds(): PaymentGateway[] {
+  return Object.keys(gatewayRegistry) as PaymentGateway[];
+}
+
+/**
+ * Lowercase slug used in API responses and settings (e.g. "pushinpay")
+ */
+export function toGatewaySlug(id: PaymentGateway): string {
+  return id.toLowerCase();
+}
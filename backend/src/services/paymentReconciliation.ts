@@ -0,0 +1,131 @@
+import { PrismaClient } from '@prisma/client';
+import { getGateway } from './paymentGateway';
+import { applyPaymentStatus } from './orderFulfillment';
+
+const prisma = new PrismaClient();
+
+// Orders older than this are no longer reconciled
+const RECONCILE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Give the webhook a chance to arrive before the first poll
+const FIRST_CHECK_DELAY_MS = 2 * 60 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+interface PollSchedule {
+  attempts: number;
+  nextCheckAt: number;
+}
+
+// In-memory backoff per order; resets on restart, which only means one extra early poll
+const schedules = new Map<string, PollSchedule>();
+let isRunning = false;
+
+/**
+ * Delay before the next poll of an order
+ * Doubles with each attempt, never below the gateway's per-transaction rate limit
+ */
+function nextDelay(attempts: number, minIntervalMs: number): number {
+  const backoff = FIRST_CHECK_DELAY_MS * Math.pow(2, attempts);
+  return Math.min(Math.max(backoff, minIntervalMs), MAX_BACKOFF_MS);
+}
+
+/**
+ * Re-poll gateways for PENDING and recently FAILED orders
+ * Orders the gateway reports as paid are completed; each correction is recorded as an OrderEvent
+ */
+export async function reconcilePendingOrders() {
+  // A slow gateway can make a run outlast the interval; never poll the same orders twice in parallel
+  if (isRunning) {
+    return 0;
+  }
+  isRunning = true;
+
+  try {
+    const now = Date.now();
+    const windowStart = new Date(now - RECONCILE_WINDOW_MS);
+
+    const orders = await prisma.order.findMany({
+      where: {
+        status: { in: ['PENDING', 'FAILED'] },
+        gatewayTxId: { not: null },
+        createdAt: {
+          gte: windowStart,
+          lte: new Date(now - FIRST_CHECK_DELAY_MS),
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    // Forget orders that left the reconcile window or were settled elsewhere
+    const candidateIds = new Set(orders.map((order) => order.id));
+    for (const orderId of schedules.keys()) {
+      if (!candidateIds.has(orderId)) {
+        schedules.delete(orderId);
+      }
+    }
+
+    const dueOrders = orders
+      .filter((order) => (schedules.get(order.id)?.nextCheckAt ?? 0) <= now)
+      .slice(0, BATCH_SIZE);
+
+    let corrected = 0;
+
+    for (const order of dueOrders) {
+      const gateway = getGateway(order.gateway);
+      const schedule = schedules.get(order.id) ?? { attempts: 0, nextCheckAt: 0 };
+
+      schedule.nextCheckAt = Date.now() + nextDelay(schedule.attempts, gateway.minStatusPollIntervalMs);
+      schedule.attempts += 1;
+      schedules.set(order.id, schedule);
+
+      try {
+        const transaction = await gateway.getTransactionStatus(order.gatewayTxId!);
+
+        // Recently FAILED orders are only revisited to catch late payments
+        if (order.status === 'FAILED' && transaction.status !== 'PAID') {
+          continue;
+        }
+
+        const result = await applyPaymentStatus(order.id, transaction.status, {
+          source: 'RECONCILIATION',
+          gatewayStatus: transaction.rawStatus,
+          endToEndId: transaction.endToEndId,
+          paidAt: transaction.paidAt,
+          payload: transaction.raw,
+        }, { reviveFailed: true });
+
+        if (result?.changed) {
+          corrected += 1;
+          schedules.delete(order.id);
+
+          console.log(
+            `✓ Reconciled order ${order.id}: ${result.previousStatus} → ${result.order.status} (gateway status: ${transaction.rawStatus})`
+          );
+        }
+      } catch (error: any) {
+        console.error(`Error reconciling order ${order.id} with ${order.gateway}:`, error.message);
+      }
+    }
+
+    return corrected;
+  } catch (error) {
+    console.error('Error reconciling pending orders:', error);
+    return 0;
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start the payment reconciliation job
+ * Runs every minute; per-order backoff decides which orders are actually polled
+ */
+export function startPaymentReconciliationJob() {
+  console.log('🔁 Starting payment reconciliation job (runs every minute)');
+
+  setInterval(() => {
+    reconcilePendingOrders();
+  }, 60 * 1000); // 1 minute
+}
@@ -0,0 +1,68 @@
+import { StaffRole } from '@prisma/client';
+
+/**
+ * What staff can do in the admin area
+ * ADMIN users have every permission; STAFF users have those of their staffRole.
+ */
+export const PERMISSIONS = [
+  'analytics:read',
+  'products:read',
+  'products:write', // Products, prices, regions and delivery links
+  'orders:read', // Every customer's orders, their history and delivery tokens
+  'orders:write', // Manual status changes, Telegram invites
+  'orders:refund',
+  'coupons:read',
+  'coupons:write',
+  'settings:read', // Store settings, payment routing, exchange rates, gateway health
+  'settings:write',
+  'sessions:manage', // Customers' signed-in devices; other staff's also take staff:manage
+  'staff:manage', // Invites, staff roles, two-factor enforcement
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const STAFF_ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  // Catalog copy, images and prices
+  EDITOR: ['products:read', 'products:write', 'coupons:read'],
+  // Customer questions: finding orders, fixing deliveries, signing out customers' lost devices
+  SUPPORT: ['products:read', 'orders:read', 'orders:write', 'sessions:manage'],
+  // Revenue, refunds and discounts
+  FINANCE: ['analytics:read', 'orders:read', 'orders:refund', 'coupons:read', 'coupons:write', 'settings:read'],
+};
+
+// Access level as shown and set in the admin team page: a full admin or a staff role
+export type StaffAccess = 'ADMIN' | StaffRole;
+
+export function isStaffRole(role: string): boolean {
+  return role === 'ADMIN' || role === 'STAFF';
+}
+
+export function permissionsFor(role: string, staffRole?: string | null): Permission[] {
+  if (role === 'ADMIN') {
+    return [...PERMISSIONS];
+  }
+  if (role === 'STAFF' && staffRole && staffRole in STAFF_ROLE_PERMISSIONS) {
+    return STAFF_ROLE_PERMISSIONS[staffRole as StaffRole];
+  }
+  return [];
+}
+
+export function toStaffAccess(user: { role: string; staffRole: StaffRole | null }): StaffAccess | null {
+  if (user.role === 'ADMIN') {
+    return 'ADMIN';
+  }
+  return user.role === 'STAFF' ? user.staffRole : null;
+}
+
+/**
+ * Role and staffRole for an access level, or null when `value` isn't one
+ */
+export function parseStaffAccess(value: unknown): { role: 'ADMIN' | 'STAFF'; staffRole: StaffRole | null } | null {
+  if (value === 'ADMIN') {
+    return { role: 'ADMIN', staffRole: null };
+  }
+  if (typeof value === 'string' && value in STAFF_ROLE_PERMISSIONS) {
+    return { role: 'STAFF', staffRole: value as StaffRole };
+  }
+  return null;
+}
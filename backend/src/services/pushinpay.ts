@@ -1,7 +1,21 @@
 import axios, { AxiosInstance } from 'axios';
+import {
+  PaymentGatewayAdapter,
+  CreateChargeParams,
+  ChargeResult,
+  GatewayTransactionStatus,
+  GatewayWebhookEvent,
+  NormalizedPaymentStatus,
+  WebhookRequest,
+  WebhookVerificationError,
+  GatewayRequestError,
+  isValidHmacSignature,
+  verifyByRefetch,
+} from './paymentGateway';
 
 interface PushinPayConfig {
   token: string;
+  webhookSecret?: string;
   environment: 'production' | 'sandbox';
 }
 
@@ -54,10 +68,12 @@ interface WebhookPayload {
 export class PushinPayService {
   private client: AxiosInstance;
   private token: string;
+  private webhookSecret?: string;
   private baseURL: string;
 
   constructor(config: PushinPayConfig) {
     this.token = config.token;
+    this.webhookSecret = config.webhookSecret;
     this.baseURL =
         config.environment === 'production'
             ? 'https://api.pushinpay.com.br'
@@ -138,8 +154,9 @@ export class PushinPayService {
         headers: error.response?.headers,
         message: error.message,
       });
-      throw new Error(
-          `Failed to create PIX payment: ${error.response?.data?.message || error.response?.data?.error || error.message}`
+      throw new GatewayRequestError(
+          `Failed to create PIX payment: ${error.response?.data?.message || error.response?.data?.error || error.message}`,
+          error.response?.status
       );
     }
   }
@@ -169,13 +186,21 @@ export class PushinPayService {
   }
 
   /**
-   * Verify webhook signature (if implemented by PushinPay)
-   * This is a placeholder - implement according to PushinPay's webhook security docs
+   * Whether a webhook secret is configured for signature verification
+   */
+  hasWebhookSecret(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  /**
+   * Verify the HMAC-SHA256 signature sent in the x-pushinpay-signature header
+   * Always false when no webhook secret is configured.
    */
-  verifyWebhookSignature(payload: string, signature: string): boolean {
-    // TODO: Implement signature verification if PushinPay provides it
-    // For now, we'll verify the webhook URL in the route middleware
-    return true;
+  verifyWebhookSignature(rawBody: Buffer | undefined, signature: string | string[] | undefined): boolean {
+    if (!this.webhookSecret) {
+      return false;
+    }
+    return isValidHmacSignature(rawBody, signature, this.webhookSecret);
   }
 
   /**
@@ -188,10 +213,10 @@ export class PushinPayService {
     // We log the entire payload to be sure.
     console.log('Full raw webhook payload from PushinPay:', JSON.stringify(payload, null, 2));
 
-    const transactionId = payload.transaction?.id || payload.transaction_id;
+    const transactionId = payload.transaction?.id || payload.transaction_id || payload.id;
 
     if (!transactionId) {
-      console.error('CRITICAL: Could not find `transaction.id` or `transaction_id` in the webhook payload.');
+      console.error('CRITICAL: Could not find `transaction.id`, `transaction_id` or `id` in the webhook payload.');
       throw new Error('Transaction ID not found in webhook payload');
     }
 
@@ -207,12 +232,12 @@ export class PushinPayService {
   }
 
   /**
-   * Format amount from cents to BRL currency string
+   * Format amount from cents to a currency string (BRL unless given)
    */
-  static formatCurrency(amountInCents: number): string {
+  static formatCurrency(amountInCents: number, currency: string = 'BRL'): string {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
-      currency: 'BRL',
+      currency,
     }).format(amountInCents / 100);
   }
 
@@ -224,29 +249,96 @@ export class PushinPayService {
   }
 }
 
-// Export singleton instances
-let pushinPayService: PushinPayService | null = null;
-let publicPushinPayService: PushinPayService | null = null;
-
-export function getPushinPayService(type: 'default' | 'public' = 'default'): PushinPayService {
-  const environment = (process.env.NODE_ENV === 'production'
-      ? 'production'
-      : 'sandbox') as 'production' | 'sandbox';
-
-  if (type === 'public') {
-    if (!publicPushinPayService) {
-      const token = process.env.PUBLICTOKEN;
-      if (!token) {
-        throw new Error('PUBLICTOKEN environment variable is not set');
+/**
+ * PaymentGatewayAdapter implementation backed by PushinPayService
+ */
+export class PushinPayGateway implements PaymentGatewayAdapter {
+  readonly id = 'PUSHINPAY' as const;
+  readonly requiresCustomer = false;
+  // PushinPay blocks accounts that query the same transaction more than once per minute
+  readonly minStatusPollIntervalMs = 60 * 1000;
+
+  constructor(private service: PushinPayService) {}
+
+  async createCharge(params: CreateChargeParams): Promise<ChargeResult> {
+    const payment = await this.service.createPixPayment(
+        params.amountInCents,
+        params.webhookUrl,
+        params.expiresInMinutes
+    );
+
+    return {
+      transactionId: payment.id,
+      pixCode: payment.qr_code,
+      pixQrCodeBase64: payment.qr_code_base64,
+      amountInCents: payment.value,
+      status: this.normalizeStatus(payment.status),
+      expiresAt: payment.expires_at,
+    };
+  }
+
+  async getTransactionStatus(transactionId: string): Promise<GatewayTransactionStatus> {
+    const transaction = await this.service.getTransactionStatus(transactionId);
+
+    return {
+      transactionId: transaction.id,
+      status: this.normalizeStatus(transaction.status),
+      rawStatus: transaction.status,
+      endToEndId: transaction.end_to_end_id,
+      paidAt: transaction.paid_at,
+      raw: transaction,
+    };
+  }
+
+  parseWebhook(payload: any): GatewayWebhookEvent {
+    const webhook = this.service.parseWebhookPayload(payload);
+
+    return {
+      eventId: `${webhook.id}:${webhook.status}`,
+      transactionId: webhook.id,
+      status: this.normalizeStatus(webhook.status),
+      rawStatus: webhook.status,
+      endToEndId: webhook.end_to_end_id,
+      paidAt: webhook.paid_at,
+    };
+  }
+
+  /**
+   * Signature header when PUSHINPAY_WEBHOOK_SECRET is set,
+   * otherwise a re-fetch of the transaction (counts against the one-call-per-minute limit).
+   */
+  async verifyWebhook(event: GatewayWebhookEvent, request: WebhookRequest): Promise<GatewayWebhookEvent> {
+    if (this.service.hasWebhookSecret()) {
+      const signature = request.headers['x-pushinpay-signature'];
+      if (!this.service.verifyWebhookSignature(request.rawBody, signature)) {
+        throw new WebhookVerificationError('Invalid or missing x-pushinpay-signature header');
       }
-      publicPushinPayService = new PushinPayService({
-        token,
-        environment,
-      });
+      return event;
     }
-    return publicPushinPayService;
+
+    return verifyByRefetch(this, event);
   }
 
+  /**
+   * PushinPay statuses: created, paid, expired (lowercase)
+   */
+  normalizeStatus(rawStatus: string): NormalizedPaymentStatus {
+    switch (rawStatus?.toLowerCase()) {
+      case 'paid':
+        return 'PAID';
+      case 'expired':
+      case 'canceled':
+        return 'FAILED';
+      default:
+        return 'PENDING';
+    }
+  }
+}
+
+// Export singleton instance
+let pushinPayService: PushinPayService | null = null;
+
+export function getPushinPayService(): PushinPayService {
   if (!pushinPayService) {
     const token = process.env.PUSHINPAY_TOKEN;
     if (!token) {
@@ -254,16 +346,9 @@ export function getPushinPayService(type: 'default' | 'public' = 'default'): Pus
     }
     pushinPayService = new PushinPayService({
       token,
-      environment,
+      environment: (process.env.NODE_ENV === 'production' ? 'production' : 'sandbox') as 'production' | 'sandbox',
+      webhookSecret: process.env.PUSHINPAY_WEBHOOK_SECRET,
     });
   }
   return pushinPayService;
 }
-
-
-/**
- * Helper to get the correct service instance based on the diverted flag.
- */
-export function getPaymentService(usePublic: boolean): PushinPayService {
-  return getPushinPayService(usePublic ? 'public' : 'default');
-}
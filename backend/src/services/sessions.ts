@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { PrismaClient, Session } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const ACCESS_TOKEN_TTL_MINUTES = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '') || 15;
+const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS || '') || 30;
+// Two tabs refreshing at once present the same token; the slower one isn't treated as a theft
+const ROTATION_GRACE_MS = 30 * 1000;
+// How long authenticateToken trusts its last look at a session, and how often lastSeenAt is written
+const SESSION_CHECK_TTL_MS = 30 * 1000;
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+// Ended sessions are kept this long for the session list, then deleted
+const SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const jwtSecret = process.env.JWT_SECRET || 'default-secret';
+
+// Last look at each session, by id (see isSessionActive)
+const sessionChecks = new Map<string, { active: boolean; checkedAt: number }>();
+const MAX_SESSION_CHECKS = 10000;
+
+// Claims access tokens carry
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+  staffRole?: string | null; // Permissions of STAFF users
+}
+
+export interface SessionContext {
+  userAgent: string | null;
+  ip: string | null;
+  countryCode: string | null;
+  city: string | null;
+}
+
+export interface IssuedTokens {
+  token: string; // Access token (JWT)
+  refreshToken: string | null; // null when a concurrent refresh already rotated it
+  expiresIn: number; // Access token lifetime in seconds
+  sessionId: string;
+}
+
+export type RefreshResult =
+  | { ok: true; tokens: IssuedTokens; user: SessionUser }
+  | { ok: false; reason: 'invalid' | 'expired' | 'revoked' | 'reused' };
+
+/**
+ * Device details of a request, from the geolocation middleware
+ */
+export function sessionContextFrom(req: Request): SessionContext {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+    ip: req.geo?.ip ?? null,
+    countryCode: req.geo?.countryCode ?? null,
+    city: req.geo?.city ?? null,
+  };
+}
+
+/**
+ * Short-lived JWT tied to a session; it stops working as soon as the session is revoked
+ * `mfa` tells requirePermission the session was opened or confirmed with a second factor.
+ */
+export function signAccessToken(user: SessionUser, sessionId: string, mfa = false): string {
+  return jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      staffRole: user.staffRole ?? undefined,
+      sid: sessionId,
+      mfa,
+    },
+    jwtSecret,
+    { expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60 }
+  );
+}
+
+/**
+ * Sign a user in on a new device
+ */
+export async function createSession(
+  user: SessionUser,
+  context: SessionContext,
+  twoFactorVerified = false
+): Promise<IssuedTokens> {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      expiresAt: new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      twoFactorVerified,
+      ...context,
+    },
+  });
+
+  return toTokens(user, session.id, refreshToken, twoFactorVerified);
+}
+
+/**
+ * Record that the session passed a second factor; returns its new access token
+ */
+export async function markSessionTwoFactorVerified(user: SessionUser, sessionId: string): Promise<string> {
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { twoFactorVerified: true },
+  });
+  return signAccessToken(user, sessionId, true);
+}
+
+/**
+ * Trade a refresh token for a new access token and a new refresh token
+ * The old refresh token stops working. If it is presented again after the grace period it
+ * was copied, so the whole session is revoked.
+ */
+export async function refreshSession(refreshToken: string, context: SessionContext): Promise<RefreshResult> {
+  const hash = hashRefreshToken(refreshToken);
+  const now = new Date();
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: hash },
+    include: { user: { select: { id: true, email: true, role: true, staffRole: true } } },
+  });
+
+  if (!session) {
+    const rotated = await prisma.session.findFirst({
+      where: { previousRefreshTokenHash: hash },
+      include: { user: { select: { id: true, email: true, role: true, staffRole: true } } },
+    });
+    if (!rotated) {
+      return { ok: false, reason: 'invalid' };
+    }
+
+    const withinGrace = rotated.rotatedAt !== null && now.getTime() - rotated.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (!withinGrace || rotated.revokedAt || rotated.expiresAt <= now) {
+      if (!rotated.revokedAt) {
+        await revokeSession(rotated.id, 'reuse');
+        console.warn(`Refresh token reuse on session ${rotated.id} of user ${rotated.userId}; session revoked`);
+      }
+      return { ok: false, reason: 'reused' };
+    }
+
+    // The other tab got the new refresh token; this one only needs an access token
+    return {
+      ok: true,
+      tokens: toTokens(rotated.user, rotated.id, null, rotated.twoFactorVerified),
+      user: rotated.user,
+    };
+  }
+
+  if (session.revokedAt) {
+    return { ok: false, reason: 'revoked' };
+  }
+  if (session.expiresAt <= now) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  const nextToken = generateRefreshToken();
+
+  // Conditional on the current hash, so two refreshes can't both rotate it
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashRefreshToken(nextToken),
+      previousRefreshTokenHash: hash,
+      rotatedAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      ...context,
+    },
+  });
+  if (count === 0) {
+    return refreshSession(refreshToken, context);
+  }
+
+  return {
+    ok: true,
+    tokens: toTokens(session.user, session.id, nextToken, session.twoFactorVerified),
+    user: session.user,
+  };
+}
+
+/**
+ * Whether the session behind an access token is still usable
+ * Looked up at most every SESSION_CHECK_TTL_MS per session in this process; revocations made
+ * here take effect at once, those made by other instances within that delay.
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const now = Date.now();
+  const cached = sessionChecks.get(sessionId);
+  if (cached && now - cached.checkedAt < SESSION_CHECK_TTL_MS) {
+    return cached.active;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true, lastSeenAt: true },
+  });
+
+  const active = !!session && !session.revokedAt && session.expiresAt.getTime() > now;
+  if (sessionChecks.size >= MAX_SESSION_CHECKS) {
+    sessionChecks.clear();
+  }
+  sessionChecks.set(sessionId, { active, checkedAt: now });
+
+  if (active && now - session!.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastSeenAt: new Date(now) },
+    });
+  }
+
+  return active;
+}
+
+export async function revokeSession(sessionId: string, reason: string): Promise<boolean> {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  sessionChecks.set(sessionId, { active: false, checkedAt: Date.now() });
+  return count > 0;
+}
+
+/**
+ * Revoke every active session of a user, except `exceptSessionId` (the caller's own)
+ */
+export async function revokeUserSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, revokedAt: null, id: exceptSessionId ? { not: exceptSessionId } : undefined },
+    select: { id: true },
+  });
+
+  let revoked = 0;
+  for (const session of sessions) {
+    if (await revokeSession(session.id, reason)) {
+      revoked += 1;
+    }
+  }
+  return revoked;
+}
+
+/**
+ * A user's sessions that can still be used, most recently seen first
+ */
+export async function listActiveSessions(userId: string): Promise<Session[]> {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+}
+
+/**
+ * Session fields safe to show; the token hashes never leave the server
+ */
+export function toSessionView(session: Session, currentSessionId?: string) {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    countryCode: session.countryCode,
+    city: session.city,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  };
+}
+
+export async function pruneSessions(): Promise<number> {
+  const cutoff = new Date(Date.now() - SESSION_RETENTION_MS);
+  const { count } = await prisma.session.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }],
+    },
+  });
+  return count;
+}
+
+/**
+ * Start the session cleanup job
+ * Runs every day
+ */
+export function startSessionCleanupJob() {
+  console.log('🧹 Starting session cleanup job (runs every day)');
+
+  const run = async () => {
+    try {
+      const pruned = await pruneSessions();
+      if (pruned > 0) {
+        console.log(`✓ Pruned ${pruned} ended session(s)`);
+      }
+    } catch (error) {
+      console.error('Error pruning sessions:', error);
+    }
+  };
+
+  run();
+
+  setInterval(run, 24 * 60 * 60 * 1000);
+}
+
+function toTokens(
+  user: SessionUser,
+  sessionId: string,
+  refreshToken: string | null,
+  twoFactorVerified: boolean
+): IssuedTokens {
+  return {
+    token: signAccessToken(user, sessionId, twoFactorVerified),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
+    sessionId,
+  };
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
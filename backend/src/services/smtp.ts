@@ -0,0 +1,204 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+/**
+ * Minimal SMTP client (RFC 5321) for the mailer's smtp transport: one message per connection,
+ * STARTTLS when the server offers it, AUTH PLAIN when credentials are set
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (usually port 465); otherwise STARTTLS is used
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Deliver `data` (a complete message: headers, blank line, body, CRLF line endings) from the
+ * envelope address `from` to `to`
+ */
+export async function sendSmtp(options: SmtpOptions, from: string, to: string, data: string): Promise<void> {
+  // Line breaks would smuggle in extra commands
+  if (/[\r\n<>]/.test(from + to)) {
+    throw new Error('Invalid envelope address');
+  }
+
+  const client = new SmtpClient(options);
+
+  try {
+    await client.expect(220);
+    let extensions = await client.ehlo();
+
+    if (!client.encrypted) {
+      if (extensions.includes('STARTTLS')) {
+        await client.command('STARTTLS', 220);
+        await client.startTls(options.host);
+        extensions = await client.ehlo();
+      } else if (options.user) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in clear text');
+      }
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`).toString('base64');
+      await client.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH');
+    }
+
+    await client.command(`MAIL FROM:<${from}>`, 250);
+    await client.command(`RCPT TO:<${to}>`, [250, 251]);
+    await client.command('DATA', 354);
+    // Lines starting with a dot get another one, so none can end the message early
+    await client.command(`${data.replace(/^\./gm, '..')}\r\n.`, 250, 'message body');
+    await client.command('QUIT', 221).catch(() => undefined);
+  } finally {
+    client.close();
+  }
+}
+
+class SmtpClient {
+  private socket: net.Socket;
+  private buffer = '';
+  private failure: Error | null = null;
+  private waiting: (() => void) | null = null;
+
+  constructor(private readonly options: SmtpOptions) {
+    this.socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+    this.attach(this.socket);
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  /**
+   * Send a command and check the reply code; `label` replaces the command in errors (AUTH
+   * carries the password)
+   */
+  async command(line: string, expected: number | number[], label = line): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number | number[], label = 'greeting'): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * EHLO, returning the extension keywords the server announced (STARTTLS, AUTH, ...)
+   */
+  async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || 'localhost'}`, 250);
+    return reply.lines.slice(1).map((line) => line.split(' ')[0].toUpperCase());
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.detach(this.socket);
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+
+    await new Promise<void>((resolve) => {
+      secureSocket.once('secureConnect', resolve);
+      this.waiting = resolve; // Or an error or timeout during the handshake
+    });
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private async readReply(): Promise<SmtpReply> {
+    for (;;) {
+      const reply = this.takeReply();
+      if (reply) {
+        return reply;
+      }
+      if (this.failure) {
+        throw this.failure;
+      }
+      await new Promise<void>((resolve) => {
+        this.waiting = resolve;
+      });
+    }
+  }
+
+  // A complete reply from the buffer: lines "250-..." continue it, "250 ..." ends it
+  private takeReply(): SmtpReply | null {
+    const lines: string[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf('\n', offset);
+      if (end === -1) {
+        return null;
+      }
+      const line = this.buffer.slice(offset, end).replace(/\r$/, '');
+      offset = end + 1;
+      lines.push(line);
+
+      if (line.charAt(3) !== '-') {
+        this.buffer = this.buffer.slice(offset);
+        return { code: parseInt(line.slice(0, 3), 10), lines: lines.map((item) => item.slice(4)) };
+      }
+    }
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    this.wake();
+  };
+
+  private onError = (error: Error) => {
+    this.failure = this.failure ?? error;
+    this.wake();
+  };
+
+  private onTimeout = () => {
+    this.onError(new Error('SMTP server did not answer in time'));
+    this.socket.destroy();
+  };
+
+  private onClose = () => {
+    this.onError(new Error('SMTP server closed the connection'));
+  };
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.options.timeoutMs);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('timeout', this.onTimeout);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.setTimeout(0);
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('timeout', this.onTimeout);
+    socket.off('close', this.onClose);
+  }
+}
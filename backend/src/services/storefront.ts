@@ -0,0 +1,21 @@
+/**
+ * Links into the storefront (emails, gateway return URLs, Telegram messages)
+ * The frontend's next-intl middleware only serves locale-prefixed paths, so every link needs one.
+ */
+
+const STOREFRONT_LOCALES = ['en', 'pt', 'es'];
+const DEFAULT_LOCALE = 'en';
+
+/**
+ * A supported locale, or the default when `value` isn't one
+ */
+export function parseLocale(value: unknown): string {
+  return typeof value === 'string' && STOREFRONT_LOCALES.includes(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Absolute URL of a storefront page, e.g. storefrontUrl('pt', '/subscriptions')
+ */
+export function storefrontUrl(locale: unknown, path: string): string {
+  return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/${parseLocale(locale)}${path}`;
+}
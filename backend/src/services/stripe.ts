@@ -0,0 +1,357 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import {
+  PaymentGatewayAdapter,
+  CreateChargeParams,
+  ChargeResult,
+  GatewayTransactionStatus,
+  GatewayWebhookEvent,
+  NormalizedPaymentStatus,
+  RefundResult,
+  WebhookRequest,
+  WebhookVerificationError,
+  GatewayRequestError,
+  verifyByRefetch,
+} from './paymentGateway';
+
+interface StripeConfig {
+  secretKey: string;
+  webhookSecret?: string;
+}
+
+interface CreateCheckoutSessionParams {
+  orderId: string;
+  amountInCents: number; // Smallest currency unit
+  currency: string;
+  description: string;
+  successUrl: string;
+  cancelUrl?: string;
+  expiresAt: number; // Unix seconds, 30 minutes to 24 hours ahead
+  customerEmail?: string;
+}
+
+interface CheckoutSession {
+  id: string;
+  url: string | null;
+  status: 'open' | 'complete' | 'expired';
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  payment_intent: string | null;
+  amount_total: number;
+  currency: string;
+  client_reference_id: string | null;
+  expires_at: number;
+  created: number;
+}
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  data: {
+    object: CheckoutSession;
+  };
+}
+
+interface StripeRefund {
+  id: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled' | 'requires_action';
+}
+
+// Signed webhook timestamps older than this are rejected as replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Stripe API Service (Checkout Sessions)
+ * Documentation: https://docs.stripe.com/api/checkout/sessions
+ *
+ * The API takes form-encoded bodies with bracketed keys for nested fields.
+ */
+export class StripeService {
+  private client: AxiosInstance;
+  private webhookSecret?: string;
+
+  constructor(config: StripeConfig) {
+    this.webhookSecret = config.webhookSecret;
+
+    this.client = axios.create({
+      baseURL: 'https://api.stripe.com/v1',
+      headers: {
+        Authorization: `Bearer ${config.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      timeout: 30000, // 30 seconds
+    });
+  }
+
+  /**
+   * Create a hosted Checkout Session for a one-off card payment
+   */
+  async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+    const form = new URLSearchParams({
+      mode: 'payment',
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': params.currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(params.amountInCents),
+      'line_items[0][price_data][product_data][name]': params.description,
+      client_reference_id: params.orderId,
+      'metadata[orderId]': params.orderId,
+      success_url: params.successUrl,
+      expires_at: String(params.expiresAt),
+    });
+
+    if (params.cancelUrl) {
+      form.set('cancel_url', params.cancelUrl);
+    }
+
+    if (params.customerEmail) {
+      form.set('customer_email', params.customerEmail);
+    }
+
+    try {
+      const response = await this.client.post<CheckoutSession>('/checkout/sessions', form, {
+        // A retried create after a timeout must not open a second session for the same attempt;
+        // each attempt (e.g. a regenerated charge) has its own expiry, and so its own key
+        headers: { 'Idempotency-Key': `checkout-${params.orderId}-${params.expiresAt}` },
+      });
+
+      console.log('Stripe checkout session created:', {
+        sessionId: response.data.id,
+        orderId: params.orderId,
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error('Stripe API Error:', {
+        status: error.response?.status,
+        data: error.response?.data,
+        message: error.message,
+      });
+      throw new GatewayRequestError(
+        `Failed to create Stripe checkout session: ${error.response?.data?.error?.message || error.message}`,
+        error.response?.status
+      );
+    }
+  }
+
+  async getCheckoutSession(sessionId: string): Promise<CheckoutSession> {
+    try {
+      const response = await this.client.get<CheckoutSession>(`/checkout/sessions/${sessionId}`);
+      return response.data;
+    } catch (error: any) {
+      console.error('Stripe API Error:', error.response?.data || error.message);
+      throw new Error(
+        `Failed to get Stripe checkout session: ${error.response?.data?.error?.message || error.message}`
+      );
+    }
+  }
+
+  /**
+   * Refund a payment intent, in full when no amount is given
+   */
+  async createRefund(paymentIntentId: string, amountInCents?: number): Promise<StripeRefund> {
+    const form = new URLSearchParams({ payment_intent: paymentIntentId });
+    if (amountInCents !== undefined) {
+      form.set('amount', String(amountInCents));
+    }
+
+    try {
+      const response = await this.client.post<StripeRefund>('/refunds', form);
+      return response.data;
+    } catch (error: any) {
+      console.error('Stripe API Error:', error.response?.data || error.message);
+      throw new Error(
+        `Failed to refund Stripe payment: ${error.response?.data?.error?.message || error.message}`
+      );
+    }
+  }
+
+  /**
+   * Whether a webhook signing secret is configured
+   */
+  hasWebhookSecret(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  /**
+   * Verify the Stripe-Signature header ("t=<timestamp>,v1=<hex hmac>")
+   * The signed payload is "<timestamp>.<raw body>". Always false when no secret is configured.
+   */
+  verifyWebhookSignature(rawBody: Buffer | undefined, header: string | string[] | undefined): boolean {
+    if (!this.webhookSecret || !rawBody || typeof header !== 'string') {
+      return false;
+    }
+
+    const parts = header.split(',').map((part) => part.split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+    if (!timestamp || signatures.length === 0) {
+      return false;
+    }
+
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.${rawBody.toString('utf8')}`)
+      .digest('hex');
+
+    return signatures.some((signature) =>
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    );
+  }
+
+  /**
+   * Parse a webhook event; only Checkout Session events are handled
+   */
+  parseWebhookPayload(payload: any): StripeEvent {
+    if (!payload?.id || typeof payload.type !== 'string' || !payload.data?.object?.id) {
+      throw new Error('Invalid Stripe event payload');
+    }
+
+    if (!payload.type.startsWith('checkout.session.')) {
+      throw new Error(`Unsupported Stripe event type: ${payload.type}`);
+    }
+
+    return payload as StripeEvent;
+  }
+}
+
+/**
+ * PaymentGatewayAdapter implementation backed by StripeService
+ * The charge is a Checkout Session: its id is the transaction id and the buyer
+ * pays by card on the session's hosted page.
+ */
+export class StripeGateway implements PaymentGatewayAdapter {
+  readonly id = 'STRIPE' as const;
+  readonly requiresCustomer = false;
+  readonly minStatusPollIntervalMs = 30 * 1000;
+
+  constructor(private service: StripeService) {}
+
+  async createCharge(params: CreateChargeParams): Promise<ChargeResult> {
+    if (!params.returnUrl) {
+      throw new Error('Stripe checkout requires a returnUrl');
+    }
+
+    // Stripe rejects sessions that expire in under 30 minutes; one extra minute absorbs clock skew
+    const expiresInMinutes = Math.max(params.expiresInMinutes ?? 30, 30) + 1;
+
+    const session = await this.service.createCheckoutSession({
+      orderId: params.orderId,
+      amountInCents: params.amountInCents,
+      currency: params.currency,
+      description: params.description || `Order ${params.orderId}`,
+      successUrl: params.returnUrl,
+      cancelUrl: params.cancelUrl,
+      expiresAt: Math.floor(Date.now() / 1000) + expiresInMinutes * 60,
+      customerEmail: params.customer?.email,
+    });
+
+    return {
+      transactionId: session.id,
+      checkoutUrl: session.url ?? undefined,
+      amountInCents: session.amount_total,
+      status: 'PENDING',
+      expiresAt: new Date(session.expires_at * 1000).toISOString(),
+    };
+  }
+
+  async getTransactionStatus(transactionId: string): Promise<GatewayTransactionStatus> {
+    const session = await this.service.getCheckoutSession(transactionId);
+    const rawStatus = session.status === 'expired' ? 'expired' : session.payment_status;
+
+    return {
+      transactionId: session.id,
+      status: this.normalizeStatus(rawStatus),
+      rawStatus,
+      raw: session,
+    };
+  }
+
+  parseWebhook(payload: any): GatewayWebhookEvent {
+    const event = this.service.parseWebhookPayload(payload);
+    const session = event.data.object;
+
+    // checkout.session.completed can still be unpaid for delayed methods; the async_* events settle it
+    const rawStatus =
+      event.type === 'checkout.session.expired'
+        ? 'expired'
+        : event.type === 'checkout.session.async_payment_failed'
+        ? 'failed'
+        : session.payment_status;
+
+    return {
+      eventId: event.id,
+      transactionId: session.id,
+      status: this.normalizeStatus(rawStatus),
+      rawStatus,
+      paidAt: this.normalizeStatus(rawStatus) === 'PAID' ? new Date().toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Stripe-Signature header when STRIPE_WEBHOOK_SECRET is set, otherwise a re-fetch of the session
+   */
+  async verifyWebhook(event: GatewayWebhookEvent, request: WebhookRequest): Promise<GatewayWebhookEvent> {
+    if (this.service.hasWebhookSecret()) {
+      if (!this.service.verifyWebhookSignature(request.rawBody, request.headers['stripe-signature'])) {
+        throw new WebhookVerificationError('Invalid or missing Stripe-Signature header');
+      }
+      return event;
+    }
+
+    return verifyByRefetch(this, event);
+  }
+
+  /**
+   * Statuses derived from the session: paid, unpaid, no_payment_required, expired, failed
+   */
+  normalizeStatus(rawStatus: string): NormalizedPaymentStatus {
+    switch (rawStatus?.toLowerCase()) {
+      case 'paid':
+      case 'no_payment_required':
+        return 'PAID';
+      case 'expired':
+      case 'failed':
+        return 'FAILED';
+      default:
+        return 'PENDING';
+    }
+  }
+
+  async refundCharge(transactionId: string, amountInCents?: number): Promise<RefundResult> {
+    const session = await this.service.getCheckoutSession(transactionId);
+    if (!session.payment_intent) {
+      throw new Error(`Stripe session ${transactionId} has no payment to refund`);
+    }
+
+    const refund = await this.service.createRefund(session.payment_intent, amountInCents);
+
+    return {
+      refundId: refund.id,
+      status: refund.status === 'succeeded' ? 'REFUNDED' : 'PENDING',
+      raw: refund,
+    };
+  }
+}
+
+// Export singleton instance
+let stripeService: StripeService | null = null;
+
+export function getStripeService(): StripeService {
+  if (!stripeService) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error('STRIPE_SECRET_KEY environment variable is not set');
+    }
+
+    stripeService = new StripeService({
+      secretKey,
+      webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+    });
+  }
+  return stripeService;
+}
@@ -1,5 +1,16 @@
 import axios, { AxiosInstance } from 'axios';
 import QRCode from 'qrcode';
+import {
+  PaymentGatewayAdapter,
+  CreateChargeParams,
+  ChargeResult,
+  GatewayTransactionStatus,
+  GatewayWebhookEvent,
+  NormalizedPaymentStatus,
+  WebhookRequest,
+  GatewayRequestError,
+  verifyByRefetch,
+} from './paymentGateway';
 
 interface SyncPayConfig {
   clientId: string;
@@ -163,8 +174,11 @@ export class SyncPayService {
         data: error.response?.data,
         message: error.message,
       });
-      throw new Error(
-        `Failed to authenticate with SyncPay: ${error.response?.data?.message || error.message}`
+      // Bad or revoked credentials only affect SyncPay, so the charge can still fail over
+      throw new GatewayRequestError(
+        `Failed to authenticate with SyncPay: ${error.response?.data?.message || error.message}`,
+        error.response?.status,
+        true
       );
     }
   }
@@ -242,11 +256,12 @@ export class SyncPayService {
       }
 
       if (error.response?.status === 401 && retryCount >= 1) {
-        throw new Error('Failed to authenticate with SyncPay after retry. Please check your credentials.');
+        throw new GatewayRequestError('Failed to authenticate with SyncPay after retry. Please check your credentials.', 401);
       }
 
-      throw new Error(
-        `Failed to create SyncPay PIX payment: ${error.response?.data?.message || error.message}`
+      throw new GatewayRequestError(
+        `Failed to create SyncPay PIX payment: ${error.response?.data?.message || error.message}`,
+        error.response?.status
       );
     }
   }
@@ -275,6 +290,44 @@ export class SyncPayService {
     }
   }
 
+  /**
+   * Get transaction status by identifier
+   *
+   * @param identifier - Transaction identifier returned from createPixPayment
+   * @param retryCount - Internal retry counter to prevent infinite loops
+   * @returns Transaction status
+   */
+  async getTransactionStatus(
+    identifier: string,
+    retryCount: number = 0
+  ): Promise<TransactionStatusResponse> {
+    await this.authenticate();
+
+    try {
+      const response = await this.client.get(
+        `/api/partner/v1/transaction/${identifier}`
+      );
+
+      // SyncPay wraps the transaction in a `data` object
+      return response.data?.data || response.data;
+    } catch (error: any) {
+      console.error('SyncPay API Error:', {
+        status: error.response?.status,
+        data: error.response?.data,
+        message: error.message,
+      });
+
+      if (error.response?.status === 401 && retryCount < 1) {
+        await this.authenticate(true);
+        return this.getTransactionStatus(identifier, retryCount + 1);
+      }
+
+      throw new Error(
+        `Failed to get SyncPay transaction status: ${error.response?.data?.message || error.message}`
+      );
+    }
+  }
+
   /**
    * Parse webhook payload from SyncPay
    */
@@ -321,6 +374,97 @@ export class SyncPayService {
   }
 }
 
+/**
+ * SyncPay takes Brazilian phones as national digits (DDD + number), not E.164
+ */
+function toSyncPayPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return phone.startsWith('+55') ? digits.slice(2) : digits;
+}
+
+/**
+ * PaymentGatewayAdapter implementation backed by SyncPayService
+ */
+export class SyncPayGateway implements PaymentGatewayAdapter {
+  readonly id = 'SYNCPAY' as const;
+  readonly requiresCustomer = true;
+  readonly minStatusPollIntervalMs = 30 * 1000;
+
+  constructor(private service: SyncPayService) {}
+
+  async createCharge(params: CreateChargeParams): Promise<ChargeResult> {
+    if (!params.customer) {
+      throw new Error('SyncPay requires customer information (name, cpf, email, phone)');
+    }
+
+    const payment = await this.service.createPixPayment(
+      params.amountInCents,
+      params.webhookUrl,
+      { ...params.customer, phone: toSyncPayPhone(params.customer.phone) }
+    );
+
+    return {
+      transactionId: payment.identifier,
+      pixCode: payment.pix_code,
+      pixQrCodeBase64: payment.qr_code_base64,
+      amountInCents: params.amountInCents,
+      status: 'PENDING',
+      message: payment.message,
+    };
+  }
+
+  async getTransactionStatus(transactionId: string): Promise<GatewayTransactionStatus> {
+    const transaction = await this.service.getTransactionStatus(transactionId);
+    // Without an id there's no telling the response is about this transaction
+    if (!transaction?.id) {
+      throw new Error(`SyncPay returned no transaction id when looking up ${transactionId}`);
+    }
+
+    return {
+      transactionId: transaction.id,
+      status: this.normalizeStatus(transaction.status),
+      rawStatus: transaction.status,
+      raw: transaction,
+    };
+  }
+
+  parseWebhook(payload: any): GatewayWebhookEvent {
+    const webhook = this.service.parseWebhookPayload(payload);
+
+    return {
+      eventId: `${webhook.id}:${webhook.status}`,
+      transactionId: webhook.id,
+      status: this.normalizeStatus(webhook.status),
+      rawStatus: webhook.status,
+    };
+  }
+
+  /**
+   * SyncPay doesn't sign webhooks, so the transaction is always re-fetched
+   */
+  async verifyWebhook(event: GatewayWebhookEvent, request: WebhookRequest): Promise<GatewayWebhookEvent> {
+    return verifyByRefetch(this, event);
+  }
+
+  /**
+   * SyncPay statuses: PENDING, PAID_OUT, FAILED, REFUNDED, MED (uppercase)
+   */
+  normalizeStatus(rawStatus: string): NormalizedPaymentStatus {
+    switch (rawStatus?.toUpperCase()) {
+      case 'PAID_OUT':
+        return 'PAID';
+      case 'FAILED':
+        return 'FAILED';
+      case 'REFUNDED':
+        return 'REFUNDED';
+      case 'MED':
+        return 'DISPUTED';
+      default:
+        return 'PENDING';
+    }
+  }
+}
+
 // Export singleton instance
 let syncPayService: SyncPayService | null = null;
 
@@ -0,0 +1,158 @@
+import axios, { AxiosInstance } from 'axios';
+
+interface TelegramBotConfig {
+  token: string;
+  apiBaseURL: string;
+}
+
+interface BotApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+}
+
+export interface ChatInviteLink {
+  invite_link: string;
+  name?: string;
+  expire_date?: number; // Unix timestamp
+  member_limit?: number;
+  is_revoked: boolean;
+}
+
+export interface ChatMemberUpdated {
+  chat: { id: number; title?: string; username?: string };
+  from: { id: number };
+  date: number;
+  old_chat_member: { status: string; user: { id: number } };
+  new_chat_member: { status: string; user: { id: number } };
+  invite_link?: ChatInviteLink; // Present when the user joined through an invite link
+}
+
+/**
+ * Webhook update; only the fields the shop subscribes to are typed
+ */
+export interface TelegramUpdate {
+  update_id: number;
+  chat_member?: ChatMemberUpdated;
+}
+
+interface CreateChatInviteLinkParams {
+  name?: string; // Up to 32 characters, shown in the channel's invite list
+  expiresAt?: Date;
+  memberLimit?: number; // 1-99999
+}
+
+/**
+ * Telegram Bot API Service
+ * Official documentation: https://core.telegram.org/bots/api
+ *
+ * The bot must be an administrator of the channel with the "invite users" right.
+ * The API base URL is configurable so a local stub server can stand in for api.telegram.org.
+ */
+export class TelegramBotService {
+  private client: AxiosInstance;
+
+  constructor(config: TelegramBotConfig) {
+    this.client = axios.create({
+      baseURL: `${config.apiBaseURL.replace(/\/+$/, '')}/bot${config.token}`,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+      timeout: 15000, // 15 seconds
+    });
+  }
+
+  /**
+   * Create an additional invite link for a chat
+   *
+   * @param chatId - Channel id (e.g. -1001234567890) or @username
+   */
+  async createChatInviteLink(chatId: string, params: CreateChatInviteLinkParams = {}): Promise<ChatInviteLink> {
+    return this.call<ChatInviteLink>('createChatInviteLink', {
+      chat_id: chatId,
+      name: params.name,
+      expire_date: params.expiresAt ? Math.floor(params.expiresAt.getTime() / 1000) : undefined,
+      member_limit: params.memberLimit,
+    });
+  }
+
+  /**
+   * Revoke an invite link created by the bot
+   */
+  async revokeChatInviteLink(chatId: string, inviteLink: string): Promise<ChatInviteLink> {
+    return this.call<ChatInviteLink>('revokeChatInviteLink', {
+      chat_id: chatId,
+      invite_link: inviteLink,
+    });
+  }
+
+  /**
+   * Remove a member from a chat
+   * Without untilDate the ban is permanent; callers that only want to kick follow up with unbanChatMember.
+   */
+  async banChatMember(chatId: string, userId: string, untilDate?: Date): Promise<true> {
+    return this.call<true>('banChatMember', {
+      chat_id: chatId,
+      user_id: userId,
+      until_date: untilDate ? Math.floor(untilDate.getTime() / 1000) : undefined,
+    });
+  }
+
+  /**
+   * Lift a ban so the user can join again through a new invite
+   */
+  async unbanChatMember(chatId: string, userId: string): Promise<true> {
+    return this.call<true>('unbanChatMember', {
+      chat_id: chatId,
+      user_id: userId,
+      only_if_banned: true,
+    });
+  }
+
+  /**
+   * Send a text message; only works for users who have started a conversation with the bot
+   */
+  async sendMessage(chatId: string, text: string): Promise<unknown> {
+    return this.call<unknown>('sendMessage', {
+      chat_id: chatId,
+      text,
+    });
+  }
+
+  private async call<T>(method: string, payload: Record<string, unknown>): Promise<T> {
+    try {
+      const response = await this.client.post<BotApiResponse<T>>(`/${method}`, payload);
+
+      if (!response.data.ok || !response.data.result) {
+        throw new Error(response.data.description || `Telegram ${method} failed`);
+      }
+
+      return response.data.result;
+    } catch (error: any) {
+      // The Bot API reports errors as { ok: false, description } with a 4xx status
+      const description = error.response?.data?.description;
+      console.error(`Telegram ${method} error:`, description || error.message);
+      throw new Error(description ? `Telegram ${method} failed: ${description}` : error.message);
+    }
+  }
+}
+
+// Export singleton instance
+let telegramBotService: TelegramBotService | null = null;
+
+export function getTelegramBotService(): TelegramBotService {
+  if (!telegramBotService) {
+    const token = process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) {
+      throw new Error('TELEGRAM_BOT_TOKEN environment variable is not set');
+    }
+
+    telegramBotService = new TelegramBotService({
+      token,
+      apiBaseURL: process.env.TELEGRAM_BOT_API_URL || 'https://api.telegram.org',
+    });
+  }
+  return telegramBotService;
+}
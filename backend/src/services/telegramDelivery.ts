@@ -0,0 +1,126 @@
+import { PrismaClient, OrderItem } from '@prisma/client';
+import { getTelegramBotService } from './telegramBot';
+
+const prisma = new PrismaClient();
+
+const INVITE_TTL_MS = (parseInt(process.env.TELEGRAM_INVITE_TTL_HOURS || '') || 24) * 60 * 60 * 1000;
+
+/**
+ * Create a single-use invite for every item of a completed order whose price has a channel
+ * Any previous invite of an item is revoked first, so this can also be used to hand out
+ * fresh links when the old ones expired unused.
+ */
+export async function issueTelegramInvites(orderId: string): Promise<OrderItem[]> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: {
+        include: { price: true },
+      },
+    },
+  });
+
+  if (!order || order.status !== 'COMPLETED') {
+    return [];
+  }
+
+  const issued: OrderItem[] = [];
+
+  for (const item of order.items) {
+    const chatId = item.price?.telegramChatId;
+    if (!chatId) {
+      continue;
+    }
+
+    await revokeTelegramInvite(item);
+
+    const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+    const invite = await getTelegramBotService().createChatInviteLink(chatId, {
+      // Shows up in the channel's invite list, so admins can match members to orders
+      name: `Order ${order.id.slice(0, 8)}`,
+      expiresAt,
+      memberLimit: 1,
+    });
+
+    console.log(`Telegram invite created for order ${order.id} (chat ${chatId})`);
+
+    issued.push(await prisma.orderItem.update({
+      where: { id: item.id },
+      data: {
+        telegramChatId: chatId,
+        telegramInviteLink: invite.invite_link,
+        telegramInviteExpiresAt: expiresAt,
+        telegramInviteRevokedAt: null,
+      },
+    }));
+  }
+
+  return issued;
+}
+
+/**
+ * Whether an item's invite can still be handed to the buyer (issued, not revoked or expired)
+ */
+export function isTelegramInviteUsable(item: OrderItem, now: Date = new Date()): boolean {
+  return !!item.telegramInviteLink
+    && !item.telegramInviteRevokedAt
+    && (!item.telegramInviteExpiresAt || item.telegramInviteExpiresAt > now);
+}
+
+/**
+ * Revoke the invites of every item of an order
+ */
+export async function revokeTelegramInvites(orderId: string): Promise<void> {
+  const items = await prisma.orderItem.findMany({
+    where: { orderId },
+  });
+
+  for (const item of items) {
+    await revokeTelegramInvite(item);
+  }
+}
+
+/**
+ * Revoke an item's invite link so it can no longer be used to join
+ * Members who already joined stay in the channel; removing them is up to the channel admins.
+ */
+export async function revokeTelegramInvite(item: OrderItem): Promise<void> {
+  if (!item.telegramChatId || !item.telegramInviteLink || item.telegramInviteRevokedAt) {
+    return;
+  }
+
+  await getTelegramBotService().revokeChatInviteLink(item.telegramChatId, item.telegramInviteLink);
+
+  await prisma.orderItem.update({
+    where: { id: item.id },
+    data: {
+      telegramInviteRevokedAt: new Date(),
+    },
+  });
+
+  console.log(`Telegram invite revoked for order ${item.orderId}`);
+}
+
+/**
+ * Remember which Telegram account joined through an item's invite
+ * Subscription access is tied to that account, so it can be removed from the channel when the
+ * entitlement expires. Joins through links the shop didn't create are ignored.
+ */
+export async function recordTelegramMember(inviteLink: string, telegramUserId: string): Promise<void> {
+  const item = await prisma.orderItem.findFirst({
+    where: { telegramInviteLink: inviteLink },
+  });
+
+  if (!item) {
+    return;
+  }
+
+  console.log(`Telegram user ${telegramUserId} joined through the invite of order ${item.orderId}`);
+
+  if (item.entitlementId) {
+    await prisma.entitlement.update({
+      where: { id: item.entitlementId },
+      data: { telegramUserId },
+    });
+  }
+}
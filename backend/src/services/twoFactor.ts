@@ -0,0 +1,360 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { PrismaClient } from '@prisma/client';
+import { isStaffRole } from './permissions';
+
+const prisma = new PrismaClient();
+
+// RFC 6238 with the parameters every authenticator app supports
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Steps accepted either side of the current one, for clock drift
+const TOTP_WINDOW = 1;
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'Vip Acess';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// "true" makes every admin and staff member pass a second factor before using the admin area
+export const TWO_FACTOR_SETTING_KEY = 'admin_2fa_required';
+const SETTING_CACHE_MS = 30 * 1000;
+
+// AES-256-GCM key for TOTP secrets, and a separate key for challenge tokens so they can never
+// pass for access tokens
+const jwtSecret = process.env.JWT_SECRET || 'default-secret';
+const SECRET_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.TWO_FACTOR_SECRET || `${jwtSecret}:totp`)
+  .digest();
+const CHALLENGE_KEY = `${jwtSecret}:2fa-challenge`;
+
+let enforcedCache: { value: boolean; checkedAt: number } | null = null;
+
+/**
+ * Thrown when a second factor can't be set up or changed; the message is safe to show
+ */
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+export interface TwoFactorEnrollment {
+  secret: string; // Base32, for typing into an authenticator by hand
+  otpauthUri: string;
+  qrCode: string; // Data URL of otpauthUri
+}
+
+// What a user must do after their password is accepted
+export type TwoFactorStep = 'verify' | 'enroll' | null;
+
+export interface SecondFactor {
+  code?: unknown;
+  recoveryCode?: unknown;
+}
+
+/**
+ * Whether every admin and staff member must use two-factor authentication (the admin_2fa_required setting)
+ */
+export async function isTwoFactorEnforced(): Promise<boolean> {
+  const now = Date.now();
+  if (enforcedCache && now - enforcedCache.checkedAt < SETTING_CACHE_MS) {
+    return enforcedCache.value;
+  }
+
+  const setting = await prisma.setting.findUnique({
+    where: { key: TWO_FACTOR_SETTING_KEY },
+  });
+  enforcedCache = { value: setting?.value === 'true', checkedAt: now };
+  return enforcedCache.value;
+}
+
+export async function setTwoFactorEnforced(required: boolean): Promise<void> {
+  const value = required ? 'true' : 'false';
+  await prisma.setting.upsert({
+    where: { key: TWO_FACTOR_SETTING_KEY },
+    update: { value },
+    create: { key: TWO_FACTOR_SETTING_KEY, value },
+  });
+  enforcedCache = { value: required, checkedAt: Date.now() };
+}
+
+/**
+ * Second step a password login needs: a code from users with 2FA on, enrollment from admin and
+ * staff accounts without it while 2FA is enforced
+ */
+export async function twoFactorStepFor(user: { role: string; totpEnabledAt: Date | null }): Promise<TwoFactorStep> {
+  if (user.totpEnabledAt) {
+    return 'verify';
+  }
+  if (isStaffRole(user.role) && (await isTwoFactorEnforced())) {
+    return 'enroll';
+  }
+  return null;
+}
+
+/**
+ * Short-lived proof that a user's password was accepted, traded for a session at
+ * POST /api/auth/2fa/challenge/verify
+ */
+export function signChallengeToken(userId: string, step: Exclude<TwoFactorStep, null>): string {
+  return jwt.sign({ userId, step }, CHALLENGE_KEY, { expiresIn: CHALLENGE_TTL_SECONDS });
+}
+
+export function verifyChallengeToken(token: unknown): { userId: string; step: Exclude<TwoFactorStep, null> } | null {
+  if (typeof token !== 'string') {
+    return null;
+  }
+  try {
+    const payload = jwt.verify(token, CHALLENGE_KEY) as { userId: string; step: Exclude<TwoFactorStep, null> };
+    return { userId: payload.userId, step: payload.step };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Generate a new secret for the user, replacing any pending one
+ * It only takes effect once a code from it is confirmed (confirmEnrollment).
+ */
+export async function startEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true, totpEnabledAt: true },
+  });
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled');
+  }
+
+  const secret = toBase32(crypto.randomBytes(20));
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: encryptSecret(secret), totpLastStep: null },
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const otpauthUri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauthUri,
+    qrCode: await QRCode.toDataURL(otpauthUri, { width: 256, margin: 1 }),
+  };
+}
+
+/**
+ * Turn 2FA on with the first code from the pending secret; returns the recovery codes
+ */
+export async function confirmEnrollment(userId: string, code: unknown): Promise<string[]> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled');
+  }
+
+  const secret = user.totpSecret ? decryptSecret(user.totpSecret) : null;
+  if (!secret) {
+    throw new TwoFactorError('Start the setup again to get a new QR code');
+  }
+
+  const step = matchingStep(secret, code);
+  if (step === null) {
+    throw new TwoFactorError('Invalid code');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Conditional, so two confirmations can't both hand out recovery codes
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, totpEnabledAt: null, totpSecret: user.totpSecret },
+      data: { totpEnabledAt: new Date(), totpLastStep: step },
+    });
+    if (count === 0) {
+      throw new TwoFactorError('Two-factor authentication is already enabled');
+    }
+    return replaceRecoveryCodes(tx, userId);
+  });
+}
+
+/**
+ * Check a TOTP code or an unused recovery code; each can be used once
+ */
+export async function verifySecondFactor(userId: string, factor: SecondFactor): Promise<boolean> {
+  if (typeof factor.recoveryCode === 'string' && factor.recoveryCode.trim()) {
+    return useRecoveryCode(userId, factor.recoveryCode);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastStep: true },
+  });
+  if (!user?.totpEnabledAt || !user.totpSecret) {
+    return false;
+  }
+
+  const secret = decryptSecret(user.totpSecret);
+  const step = secret ? matchingStep(secret, factor.code) : null;
+  if (step === null || (user.totpLastStep !== null && step <= user.totpLastStep)) {
+    return false;
+  }
+
+  // Conditional on the last step, so the same code can't be accepted twice concurrently
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+    },
+    data: { totpLastStep: step },
+  });
+  return count > 0;
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  return prisma.$transaction((tx) => replaceRecoveryCodes(tx, userId));
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const [user, recoveryCodesLeft] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { totpEnabledAt: true },
+    }),
+    prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+  ]);
+
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    recoveryCodesLeft,
+  };
+}
+
+async function useRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+}
+
+async function replaceRecoveryCodes(
+  tx: Pick<PrismaClient, 'twoFactorRecoveryCode'>,
+  userId: string
+): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = toBase32(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+  await tx.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  });
+  return codes;
+}
+
+/**
+ * Time step `code` is valid for, within the drift window, or null
+ */
+function matchingStep(secret: string, code: unknown): number | null {
+  if (typeof code !== 'string' && typeof code !== 'number') {
+    return null;
+  }
+  const normalized = String(code).replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const expected = totpCode(secret, current + offset);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return current + offset;
+    }
+  }
+  return null;
+}
+
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', fromBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const value = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return value.toString().padStart(TOTP_DIGITS, '0');
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function toBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function fromBase32(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(code.trim().toLowerCase().replace(/[^a-z0-9]/g, ''))
+    .digest('hex');
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', SECRET_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+function decryptSecret(value: string): string | null {
+  try {
+    const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', SECRET_KEY, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  } catch (error) {
+    console.error('Failed to decrypt TOTP secret:', (error as Error).message);
+    return null;
+  }
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { authAPI, meAPI, paymentAPI, MyOrder, Pagination, PixPaymentResponse } from '@/lib/api';
+import { Link, useRouter } from '@/i18n/routing';
+import { formatMoney } from '@/lib/money';
+import ClaimAccountForm from '@/components/ClaimAccountForm';
+import SessionList from '@/components/SessionList';
+
+// Lapsed charges can get a new code for this long, as on the payment page
+const REGENERATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export default function AccountPage() {
+  const t = useTranslations('account');
+  const locale = useLocale();
+  const router = useRouter();
+
+  const [orders, setOrders] = useState<MyOrder[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [hasAccount, setHasAccount] = useState(false);
+  const [emailUnverified, setEmailUnverified] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
+
+  useEffect(() => {
+    const role = authAPI.getSessionRole();
+    const registered = !!role && role !== 'GUEST';
+    setHasAccount(registered);
+    if (registered) {
+      authAPI
+        .getMe()
+        .then((me) => setEmailUnverified(!me.user.emailVerified))
+        .catch((err) => console.error('Failed to fetch account:', err));
+    }
+  }, []);
+
+  const resendVerification = async () => {
+    try {
+      await authAPI.resendVerification(locale);
+      setVerificationSent(true);
+    } catch (err: any) {
+      alert(err.response?.data?.error || t('verificationFailed'));
+    }
+  };
+
+  useEffect(() => {
+    fetchOrders();
+  }, [page]);
+
+  const fetchOrders = async () => {
+    setLoading(true);
+    try {
+      const data = await meAPI.getOrders(page);
+      setOrders(data.orders);
+      setPagination(data.pagination);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch orders:', err);
+      setError(t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPayment = (orderId: string, payment: PixPaymentResponse) => {
+    // Card payments are completed on the gateway's hosted checkout page
+    if (payment.checkoutUrl) {
+      window.location.href = payment.checkoutUrl;
+      return;
+    }
+    sessionStorage.setItem(`payment_${orderId}`, JSON.stringify(payment));
+    router.push(`/payment/${orderId}`);
+  };
+
+  const handleResume = async (order: MyOrder) => {
+    setOpeningId(order.id);
+    try {
+      const payment = order.resumable
+        ? (await meAPI.getOrderPayment(order.id)).payment
+        : await paymentAPI.regenerateOrder(order.id, { locale });
+      openPayment(order.id, payment);
+    } catch (err: any) {
+      if (err.response?.data?.code === 'ALREADY_PAID') {
+        router.push(`/payment/success/${order.id}`);
+        return;
+      }
+      alert(err.response?.data?.error || t('resumeFailed'));
+      console.error(err);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  // Pending orders whose code lapsed, and orders that failed for lack of payment, can get a new code;
+  // the server has the last word
+  const canRegenerate = (order: MyOrder) =>
+    !order.resumable &&
+    (order.status === 'PENDING' || order.status === 'FAILED') &&
+    Date.now() - new Date(order.createdAt).getTime() < REGENERATE_WINDOW_MS;
+
+  const formatDate = (value: string) => new Date(value).toLocaleDateString(locale);
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-8">{t('title')}</h1>
+
+        <ClaimAccountForm />
+
+        {emailUnverified && (
+          <div className="card-noir mb-8 flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-gray-300">{verificationSent ? t('verificationSent') : t('emailUnverified')}</p>
+            {!verificationSent && (
+              <button onClick={resendVerification} className="btn-secondary text-sm">
+                {t('resendVerification')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-accent-emerald"></div>
+          </div>
+        ) : error ? (
+          <div className="card-noir text-center">
+            <p className="text-red-400 mb-4">{error}</p>
+            <button onClick={fetchOrders} className="btn-secondary">
+              {t('retry')}
+            </button>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="card-noir text-center">
+            <p className="text-gray-400 mb-4">{t('empty')}</p>
+            <Link href="/store" className="btn-primary inline-block">
+              {t('browse')}
+            </Link>
+          </div>
+        ) : (
+          <>
+            {orders.map((order) => (
+              <div key={order.id} className="card-noir mb-6">
+                <div className="flex flex-wrap justify-between items-start gap-2 mb-4">
+                  <div>
+                    <p className="text-sm text-gray-500 font-mono">{t('orderNumber', { id: order.id.slice(0, 8) })}</p>
+                    <p className="text-sm text-gray-400">
+                      {order.paidAt
+                        ? t('paidOn', { date: formatDate(order.paidAt) })
+                        : t('placedOn', { date: formatDate(order.createdAt) })}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-accent-emerald font-semibold">
+                      {formatMoney(order.totalInCents, order.currency, locale)}
+                    </p>
+                    <p className={`text-xs uppercase ${order.status === 'COMPLETED' ? 'text-green-400' : 'text-gray-500'}`}>
+                      {t(`status.${order.status}`)}
+                    </p>
+                  </div>
+                </div>
+
+                {order.items.map((item) => (
+                  <div key={item.id} className="flex gap-4 border-t border-noir-light pt-4 mt-4">
+                    {item.price?.product.imageUrl && (
+                      <img
+                        src={item.price.product.imageUrl}
+                        alt={item.price.product.name}
+                        className="w-16 h-16 object-cover rounded"
+                      />
+                    )}
+                    <div className="flex-1">
+                      <p className="font-semibold">{item.price?.product.name ?? '—'}</p>
+                      {item.price?.category && <p className="text-sm text-gray-500">{item.price.category}</p>}
+
+                      {order.status === 'COMPLETED' && (
+                        <div className="mt-2">
+                          {item.delivery && (
+                            <div>
+                              <a
+                                href={item.delivery.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="btn-primary inline-block"
+                              >
+                                {t('access')}
+                              </a>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {t('usesLeft', {
+                                  count: item.delivery.remainingUses,
+                                  date: formatDate(item.delivery.expiresAt),
+                                })}
+                              </p>
+                            </div>
+                          )}
+                          {item.telegramInviteLink && (
+                            <a
+                              href={item.telegramInviteLink}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="btn-secondary inline-block mt-2"
+                            >
+                              {t('joinTelegram')}
+                            </a>
+                          )}
+                          {!item.delivery && !item.telegramInviteLink && (
+                            <p className="text-sm text-gray-500">{t('noDelivery')}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+
+                {(order.resumable || canRegenerate(order)) && (
+                  <button
+                    onClick={() => handleResume(order)}
+                    disabled={openingId === order.id}
+                    className="btn-primary w-full mt-4 disabled:opacity-50"
+                  >
+                    {openingId === order.id ? t('opening') : order.resumable ? t('payNow') : t('newCode')}
+                  </button>
+                )}
+              </div>
+            ))}
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex justify-between items-center">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  {t('previous')}
+                </button>
+                <span className="text-sm text-gray-400">
+                  {t('pageOf', { page: pagination.page, totalPages: pagination.totalPages })}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  {t('next')}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+
+        {hasAccount && (
+          <div className="mt-8">
+            <SessionList />
+          </div>
+        )}
+
+        <p className="text-sm text-gray-400 text-center mt-8">
+          {t('lostOrders')}{' '}
+          <Link href="/recover" className="text-accent-emerald hover:underline">
+            {t('recover')}
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
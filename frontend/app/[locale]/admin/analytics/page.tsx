@@ -19,6 +19,8 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { format, subDays, startOfDay, endOfDay } from 'date-fns';
+import { formatMoney, fromMinorUnits } from '@/lib/money';
+import { getAccessToken } from '@/lib/api';
 
 interface AnalyticsData {
   summary: {
@@ -29,6 +31,10 @@ interface AnalyticsData {
     conversionRate: number;
     uniqueCustomers: number;
     averageOrderValue: number;
+    totalDiscount: number;
+    couponRedemptions: number;
+    currency: string; // Amounts are minor units of this currency
+    unconvertedOrders: number; // Orders in a currency without a rate to `currency`
   };
   revenueByProduct: Array<{
     productId: string;
@@ -45,6 +51,13 @@ interface AnalyticsData {
     date: string;
     revenue: number;
   }>;
+  couponRedemptions: Array<{
+    couponId: string;
+    code: string;
+    redemptions: number;
+    discount: number;
+    revenue: number;
+  }>;
   recentOrders: any[];
 }
 
@@ -106,7 +119,7 @@ export default function AnalyticsPage() {
 
   const fetchProducts = async () => {
     try {
-      const token = localStorage.getItem('auth_token');
+      const token = await getAccessToken();
       const response = await axios.get(
         `${process.env.NEXT_PUBLIC_API_URL}/api/admin/products`,
         {
@@ -122,7 +135,7 @@ export default function AnalyticsPage() {
   const fetchAnalytics = async () => {
     try {
       setLoading(true);
-      const token = localStorage.getItem('auth_token');
+      const token = await getAccessToken();
       const params = new URLSearchParams();
 
       if (filters.startDate) params.append('startDate', filters.startDate);
@@ -144,10 +157,7 @@ export default function AnalyticsPage() {
   };
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(value);
+    return formatMoney(value, analytics?.summary.currency ?? 'BRL', 'pt-BR');
   };
 
   const formatDate = (dateString: string) => {
@@ -331,7 +341,10 @@ export default function AnalyticsPage() {
               stroke="#9CA3AF"
               tickFormatter={(value) => formatDate(value)}
             />
-            <YAxis stroke="#9CA3AF" />
+            <YAxis
+              stroke="#9CA3AF"
+              tickFormatter={(value: number) => String(fromMinorUnits(value, analytics.summary.currency))}
+            />
             <Tooltip
               contentStyle={{
                 backgroundColor: '#1F2937',
@@ -365,7 +378,10 @@ export default function AnalyticsPage() {
             <BarChart data={analytics.revenueByProduct}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis dataKey="productName" stroke="#9CA3AF" />
-              <YAxis stroke="#9CA3AF" />
+              <YAxis
+                stroke="#9CA3AF"
+                tickFormatter={(value: number) => String(fromMinorUnits(value, analytics.summary.currency))}
+              />
               <Tooltip
                 contentStyle={{
                   backgroundColor: '#1F2937',
@@ -466,6 +482,58 @@ export default function AnalyticsPage() {
           </table>
         </div>
       </div>
+
+      {/* Coupon Redemptions Table */}
+      <div className="bg-noir-light rounded-lg p-6 border border-noir-lighter">
+        <h3 className="text-lg font-semibold text-accent-emerald mb-4">
+          {t('couponRedemptions')}
+        </h3>
+        {analytics.couponRedemptions.length === 0 ? (
+          <p className="text-gray-400">{t('noCouponRedemptions')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-noir-lighter">
+                  <th className="text-left py-3 px-4 text-gray-400 font-medium">
+                    {t('coupon')}
+                  </th>
+                  <th className="text-right py-3 px-4 text-gray-400 font-medium">
+                    {t('orders')}
+                  </th>
+                  <th className="text-right py-3 px-4 text-gray-400 font-medium">
+                    {t('discountGiven')}
+                  </th>
+                  <th className="text-right py-3 px-4 text-gray-400 font-medium">
+                    {t('revenue')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.couponRedemptions.map((coupon) => (
+                  <tr
+                    key={coupon.couponId}
+                    className="border-b border-noir-darker hover:bg-noir-darker transition-colors"
+                  >
+                    <td className="py-3 px-4 text-gray-300 font-mono">
+                      {coupon.code}
+                    </td>
+                    <td className="py-3 px-4 text-right text-gray-300">
+                      {coupon.redemptions}
+                    </td>
+                    <td className="py-3 px-4 text-right text-accent-gold">
+                      {formatCurrency(coupon.discount)}
+                    </td>
+                    <td className="py-3 px-4 text-right text-accent-emerald font-semibold">
+                      {formatCurrency(coupon.revenue)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
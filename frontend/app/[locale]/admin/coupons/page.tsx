@@ -0,0 +1,459 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { adminAPI, Coupon, CouponInput, Product } from '@/lib/api';
+import { formatMoney, fromMinorUnits, toMinorUnits } from '@/lib/money';
+
+const emptyForm = {
+  code: '',
+  type: 'PERCENT' as 'PERCENT' | 'FIXED',
+  value: '',
+  currency: '',
+  minAmount: '', // Decimal input; the API takes minor units
+  maxRedemptions: '',
+  maxRedemptionsPerUser: '',
+  startsAt: '',
+  endsAt: '',
+  regionCodes: '',
+  productIds: [] as string[],
+  priceIds: [] as string[],
+  isActive: true,
+};
+
+// Coupons without a currency apply to any; their amounts are shown as plain decimals
+const formatCouponAmount = (amountInCents: number, currency: string | null) =>
+  currency ? formatMoney(amountInCents, currency) : fromMinorUnits(amountInCents, 'BRL').toFixed(2);
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (date: string | null) => {
+  if (!date) return '';
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export default function AdminCouponsPage() {
+  const t = useTranslations('admin');
+  const tCommon = useTranslations('common');
+
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [couponData, productData] = await Promise.all([
+        adminAPI.getCoupons(),
+        adminAPI.getProducts(),
+      ]);
+      setCoupons(couponData.coupons);
+      setProducts(productData.products);
+    } catch (err) {
+      console.error('Failed to fetch coupons:', err);
+      alert('Failed to load coupons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleId = (list: string[], id: string) =>
+    list.includes(id) ? list.filter((item) => item !== id) : [...list, id];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const optionalNumber = (value: string) => (value === '' ? null : parseFloat(value));
+    const amountCurrency = form.currency || 'BRL';
+
+    const data: CouponInput = {
+      code: form.code,
+      type: form.type,
+      value: form.type === 'PERCENT'
+        ? parseInt(form.value, 10)
+        : toMinorUnits(parseFloat(form.value), amountCurrency),
+      currency: form.currency || null,
+      minAmountInCents: form.minAmount === '' ? null : toMinorUnits(parseFloat(form.minAmount), amountCurrency),
+      maxRedemptions: optionalNumber(form.maxRedemptions),
+      maxRedemptionsPerUser: optionalNumber(form.maxRedemptionsPerUser),
+      startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+      endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+      regionCodes: form.regionCodes
+        .split(',')
+        .map((code) => code.trim().toUpperCase())
+        .filter(Boolean),
+      productIds: form.productIds,
+      priceIds: form.priceIds,
+      isActive: form.isActive,
+    };
+
+    try {
+      if (editingCoupon) {
+        await adminAPI.updateCoupon(editingCoupon.id, data);
+      } else {
+        await adminAPI.createCoupon(data);
+      }
+      setShowForm(false);
+      setEditingCoupon(null);
+      setForm(emptyForm);
+      fetchData();
+    } catch (err: any) {
+      console.error('Failed to save coupon:', err);
+      alert(err.response?.data?.error || 'Failed to save coupon');
+    }
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setForm({
+      code: coupon.code,
+      type: coupon.type,
+      value: coupon.type === 'PERCENT'
+        ? coupon.value.toString()
+        : fromMinorUnits(coupon.value, coupon.currency || 'BRL').toString(),
+      currency: coupon.currency || '',
+      minAmount: coupon.minAmountInCents !== null
+        ? fromMinorUnits(coupon.minAmountInCents, coupon.currency || 'BRL').toString()
+        : '',
+      maxRedemptions: coupon.maxRedemptions?.toString() ?? '',
+      maxRedemptionsPerUser: coupon.maxRedemptionsPerUser?.toString() ?? '',
+      startsAt: toLocalInput(coupon.startsAt),
+      endsAt: toLocalInput(coupon.endsAt),
+      regionCodes: coupon.regionCodes.join(', '),
+      productIds: coupon.productIds,
+      priceIds: coupon.priceIds,
+      isActive: coupon.isActive,
+    });
+    setShowForm(true);
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      await adminAPI.updateCoupon(coupon.id, { isActive: !coupon.isActive });
+      fetchData();
+    } catch (err: any) {
+      console.error('Failed to update coupon:', err);
+      alert(err.response?.data?.error || 'Failed to update coupon');
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+    try {
+      await adminAPI.deleteCoupon(coupon.id);
+      fetchData();
+    } catch (err: any) {
+      console.error('Failed to delete coupon:', err);
+      alert(err.response?.data?.error || 'Failed to delete coupon');
+    }
+  };
+
+  const describeScope = (coupon: Coupon) => {
+    const parts: string[] = [];
+    if (coupon.productIds.length > 0) {
+      parts.push(
+        products
+          .filter((product) => coupon.productIds.includes(product.id))
+          .map((product) => product.name)
+          .join(', ') || `${coupon.productIds.length} product(s)`
+      );
+    }
+    if (coupon.priceIds.length > 0) {
+      parts.push(`${coupon.priceIds.length} price tier(s)`);
+    }
+    if (coupon.regionCodes.length > 0) {
+      parts.push(coupon.regionCodes.join(', '));
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'All products';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-accent-emerald"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <button
+          onClick={() => {
+            setShowForm(!showForm);
+            setEditingCoupon(null);
+            setForm(emptyForm);
+          }}
+          className="btn-primary"
+        >
+          {showForm ? tCommon('cancel') : 'Create Coupon'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="card-noir mb-8">
+          <h2 className="text-2xl font-bold mb-6 text-accent-emerald">
+            {editingCoupon ? `Edit ${editingCoupon.code}` : 'Create Coupon'}
+          </h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Code *</label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className="input-noir"
+                  placeholder="BLACKFRIDAY"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Type *</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as 'PERCENT' | 'FIXED' })}
+                  className="input-noir"
+                >
+                  <option value="PERCENT">Percentage</option>
+                  <option value="FIXED">Fixed amount</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  {form.type === 'PERCENT' ? 'Percent off *' : 'Amount off *'}
+                </label>
+                <input
+                  type="number"
+                  step={form.type === 'PERCENT' ? '1' : '0.01'}
+                  min="0"
+                  max={form.type === 'PERCENT' ? 100 : undefined}
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  className="input-noir"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Currency</label>
+                <select
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                  className="input-noir"
+                >
+                  <option value="">Any</option>
+                  <option value="BRL">BRL</option>
+                  <option value="USD">USD</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Fixed-amount coupons only apply to prices listed in this currency
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Minimum order</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.minAmount}
+                  onChange={(e) => setForm({ ...form, minAmount: e.target.value })}
+                  className="input-noir"
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Max redemptions</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.maxRedemptions}
+                  onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                  className="input-noir"
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Max redemptions per user</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.maxRedemptionsPerUser}
+                  onChange={(e) => setForm({ ...form, maxRedemptionsPerUser: e.target.value })}
+                  className="input-noir"
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Starts at</label>
+                <input
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                  className="input-noir"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Ends at</label>
+                <input
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                  className="input-noir"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Regions</label>
+              <input
+                type="text"
+                value={form.regionCodes}
+                onChange={(e) => setForm({ ...form, regionCodes: e.target.value })}
+                className="input-noir"
+                placeholder="BR, NON_BR"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Comma-separated country codes. NON_BR matches every country except Brazil. Leave empty for all regions.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Applies to</label>
+              <p className="text-xs text-gray-500 mb-2">
+                Leave everything unchecked to apply the coupon to every product.
+              </p>
+              <div className="space-y-2 max-h-64 overflow-y-auto bg-noir-medium p-3 rounded">
+                {products.map((product) => (
+                  <div key={product.id}>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={form.productIds.includes(product.id)}
+                        onChange={() => setForm({ ...form, productIds: toggleId(form.productIds, product.id) })}
+                      />
+                      <span className="text-gray-200">{product.name}</span>
+                    </label>
+                    {product.prices && product.prices.length > 0 && (
+                      <div className="ml-6 flex flex-wrap gap-3">
+                        {product.prices.map((price) => (
+                          <label key={price.id} className="flex items-center gap-1 text-sm text-gray-400">
+                            <input
+                              type="checkbox"
+                              checked={form.priceIds.includes(price.id)}
+                              onChange={() => setForm({ ...form, priceIds: toggleId(form.priceIds, price.id) })}
+                            />
+                            {price.category} ({formatMoney(price.amountInCents, price.currency)})
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="couponActive"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              <label htmlFor="couponActive" className="text-sm">Active</label>
+            </div>
+
+            <button type="submit" className="btn-primary">
+              {tCommon('save')}
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="card-noir overflow-x-auto">
+        <h2 className="text-2xl font-bold mb-6 text-accent-emerald">{t('coupons')}</h2>
+        {coupons.length === 0 ? (
+          <p className="text-gray-400">No coupons yet</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-noir-light">
+                <th className="text-left py-3 px-4">Code</th>
+                <th className="text-left py-3 px-4">Discount</th>
+                <th className="text-left py-3 px-4">Scope</th>
+                <th className="text-left py-3 px-4">Valid</th>
+                <th className="text-right py-3 px-4">Redemptions</th>
+                <th className="text-right py-3 px-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {coupons.map((coupon) => (
+                <tr key={coupon.id} className="border-b border-noir-light hover:bg-noir-light">
+                  <td className="py-3 px-4">
+                    <span className="font-mono font-bold">{coupon.code}</span>
+                    {!coupon.isActive && (
+                      <span className="ml-2 text-xs text-red-400">inactive</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    {coupon.type === 'PERCENT'
+                      ? `${coupon.value}%`
+                      : formatCouponAmount(coupon.value, coupon.currency)}
+                    {coupon.minAmountInCents !== null && (
+                      <span className="block text-xs text-gray-500">
+                        min {formatCouponAmount(coupon.minAmountInCents, coupon.currency)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-400">{describeScope(coupon)}</td>
+                  <td className="py-3 px-4 text-sm text-gray-400">
+                    {coupon.startsAt ? new Date(coupon.startsAt).toLocaleDateString() : '—'}
+                    {' → '}
+                    {coupon.endsAt ? new Date(coupon.endsAt).toLocaleDateString() : '—'}
+                  </td>
+                  <td className="py-3 px-4 text-right">
+                    {coupon._count?.redemptions ?? 0}
+                    {coupon.maxRedemptions !== null && ` / ${coupon.maxRedemptions}`}
+                  </td>
+                  <td className="py-3 px-4 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleEdit(coupon)}
+                      className="text-accent-emerald hover:underline text-sm mr-3"
+                    >
+                      {tCommon('edit')}
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(coupon)}
+                      className="text-accent-gold hover:underline text-sm mr-3"
+                    >
+                      {coupon.isActive ? 'Deactivate' : 'Activate'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(coupon)}
+                      className="text-red-400 hover:underline text-sm"
+                    >
+                      {tCommon('delete')}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
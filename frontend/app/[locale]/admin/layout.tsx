@@ -2,28 +2,79 @@
 
 import { useEffect, useState } from 'react';
 import { useTranslations } from 'next-intl';
-import { Link, useRouter } from '@/i18n/routing';
+import { Link, usePathname, useRouter } from '@/i18n/routing';
+import { authAPI, twoFactorAPI, Permission } from '@/lib/api';
+import TwoFactorSetup from '@/components/TwoFactorSetup';
+import TwoFactorCodeForm from '@/components/TwoFactorCodeForm';
+
+// Sections of the admin area and the permission each one needs to be shown
+const SECTIONS: { href: string; label: string; permission: Permission }[] = [
+  { href: '/admin/analytics', label: 'analytics', permission: 'analytics:read' },
+  { href: '/admin/products', label: 'products', permission: 'products:read' },
+  { href: '/admin/orders', label: 'orders', permission: 'orders:read' },
+  { href: '/admin/coupons', label: 'coupons', permission: 'coupons:read' },
+  { href: '/admin/settings', label: 'settings', permission: 'settings:read' },
+  { href: '/admin/team', label: 'team', permission: 'staff:manage' },
+];
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
   const router = useRouter();
+  const pathname = usePathname();
   const t = useTranslations('admin');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  // Second factor this session still has to pass while 2FA is enforced
+  const [twoFactorStep, setTwoFactorStep] = useState<'verify' | 'enroll' | null>(null);
 
   useEffect(() => {
     // Check if user has auth token
     const token = localStorage.getItem('auth_token');
     if (!token) {
-      router.push('/');
+      router.push('/login');
       return;
     }
 
-    // In a real app, you'd verify the token and check if user is admin
-    // For now, we'll just check if token exists
-    setIsAuthenticated(true);
-    setLoading(false);
+    // The API checks permissions on every request; this only shapes the navigation and catches
+    // sessions that still need 2FA
+    const checkAccess = async () => {
+      try {
+        const me = await authAPI.getMe();
+        if (me.permissions.length === 0) {
+          router.push('/account');
+          return;
+        }
+        setPermissions(me.permissions);
+      } catch (err) {
+        console.error('Failed to load permissions:', err);
+        router.push('/login');
+        return;
+      }
+
+      try {
+        const status = await twoFactorAPI.getStatus();
+        if (status.required && !status.sessionVerified) {
+          setTwoFactorStep(status.enabled ? 'verify' : 'enroll');
+        }
+      } catch (err) {
+        console.error('Failed to check two-factor status:', err);
+      }
+      setIsAuthenticated(true);
+      setLoading(false);
+    };
+
+    checkAccess();
   }, [router]);
 
+  const sections = SECTIONS.filter((section) => permissions.includes(section.permission));
+
+  // A section the user can't see (e.g. a bookmarked link) sends them to the first one they can
+  useEffect(() => {
+    if (sections.length > 0 && !sections.some((section) => pathname.startsWith(section.href))) {
+      router.replace(sections[0].href);
+    }
+  }, [pathname, permissions]);
+
 
   if (loading) {
     return (
@@ -39,6 +90,32 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     return null;
   }
 
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen py-16 px-4">
+        <div className="max-w-md mx-auto card-noir">
+          <p className="text-sm text-gray-400 mb-4">
+            Two-factor authentication is required for the admin area.
+          </p>
+          {twoFactorStep === 'enroll' ? (
+            <TwoFactorSetup
+              start={twoFactorAPI.setup}
+              confirm={async (code) => (await twoFactorAPI.enable(code)).recoveryCodes}
+              onDone={() => setTwoFactorStep(null)}
+            />
+          ) : (
+            <TwoFactorCodeForm
+              onSubmit={async (factor) => {
+                await twoFactorAPI.verifySession(factor);
+                setTwoFactorStep(null);
+              }}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-noir-darker">
       <div className="max-w-7xl mx-auto px-4 py-8">
@@ -50,30 +127,15 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
 
           {/* Navigation */}
           <nav className="flex gap-4 border-b border-noir-light pb-4">
-            <Link
-              href="/admin/analytics"
-              className="px-4 py-2 text-gray-300 hover:text-accent-emerald transition-colors"
-            >
-              {t('analytics')}
-            </Link>
-            <Link
-              href="/admin/products"
-              className="px-4 py-2 text-gray-300 hover:text-accent-emerald transition-colors"
-            >
-              {t('products')}
-            </Link>
-            <Link
-              href="/admin/orders"
-              className="px-4 py-2 text-gray-300 hover:text-accent-emerald transition-colors"
-            >
-              {t('orders')}
-            </Link>
-            <Link
-              href="/admin/settings"
-              className="px-4 py-2 text-gray-300 hover:text-accent-emerald transition-colors"
-            >
-              {t('settings')}
-            </Link>
+            {sections.map((section) => (
+              <Link
+                key={section.href}
+                href={section.href}
+                className="px-4 py-2 text-gray-300 hover:text-accent-emerald transition-colors"
+              >
+                {t(section.label)}
+              </Link>
+            ))}
           </nav>
         </div>
 
@@ -1,13 +1,29 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { useTranslations } from 'next-intl';
-import { adminAPI, Order } from '@/lib/api';
+import { adminAPI, paymentAPI, Order, OrderEvent, OrderItem } from '@/lib/api';
+import { formatMoney } from '@/lib/money';
+import SessionList from '@/components/SessionList';
+
+const statusBadgeClass = (status: Order['status']) =>
+  status === 'COMPLETED'
+    ? 'bg-green-500/20 text-green-400'
+    : status === 'PENDING'
+    ? 'bg-yellow-500/20 text-yellow-400'
+    : status === 'REFUNDED' || status === 'DISPUTED'
+    ? 'bg-purple-500/20 text-purple-400'
+    : 'bg-red-500/20 text-red-400';
 
 export default function AdminOrdersPage() {
   const t = useTranslations('admin');
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [loadingEvents, setLoadingEvents] = useState(false);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
 
   useEffect(() => {
     fetchOrders();
@@ -24,6 +40,82 @@ export default function AdminOrdersPage() {
     }
   };
 
+  const fetchEvents = async (orderId: string) => {
+    setLoadingEvents(true);
+    try {
+      const data = await paymentAPI.getOrder(orderId);
+      setEvents(data.order.events || []);
+      setOrderItems(data.order.items || []);
+    } catch (err) {
+      console.error('Failed to fetch order events:', err);
+      setEvents([]);
+      setOrderItems([]);
+    } finally {
+      setLoadingEvents(false);
+    }
+  };
+
+  const toggleOrder = (orderId: string) => {
+    if (expandedOrderId === orderId) {
+      setExpandedOrderId(null);
+      return;
+    }
+    setExpandedOrderId(orderId);
+    fetchEvents(orderId);
+  };
+
+  const handleSetStatus = async (orderId: string, status: 'COMPLETED' | 'FAILED') => {
+    if (!confirm(t('confirmStatusChange'))) return;
+
+    setUpdatingStatus(true);
+    try {
+      const data = await adminAPI.setOrderStatus(orderId, status);
+      setOrders((current) => current.map((order) => (
+        order.id === orderId ? { ...order, ...data.order } : order
+      )));
+      await fetchEvents(orderId);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to update order status');
+      console.error(err);
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  const handleRefund = async (orderId: string) => {
+    if (!confirm(t('confirmRefund'))) return;
+
+    setUpdatingStatus(true);
+    try {
+      const data = await adminAPI.refundOrder(orderId);
+      setOrders((current) => current.map((order) => (
+        order.id === orderId ? { ...order, ...data.order } : order
+      )));
+      if (!data.gatewayRefunded) {
+        alert(t('refundManualNotice'));
+      }
+      await fetchEvents(orderId);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to refund order');
+      console.error(err);
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  const handleReissueInvite = async (orderId: string) => {
+    setUpdatingStatus(true);
+    try {
+      await adminAPI.reissueTelegramInvite(orderId);
+      await fetchEvents(orderId);
+    } catch (err: any) {
+      alert(err.response?.data?.message || err.response?.data?.error || 'Failed to issue Telegram invite');
+      console.error(err);
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-16">
@@ -55,34 +147,178 @@ export default function AdminOrdersPage() {
             </thead>
             <tbody>
               {orders.map((order) => (
-                <tr key={order.id} className="border-b border-noir-medium">
-                  <td className="py-3 px-4 font-mono text-sm">
-                    {order.id.slice(0, 8)}...
-                  </td>
-                  <td className="py-3 px-4">{order.user?.email || 'N/A'}</td>
-                  <td className="py-3 px-4">
-                    {order.price?.product?.name || 'N/A'}
-                  </td>
-                  <td className="py-3 px-4">
-                    {order.price?.amount} {order.price?.currency}
-                  </td>
-                  <td className="py-3 px-4">
-                    <span
-                      className={`px-2 py-1 rounded text-sm ${
-                        order.status === 'COMPLETED'
-                          ? 'bg-green-500/20 text-green-400'
-                          : order.status === 'PENDING'
-                          ? 'bg-yellow-500/20 text-yellow-400'
-                          : 'bg-red-500/20 text-red-400'
-                      }`}
-                    >
-                      {order.status}
-                    </span>
-                  </td>
-                  <td className="py-3 px-4">
-                    {new Date(order.createdAt).toLocaleDateString()}
-                  </td>
-                </tr>
+                <Fragment key={order.id}>
+                  <tr
+                    onClick={() => toggleOrder(order.id)}
+                    className="border-b border-noir-medium cursor-pointer hover:bg-noir-medium/50"
+                  >
+                    <td className="py-3 px-4 font-mono text-sm">
+                      {order.id.slice(0, 8)}...
+                    </td>
+                    <td className="py-3 px-4">{order.user?.email || 'N/A'}</td>
+                    <td className="py-3 px-4">
+                      {order.items && order.items.length > 0
+                        ? order.items.map((item) => item.price?.product?.name || 'N/A').join(', ')
+                        : 'N/A'}
+                    </td>
+                    <td className="py-3 px-4">
+                      {formatMoney(
+                        (order.items || []).reduce((sum, item) => sum + item.amountInCents - item.discountInCents, 0),
+                        order.currency ?? 'BRL'
+                      )}
+                      {order.priceCurrency && order.exchangeRate && (
+                        <span className="block text-xs text-gray-500">
+                          1 {order.priceCurrency} = {order.exchangeRate.toFixed(4)} {order.currency}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className={`px-2 py-1 rounded text-sm ${statusBadgeClass(order.status)}`}>
+                        {order.status}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4">
+                      {new Date(order.createdAt).toLocaleDateString()}
+                    </td>
+                  </tr>
+
+                  {expandedOrderId === order.id && (
+                    <tr className="border-b border-noir-medium bg-noir-darker">
+                      <td colSpan={6} className="py-4 px-4">
+                        <div className="flex items-center justify-between mb-4">
+                          <h3 className="font-bold text-accent-lime">{t('timeline')}</h3>
+                          <div className="flex gap-2">
+                            {(order.status === 'COMPLETED' || order.status === 'DISPUTED') && (
+                              <button
+                                onClick={() => handleRefund(order.id)}
+                                disabled={updatingStatus}
+                                className="btn-secondary text-sm disabled:opacity-50"
+                              >
+                                {t('refund')}
+                              </button>
+                            )}
+                            {order.status === 'COMPLETED' && order.items?.some((item) => item.price?.telegramChatId) && (
+                              <button
+                                onClick={() => handleReissueInvite(order.id)}
+                                disabled={updatingStatus}
+                                className="btn-secondary text-sm disabled:opacity-50"
+                              >
+                                {t('reissueTelegramInvite')}
+                              </button>
+                            )}
+                            {order.status !== 'COMPLETED' && (
+                              <button
+                                onClick={() => handleSetStatus(order.id, 'COMPLETED')}
+                                disabled={updatingStatus}
+                                className="btn-secondary text-sm disabled:opacity-50"
+                              >
+                                {t('markCompleted')}
+                              </button>
+                            )}
+                            {order.status !== 'FAILED' && (
+                              <button
+                                onClick={() => handleSetStatus(order.id, 'FAILED')}
+                                disabled={updatingStatus}
+                                className="btn-secondary text-sm disabled:opacity-50"
+                              >
+                                {t('markFailed')}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
+                        {orderItems.filter((item) => item.telegramInviteLink).map((item) => (
+                          <p key={item.id} className="text-sm text-gray-400 mb-4">
+                            Telegram invite ({item.price?.category}): <span className="font-mono">{item.telegramInviteLink}</span>
+                            {item.telegramInviteRevokedAt
+                              ? ' (revoked)'
+                              : item.telegramInviteExpiresAt && ` (expires ${new Date(item.telegramInviteExpiresAt).toLocaleString()})`}
+                          </p>
+                        ))}
+
+                        {loadingEvents ? (
+                          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-accent-emerald"></div>
+                        ) : events.length === 0 ? (
+                          <p className="text-gray-500 text-sm">{t('noEvents')}</p>
+                        ) : (
+                          <ol className="border-l border-noir-light ml-2 space-y-4">
+                            {events.map((event) => (
+                              <li key={event.id} className="ml-4">
+                                <div className="flex flex-wrap items-center gap-2 text-sm">
+                                  <span className="text-gray-500">
+                                    {new Date(event.createdAt).toLocaleString()}
+                                  </span>
+                                  <span className="font-semibold text-gray-200">
+                                    {event.fromStatus ? `${event.fromStatus} → ` : ''}{event.toStatus}
+                                  </span>
+                                  <span className="px-2 py-0.5 rounded bg-noir-medium text-xs text-accent-emerald">
+                                    {event.source}
+                                  </span>
+                                  {event.actor && (
+                                    <span className="text-xs text-gray-400">{event.actor.email}</span>
+                                  )}
+                                </div>
+                                <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                                  {event.gatewayStatus && <p>Gateway status: {event.gatewayStatus}</p>}
+                                  {event.endToEndId && <p className="font-mono">E2E: {event.endToEndId}</p>}
+                                  {event.gatewayPaidAt && (
+                                    <p>Paid at: {new Date(event.gatewayPaidAt).toLocaleString()}</p>
+                                  )}
+                                  {event.note && <p>{event.note}</p>}
+                                </div>
+                                {event.payload != null && (
+                                  <details className="mt-1">
+                                    <summary className="text-xs text-gray-500 cursor-pointer">Payload</summary>
+                                    <pre className="text-xs text-gray-500 bg-noir-dark p-2 rounded overflow-auto mt-1">
+                                      {JSON.stringify(event.payload, null, 2)}
+                                    </pre>
+                                  </details>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+
+                        {order.user && (
+                          <div className="mt-6">
+                            <SessionList userId={order.user.id} />
+                          </div>
+                        )}
+
+                        {!loadingEvents && orderItems.some((item) => item.deliveryTokens?.length) && (
+                          <div className="mt-6">
+                            <h3 className="font-bold text-accent-lime mb-3">{t('deliveryTokens')}</h3>
+                            <div className="space-y-3">
+                              {orderItems.flatMap((item) => item.deliveryTokens || []).map((token) => (
+                                <div key={token.id} className="text-sm">
+                                  <div className="flex flex-wrap items-center gap-2">
+                                    <span className="font-mono text-gray-300">{token.id.slice(0, 8)}...</span>
+                                    <span className="text-gray-500">
+                                      {token.useCount}/{token.maxUses} uses · expires {new Date(token.expiresAt).toLocaleString()}
+                                    </span>
+                                    {token.revokedAt && (
+                                      <span className="px-2 py-0.5 rounded bg-red-500/20 text-xs text-red-400">revoked</span>
+                                    )}
+                                  </div>
+                                  {token.redemptions.length > 0 && (
+                                    <ul className="text-xs text-gray-500 mt-1 ml-4 space-y-0.5">
+                                      {token.redemptions.map((redemption) => (
+                                        <li key={redemption.id}>
+                                          {new Date(redemption.createdAt).toLocaleString()} · {redemption.ip || 'unknown IP'}
+                                          {redemption.countryCode && ` · ${[redemption.city, redemption.countryCode].filter(Boolean).join(', ')}`}
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { adminAPI, Product, Price } from '@/lib/api';
+import { formatMoney, fromMinorUnits, toMinorUnits } from '@/lib/money';
 
 // Available countries for region selection
 const COUNTRIES = [
@@ -56,6 +57,9 @@ export default function AdminProductsPage() {
     currency: 'BRL',
     category: 'HD',
     deliveryLink: '',
+    telegramChatId: '',
+    billingMode: 'ONE_TIME' as 'ONE_TIME' | 'SUBSCRIPTION',
+    periodDays: '30',
   });
 
   // Region form state
@@ -145,10 +149,13 @@ export default function AdminProductsPage() {
     e.preventDefault();
     try {
       const priceData = {
-        amount: parseFloat(priceForm.amount),
+        amountInCents: toMinorUnits(parseFloat(priceForm.amount), priceForm.currency),
         currency: priceForm.currency,
         category: priceForm.category,
         deliveryLink: priceForm.deliveryLink,
+        telegramChatId: priceForm.telegramChatId,
+        billingMode: priceForm.billingMode,
+        periodDays: priceForm.billingMode === 'SUBSCRIPTION' ? parseInt(priceForm.periodDays) : null,
       };
 
       if (editingPrice) {
@@ -170,10 +177,13 @@ export default function AdminProductsPage() {
   const handleEditPrice = (price: Price, productId: string) => {
     setEditingPrice(price);
     setPriceForm({
-      amount: price.amount.toString(),
+      amount: fromMinorUnits(price.amountInCents, price.currency).toString(),
       currency: price.currency,
       category: price.category,
       deliveryLink: price.deliveryLink,
+      telegramChatId: price.telegramChatId || '',
+      billingMode: price.billingMode || 'ONE_TIME',
+      periodDays: price.periodDays?.toString() || '30',
     });
     setShowPriceForm(productId);
   };
@@ -195,6 +205,9 @@ export default function AdminProductsPage() {
       currency: 'BRL',
       category: 'HD',
       deliveryLink: '',
+      telegramChatId: '',
+      billingMode: 'ONE_TIME',
+      periodDays: '30',
     });
   };
 
@@ -621,6 +634,53 @@ export default function AdminProductsPage() {
                         />
                       </div>
 
+                      <div>
+                        <label className="block text-xs mb-1">Telegram Channel ID (optional)</label>
+                        <input
+                          type="text"
+                          value={priceForm.telegramChatId}
+                          onChange={(e) => setPriceForm({ ...priceForm, telegramChatId: e.target.value })}
+                          className="input-noir"
+                          placeholder="-1001234567890 or @channel"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Buyers get a single-use invite to this channel. The bot must be a channel admin.
+                        </p>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs mb-1">Billing</label>
+                          <select
+                            value={priceForm.billingMode}
+                            onChange={(e) => setPriceForm({ ...priceForm, billingMode: e.target.value as 'ONE_TIME' | 'SUBSCRIPTION' })}
+                            className="input-noir"
+                          >
+                            <option value="ONE_TIME">One-time purchase</option>
+                            <option value="SUBSCRIPTION">Subscription</option>
+                          </select>
+                        </div>
+                        {priceForm.billingMode === 'SUBSCRIPTION' && (
+                          <div>
+                            <label className="block text-xs mb-1">Period</label>
+                            <select
+                              value={priceForm.periodDays}
+                              onChange={(e) => setPriceForm({ ...priceForm, periodDays: e.target.value })}
+                              className="input-noir"
+                            >
+                              <option value="30">30 days</option>
+                              <option value="90">90 days</option>
+                              <option value="365">365 days</option>
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                      {priceForm.billingMode === 'SUBSCRIPTION' && (
+                        <p className="text-xs text-gray-500">
+                          Access to the Telegram channel ends when the period runs out unless the buyer renews.
+                        </p>
+                      )}
+
                       <button type="submit" className="btn-primary text-sm">
                         {editingPrice ? 'Update Price' : 'Add Price'}
                       </button>
@@ -638,11 +698,21 @@ export default function AdminProductsPage() {
                             <span className="font-bold text-accent-emerald">{price.category}</span>
                             <span className="mx-2">-</span>
                             <span className="text-gray-300">
-                              {price.currency} {price.amount.toFixed(2)}
+                              {formatMoney(price.amountInCents, price.currency)}
                             </span>
                             <div className="text-xs text-gray-500 mt-1 truncate max-w-md">
                               {price.deliveryLink}
                             </div>
+                            {price.telegramChatId && (
+                              <div className="text-xs text-accent-lime mt-1">
+                                Telegram: {price.telegramChatId}
+                              </div>
+                            )}
+                            {price.billingMode === 'SUBSCRIPTION' && (
+                              <div className="text-xs text-accent-gold mt-1">
+                                Subscription: {price.periodDays} days
+                              </div>
+                            )}
                           </div>
                           <div className="flex gap-2">
                             <button
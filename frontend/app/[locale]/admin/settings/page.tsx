@@ -1,7 +1,22 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { settingsAPI, popupAPI } from '@/lib/api';
+import {
+  settingsAPI,
+  popupAPI,
+  adminAPI,
+  BuyerDataRequirement,
+  ExchangeRate,
+  GatewayHealth,
+  GatewayRoute,
+  PaymentGatewaySlug,
+} from '@/lib/api';
+
+const GATEWAY_NAMES: Record<PaymentGatewaySlug, string> = {
+  pushinpay: 'PushinPay',
+  syncpay: 'SyncPay',
+  stripe: 'Stripe',
+};
 
 export default function AdminSettingsPage() {
   const [supportTelegram, setSupportTelegram] = useState('');
@@ -19,9 +34,37 @@ export default function AdminSettingsPage() {
   const [savingPopup, setSavingPopup] = useState(false);
   const [popupStatusMessage, setPopupStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
+  // Gateway health
+  const [gatewayHealth, setGatewayHealth] = useState<GatewayHealth[]>([]);
+
+  // Buyer identification
+  const [buyerDataRequirements, setBuyerDataRequirements] = useState<BuyerDataRequirement[]>([]);
+
+  // Payment routing rules
+  const [gatewayRoutes, setGatewayRoutes] = useState<GatewayRoute[]>([]);
+  const [routeCountry, setRouteCountry] = useState('');
+  const [routeCurrency, setRouteCurrency] = useState('');
+  const [routeGateway, setRouteGateway] = useState<PaymentGatewaySlug>('stripe');
+  const [routePriority, setRoutePriority] = useState('100');
+  const [savingRoute, setSavingRoute] = useState(false);
+  const [routeStatusMessage, setRouteStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Exchange rates
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [rateProvider, setRateProvider] = useState<string | null>(null);
+  const [rateBase, setRateBase] = useState('USD');
+  const [rateQuote, setRateQuote] = useState('BRL');
+  const [rateValue, setRateValue] = useState('');
+  const [savingRate, setSavingRate] = useState(false);
+  const [rateStatusMessage, setRateStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
   useEffect(() => {
     fetchSettings();
     fetchPopupConfig();
+    fetchGatewayHealth();
+    fetchBuyerDataRequirements();
+    fetchGatewayRoutes();
+    fetchExchangeRates();
   }, []);
 
   const fetchSettings = async () => {
@@ -52,6 +95,151 @@ export default function AdminSettingsPage() {
     }
   };
 
+  const fetchGatewayHealth = async () => {
+    try {
+      const data = await adminAPI.getGatewayHealth();
+      setGatewayHealth(data.gateways);
+    } catch (error) {
+      console.error('Failed to load gateway health:', error);
+    }
+  };
+
+  const fetchBuyerDataRequirements = async () => {
+    try {
+      const data = await adminAPI.getBuyerDataRequirements();
+      setBuyerDataRequirements(data.gateways);
+    } catch (error) {
+      console.error('Failed to load buyer data requirements:', error);
+    }
+  };
+
+  const handleToggleBuyerData = async (requirement: BuyerDataRequirement) => {
+    try {
+      await settingsAPI.updateSetting(requirement.settingKey, (!requirement.required).toString());
+      fetchBuyerDataRequirements();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update buyer data requirement');
+    }
+  };
+
+  const fetchGatewayRoutes = async () => {
+    try {
+      const data = await adminAPI.getGatewayRoutes();
+      setGatewayRoutes(data.routes);
+    } catch (error) {
+      console.error('Failed to load routing rules:', error);
+    }
+  };
+
+  const fetchExchangeRates = async () => {
+    try {
+      const data = await adminAPI.getExchangeRates();
+      setExchangeRates(data.rates);
+      setRateProvider(data.provider);
+    } catch (error) {
+      console.error('Failed to load exchange rates:', error);
+    }
+  };
+
+  const handleSetRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingRate(true);
+    setRateStatusMessage(null);
+
+    try {
+      await adminAPI.setExchangeRate({
+        baseCurrency: rateBase.trim(),
+        quoteCurrency: rateQuote.trim(),
+        rate: parseFloat(rateValue),
+      });
+      setRateValue('');
+      setRateStatusMessage({ type: 'success', text: 'Exchange rate saved' });
+      fetchExchangeRates();
+    } catch (error: any) {
+      console.error('Failed to save exchange rate:', error);
+      setRateStatusMessage({
+        type: 'error',
+        text: error.response?.data?.error || 'Failed to save exchange rate'
+      });
+    } finally {
+      setSavingRate(false);
+    }
+  };
+
+  const handleRefreshRates = async () => {
+    setRateStatusMessage(null);
+
+    try {
+      const data = await adminAPI.refreshExchangeRates();
+      setRateStatusMessage({ type: 'success', text: data.message });
+      fetchExchangeRates();
+    } catch (error: any) {
+      setRateStatusMessage({
+        type: 'error',
+        text: error.response?.data?.message || error.response?.data?.error || 'Failed to refresh exchange rates'
+      });
+    }
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    if (!confirm('Delete this exchange rate?')) return;
+
+    try {
+      await adminAPI.deleteExchangeRate(rateId);
+      fetchExchangeRates();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete exchange rate');
+    }
+  };
+
+  const handleAddRoute = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingRoute(true);
+    setRouteStatusMessage(null);
+
+    try {
+      await adminAPI.createGatewayRoute({
+        countryCode: routeCountry.trim() || null,
+        currency: routeCurrency.trim() || null,
+        gateway: routeGateway,
+        priority: parseInt(routePriority) || 0,
+      });
+      setRouteCountry('');
+      setRouteCurrency('');
+      setRoutePriority('100');
+      setRouteStatusMessage({ type: 'success', text: 'Routing rule added' });
+      fetchGatewayRoutes();
+    } catch (error: any) {
+      console.error('Failed to add routing rule:', error);
+      setRouteStatusMessage({
+        type: 'error',
+        text: error.response?.data?.error || 'Failed to add routing rule'
+      });
+    } finally {
+      setSavingRoute(false);
+    }
+  };
+
+  const handleToggleRoute = async (route: GatewayRoute) => {
+    try {
+      await adminAPI.updateGatewayRoute(route.id, { isActive: !route.isActive });
+      fetchGatewayRoutes();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to update routing rule');
+    }
+  };
+
+  const handleDeleteRoute = async (routeId: string) => {
+    if (!confirm('Delete this routing rule?')) return;
+
+    try {
+      await adminAPI.deleteGatewayRoute(routeId);
+      fetchGatewayRoutes();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete routing rule');
+    }
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
@@ -150,7 +338,7 @@ export default function AdminSettingsPage() {
 
           <div className="mb-6">
             <label className="block text-gray-300 mb-2">
-              Payment Gateway
+              Preferred PIX Gateway
             </label>
             <select
               value={paymentGateway}
@@ -161,9 +349,8 @@ export default function AdminSettingsPage() {
               <option value="syncpay">SyncPay</option>
             </select>
             <p className="text-sm text-gray-500 mt-2">
-              Select which payment gateway to use for PIX payments. This affects all new payments.
-              <br />
-              <span className="text-yellow-500">Working.</span>
+              Charges Brazilian visitors in BRL when no routing rule below matches. If it times out,
+              errors or its circuit is open, the charge is retried on the next healthy PIX gateway.
             </p>
           </div>
 
@@ -176,6 +363,368 @@ export default function AdminSettingsPage() {
           </button>
         </form>
 
+        {/* Gateway Health Section */}
+        <div className="card-noir mt-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-accent-lime">
+              Gateway Health
+            </h2>
+            <button
+              type="button"
+              onClick={fetchGatewayHealth}
+              className="btn-secondary text-sm"
+            >
+              Refresh
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-noir-light">
+                  <th className="text-left py-3 px-4">Gateway</th>
+                  <th className="text-left py-3 px-4">Circuit</th>
+                  <th className="text-right py-3 px-4">Charges</th>
+                  <th className="text-right py-3 px-4">Error Rate</th>
+                  <th className="text-right py-3 px-4">Avg Latency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gatewayHealth.map((health) => (
+                  <tr key={health.gateway} className="border-b border-noir-light align-top">
+                    <td className="py-3 px-4">
+                      <span className="font-bold">{GATEWAY_NAMES[health.gateway] ?? health.gateway}</span>
+                      {health.lastError && (
+                        <p className="text-xs text-red-400 mt-1 max-w-xs">
+                          {health.lastErrorAt && `${new Date(health.lastErrorAt).toLocaleString()}: `}
+                          {health.lastError}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      <span
+                        className={`text-xs font-bold px-2 py-1 rounded ${
+                          health.state === 'CLOSED'
+                            ? 'bg-green-900/50 text-green-200'
+                            : health.state === 'OPEN'
+                            ? 'bg-red-900/50 text-red-200'
+                            : 'bg-yellow-900/50 text-yellow-200'
+                        }`}
+                      >
+                        {health.state === 'CLOSED' ? 'Healthy' : health.state === 'OPEN' ? 'Open' : 'Testing'}
+                      </span>
+                      {health.retryAt && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Retry at {new Date(health.retryAt).toLocaleTimeString()}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right">{health.requests}</td>
+                    <td className="py-3 px-4 text-right">{(health.errorRate * 100).toFixed(0)}%</td>
+                    <td className="py-3 px-4 text-right">
+                      {health.avgLatencyMs !== null ? `${health.avgLatencyMs} ms` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-sm text-gray-500 mt-4">
+            Charge attempts from the last few minutes on this server. An open circuit skips the gateway until its cooldown ends.
+          </p>
+        </div>
+
+        {/* Buyer Identification Section */}
+        <div className="card-noir mt-8">
+          <h2 className="text-2xl font-bold text-accent-lime mb-2">
+            Buyer Identification
+          </h2>
+          <p className="text-sm text-gray-500 mb-6">
+            Gateways that require it make buyers enter their name, CPF, email and phone before paying. The data is
+            validated, stored encrypted on the account and filled in on later purchases; elsewhere the form is optional.
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-noir-light">
+                  <th className="text-left py-3 px-4">Gateway</th>
+                  <th className="text-left py-3 px-4">Buyer Data</th>
+                </tr>
+              </thead>
+              <tbody>
+                {buyerDataRequirements.map((requirement) => (
+                  <tr key={requirement.gateway} className="border-b border-noir-light">
+                    <td className="py-3 px-4 font-bold">{GATEWAY_NAMES[requirement.gateway] ?? requirement.gateway}</td>
+                    <td className="py-3 px-4">
+                      <button
+                        onClick={() => handleToggleBuyerData(requirement)}
+                        disabled={requirement.locked}
+                        className={`text-xs font-bold px-2 py-1 rounded disabled:cursor-not-allowed ${
+                          requirement.required ? 'bg-green-900/50 text-green-200' : 'bg-noir-light text-gray-400'
+                        }`}
+                      >
+                        {requirement.required ? 'Required' : 'Optional'}
+                      </button>
+                      {requirement.locked && (
+                        <span className="text-xs text-gray-500 ml-2">The gateway&apos;s API needs it</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Payment Routing Section */}
+        <div className="card-noir mt-8">
+          <h2 className="text-2xl font-bold text-accent-lime mb-2">
+            Payment Routing
+          </h2>
+          <p className="text-sm text-gray-500 mb-6">
+            Picks the gateway for each checkout from the visitor&apos;s country and the currency they see prices
+            in. Rules are tried from the lowest priority number; empty country or currency matches any. PIX
+            gateways charge in BRL, converting with the exchange rates below. Visitors no rule covers see the
+            product&apos;s Telegram link instead of a checkout.
+          </p>
+
+          {routeStatusMessage && (
+            <div className={`p-4 rounded mb-6 ${
+              routeStatusMessage.type === 'success'
+                ? 'bg-green-900/50 border border-green-500 text-green-200'
+                : 'bg-red-900/50 border border-red-500 text-red-200'
+            }`}>
+              {routeStatusMessage.text}
+            </div>
+          )}
+
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-noir-light">
+                  <th className="text-left py-3 px-4">Priority</th>
+                  <th className="text-left py-3 px-4">Country</th>
+                  <th className="text-left py-3 px-4">Currency</th>
+                  <th className="text-left py-3 px-4">Gateway</th>
+                  <th className="text-left py-3 px-4">Status</th>
+                  <th className="text-right py-3 px-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gatewayRoutes.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="py-6 px-4 text-center text-gray-500">
+                      No rules yet. Only Brazilian visitors paying in BRL can check out, with the preferred PIX gateway.
+                    </td>
+                  </tr>
+                ) : (
+                  gatewayRoutes.map((route) => (
+                    <tr key={route.id} className="border-b border-noir-light">
+                      <td className="py-3 px-4">{route.priority}</td>
+                      <td className="py-3 px-4">{route.countryCode ?? 'Any'}</td>
+                      <td className="py-3 px-4">{route.currency ?? 'Any'}</td>
+                      <td className="py-3 px-4">
+                        {GATEWAY_NAMES[route.gateway] ?? route.gateway}
+                        <span className="text-xs text-gray-500 ml-2">{route.method}</span>
+                      </td>
+                      <td className="py-3 px-4">
+                        <button
+                          onClick={() => handleToggleRoute(route)}
+                          className={`text-xs font-bold px-2 py-1 rounded ${
+                            route.isActive ? 'bg-green-900/50 text-green-200' : 'bg-noir-light text-gray-400'
+                          }`}
+                        >
+                          {route.isActive ? 'Active' : 'Inactive'}
+                        </button>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <button
+                          onClick={() => handleDeleteRoute(route.id)}
+                          className="text-red-400 hover:underline text-sm"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <form onSubmit={handleAddRoute} className="grid md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">Country</label>
+              <input
+                type="text"
+                value={routeCountry}
+                onChange={(e) => setRouteCountry(e.target.value.toUpperCase())}
+                placeholder="BR, NON_BR or empty"
+                className="input-noir w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">Currency</label>
+              <input
+                type="text"
+                value={routeCurrency}
+                onChange={(e) => setRouteCurrency(e.target.value.toUpperCase())}
+                placeholder="BRL, USD or empty"
+                maxLength={3}
+                className="input-noir w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">Gateway</label>
+              <select
+                value={routeGateway}
+                onChange={(e) => setRouteGateway(e.target.value as PaymentGatewaySlug)}
+                className="input-noir w-full"
+              >
+                <option value="pushinpay">PushinPay (PIX)</option>
+                <option value="syncpay">SyncPay (PIX)</option>
+                <option value="stripe">Stripe (Card)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">Priority</label>
+              <input
+                type="number"
+                value={routePriority}
+                onChange={(e) => setRoutePriority(e.target.value)}
+                className="input-noir w-full"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={savingRoute}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {savingRoute ? 'Adding...' : 'Add Rule'}
+            </button>
+          </form>
+        </div>
+
+        {/* Exchange Rates Section */}
+        <div className="card-noir mt-8">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-2xl font-bold text-accent-lime">
+              Exchange Rates
+            </h2>
+            {rateProvider && (
+              <button
+                type="button"
+                onClick={handleRefreshRates}
+                className="btn-secondary text-sm"
+              >
+                Refresh from {rateProvider}
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-500 mb-6">
+            Visitors see prices in their local currency when there is a rate for it, and checkouts are
+            converted to the currency the gateway charges in. Rates set here are kept until deleted, even
+            when a provider refreshes the others.
+          </p>
+
+          {rateStatusMessage && (
+            <div className={`p-4 rounded mb-6 ${
+              rateStatusMessage.type === 'success'
+                ? 'bg-green-900/50 border border-green-500 text-green-200'
+                : 'bg-red-900/50 border border-red-500 text-red-200'
+            }`}>
+              {rateStatusMessage.text}
+            </div>
+          )}
+
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-noir-light">
+                  <th className="text-left py-3 px-4">Pair</th>
+                  <th className="text-left py-3 px-4">Rate</th>
+                  <th className="text-left py-3 px-4">Source</th>
+                  <th className="text-left py-3 px-4">Updated</th>
+                  <th className="text-right py-3 px-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exchangeRates.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-6 px-4 text-center text-gray-500">
+                      No rates yet. Prices are shown and charged only in their own currency.
+                    </td>
+                  </tr>
+                ) : (
+                  exchangeRates.map((rate) => (
+                    <tr key={rate.id} className="border-b border-noir-light">
+                      <td className="py-3 px-4 font-mono">{rate.baseCurrency}/{rate.quoteCurrency}</td>
+                      <td className="py-3 px-4">{rate.rate}</td>
+                      <td className="py-3 px-4 text-sm text-gray-400">{rate.source}</td>
+                      <td className="py-3 px-4 text-sm text-gray-400">
+                        {new Date(rate.updatedAt).toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <button
+                          onClick={() => handleDeleteRate(rate.id)}
+                          className="text-red-400 hover:underline text-sm"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <form onSubmit={handleSetRate} className="grid md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">1 unit of</label>
+              <input
+                type="text"
+                value={rateBase}
+                onChange={(e) => setRateBase(e.target.value.toUpperCase())}
+                maxLength={3}
+                className="input-noir w-full"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">Equals</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={rateValue}
+                onChange={(e) => setRateValue(e.target.value)}
+                className="input-noir w-full"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">Of</label>
+              <input
+                type="text"
+                value={rateQuote}
+                onChange={(e) => setRateQuote(e.target.value.toUpperCase())}
+                maxLength={3}
+                className="input-noir w-full"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={savingRate}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {savingRate ? 'Saving...' : 'Set Rate'}
+            </button>
+          </form>
+        </div>
+
         {/* Black Friday Promotion Section */}
         <form onSubmit={handleSave} className="card-noir mt-8">
           <h2 className="text-2xl font-bold text-accent-gold mb-6 flex items-center gap-2">
@@ -0,0 +1,358 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLocale } from 'next-intl';
+import { adminAPI, twoFactorAPI, AdminAccount, AdminInvite, StaffAccess, TwoFactorStatus } from '@/lib/api';
+import TwoFactorSetup from '@/components/TwoFactorSetup';
+
+// What each access level can do; the backend's STAFF_ROLE_PERMISSIONS is the source of truth
+const ACCESS_OPTIONS: { value: StaffAccess; label: string; description: string }[] = [
+  { value: 'ADMIN', label: 'Admin', description: 'Everything, including the team and store settings' },
+  { value: 'EDITOR', label: 'Editor', description: 'Products and prices; can see coupons' },
+  { value: 'SUPPORT', label: 'Support', description: 'Orders and deliveries, customer sessions; can see products' },
+  { value: 'FINANCE', label: 'Finance', description: 'Analytics, orders and refunds, coupons; can see settings' },
+];
+
+export default function AdminTeamPage() {
+  const locale = useLocale();
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [email, setEmail] = useState('');
+  const [access, setAccess] = useState<StaffAccess>('ADMIN');
+  const [inviting, setInviting] = useState(false);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [myTwoFactor, setMyTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [settingUp, setSettingUp] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    fetchTeam();
+  }, []);
+
+  const fetchTeam = async () => {
+    try {
+      const [data, status] = await Promise.all([adminAPI.getAdmins(), twoFactorAPI.getStatus()]);
+      setAdmins(data.admins);
+      setInvites(data.invites);
+      setTwoFactorRequired(data.twoFactorRequired);
+      setMyTwoFactor(status);
+    } catch (err) {
+      console.error('Failed to fetch admins:', err);
+      alert('Failed to load the team');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      const data = await adminAPI.createInvite(email.trim(), access, locale);
+      setInviteUrl(data.inviteUrl);
+      setCopied(false);
+      setEmail('');
+      fetchTeam();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to create invite');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy invite link:', err);
+    }
+  };
+
+  const handleRevoke = async (invite: AdminInvite) => {
+    if (!confirm(`Revoke the invite for ${invite.email}?`)) return;
+    try {
+      await adminAPI.revokeInvite(invite.id);
+      setInvites(invites.filter((item) => item.id !== invite.id));
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to revoke invite');
+    }
+  };
+
+  const handleToggleRequired = async () => {
+    const required = !twoFactorRequired;
+    if (required && !confirm('Every admin will have to set up two-factor authentication. Continue?')) return;
+    try {
+      await adminAPI.setTwoFactorRequired(required);
+      setTwoFactorRequired(required);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to update the setting');
+    }
+  };
+
+  const handleNewRecoveryCodes = async () => {
+    const code = prompt('Enter a code from your authenticator app');
+    if (!code) return;
+    try {
+      const data = await twoFactorAPI.regenerateRecoveryCodes(code.trim());
+      setNewRecoveryCodes(data.recoveryCodes);
+      fetchTeam();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to create recovery codes');
+    }
+  };
+
+  const handleDisableTwoFactor = async () => {
+    const code = prompt('Enter a code from your authenticator app to turn two-factor authentication off');
+    if (!code) return;
+    try {
+      await twoFactorAPI.disable({ code: code.trim() });
+      fetchTeam();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to turn off two-factor authentication');
+    }
+  };
+
+  const handleChangeAccess = async (admin: AdminAccount, newAccess: StaffAccess | 'NONE') => {
+    const question = newAccess === 'NONE'
+      ? `Remove ${admin.email} from the team? Their account stays, without admin access.`
+      : `Change ${admin.email}'s access to ${accessLabel(newAccess)}? They will be signed out everywhere.`;
+    if (!confirm(question)) return;
+    try {
+      await adminAPI.setAccess(admin.id, newAccess);
+      fetchTeam();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to change access');
+    }
+  };
+
+  const handleResetTwoFactor = async (admin: AdminAccount) => {
+    if (!confirm(`Reset two-factor authentication for ${admin.email}? They will be signed out everywhere.`)) return;
+    try {
+      await adminAPI.resetTwoFactor(admin.id);
+      fetchTeam();
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to reset two-factor authentication');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-accent-emerald"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="card-noir">
+        <h2 className="text-2xl font-bold text-accent-lime mb-6">Two-factor authentication</h2>
+
+        <label className="flex items-center gap-3 mb-6">
+          <input
+            type="checkbox"
+            checked={twoFactorRequired}
+            onChange={handleToggleRequired}
+            className="w-5 h-5"
+          />
+          <span className="text-gray-300">
+            Require two-factor authentication for every admin and staff member
+            <span className="block text-xs text-gray-500">
+              Team members without it must set it up before using the admin area. Turn it on for your own account first.
+            </span>
+          </span>
+        </label>
+
+        {settingUp ? (
+          <TwoFactorSetup
+            start={twoFactorAPI.setup}
+            confirm={async (code) => (await twoFactorAPI.enable(code)).recoveryCodes}
+            onDone={() => {
+              setSettingUp(false);
+              fetchTeam();
+            }}
+          />
+        ) : myTwoFactor?.enabled ? (
+          <div>
+            <p className="text-sm text-gray-400 mb-4">
+              Your account uses two-factor authentication since{' '}
+              {new Date(myTwoFactor.enabledAt!).toLocaleDateString()}. {myTwoFactor.recoveryCodesLeft} recovery
+              code(s) left.
+            </p>
+            <div className="flex gap-2">
+              <button onClick={handleNewRecoveryCodes} className="btn-secondary text-sm">
+                New recovery codes
+              </button>
+              {!twoFactorRequired && (
+                <button onClick={handleDisableTwoFactor} className="btn-secondary text-sm">
+                  Turn off
+                </button>
+              )}
+            </div>
+            {newRecoveryCodes && (
+              <div className="mt-4 p-4 rounded bg-noir-darker">
+                <p className="text-sm text-gray-400 mb-2">New recovery codes (the old ones no longer work):</p>
+                <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {newRecoveryCodes.map((code) => (
+                    <li key={code}>{code}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-400 mb-4">Your account doesn&apos;t use two-factor authentication.</p>
+            <button onClick={() => setSettingUp(true)} className="btn-primary text-sm">
+              Set up
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="card-noir">
+        <h2 className="text-2xl font-bold text-accent-lime mb-2">Invite to the team</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          The invitee gets a single-use link by email to choose a password. If they already have a
+          customer account with this email, it gets the chosen access.
+        </p>
+
+        <form onSubmit={handleInvite} className="flex flex-wrap gap-4">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="input-noir flex-1 min-w-[16rem]"
+            placeholder="name@example.com"
+            required
+          />
+          <select
+            value={access}
+            onChange={(e) => setAccess(e.target.value as StaffAccess)}
+            className="input-noir"
+          >
+            {ACCESS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" disabled={inviting} className="btn-primary disabled:opacity-50">
+            {inviting ? 'Inviting...' : 'Send invite'}
+          </button>
+        </form>
+        <p className="text-xs text-gray-500 mt-2">
+          {ACCESS_OPTIONS.find((option) => option.value === access)?.description}
+        </p>
+
+        {inviteUrl && (
+          <div className="mt-6 p-4 rounded bg-noir-darker">
+            <p className="text-sm text-gray-400 mb-2">
+              Invite link (shown only once; share it another way if the email doesn&apos;t arrive):
+            </p>
+            <div className="flex gap-2 items-center">
+              <code className="flex-1 text-xs text-accent-emerald break-all">{inviteUrl}</code>
+              <button onClick={handleCopy} className="btn-secondary text-sm">
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="card-noir">
+        <h2 className="text-2xl font-bold text-accent-lime mb-6">Pending invites</h2>
+        {invites.length === 0 ? (
+          <p className="text-gray-500 text-sm">No pending invites</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-noir-light text-left text-gray-400">
+                <th className="py-2 px-4">Email</th>
+                <th className="py-2 px-4">Access</th>
+                <th className="py-2 px-4">Invited by</th>
+                <th className="py-2 px-4">Expires</th>
+                <th className="py-2 px-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {invites.map((invite) => (
+                <tr key={invite.id} className="border-b border-noir-medium">
+                  <td className="py-2 px-4">{invite.email}</td>
+                  <td className="py-2 px-4 text-gray-400">{accessLabel(invite.access)}</td>
+                  <td className="py-2 px-4 text-gray-400">{invite.invitedBy?.email ?? '—'}</td>
+                  <td className="py-2 px-4 text-gray-400">{new Date(invite.expiresAt).toLocaleString()}</td>
+                  <td className="py-2 px-4 text-right">
+                    <button onClick={() => handleRevoke(invite)} className="text-red-400 hover:underline">
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card-noir">
+        <h2 className="text-2xl font-bold text-accent-lime mb-6">Team</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-noir-light text-left text-gray-400">
+              <th className="py-2 px-4">Email</th>
+              <th className="py-2 px-4">Access</th>
+              <th className="py-2 px-4">Since</th>
+              <th className="py-2 px-4">2FA</th>
+              <th className="py-2 px-4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {admins.map((admin) => (
+              <tr key={admin.id} className="border-b border-noir-medium">
+                <td className="py-2 px-4">{admin.email}</td>
+                <td className="py-2 px-4">
+                  <select
+                    value={admin.access}
+                    onChange={(e) => handleChangeAccess(admin, e.target.value as StaffAccess)}
+                    className="input-noir py-1 text-sm"
+                  >
+                    {ACCESS_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 px-4 text-gray-400">{new Date(admin.createdAt).toLocaleDateString()}</td>
+                <td className={`py-2 px-4 ${admin.twoFactorEnabled ? 'text-green-400' : 'text-gray-500'}`}>
+                  {admin.twoFactorEnabled ? 'On' : 'Off'}
+                </td>
+                <td className="py-2 px-4 text-right space-x-4">
+                  {admin.twoFactorEnabled && (
+                    <button onClick={() => handleResetTwoFactor(admin)} className="text-red-400 hover:underline">
+                      Reset 2FA
+                    </button>
+                  )}
+                  <button onClick={() => handleChangeAccess(admin, 'NONE')} className="text-red-400 hover:underline">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function accessLabel(access: StaffAccess): string {
+  return ACCESS_OPTIONS.find((option) => option.value === access)?.label ?? access;
+}
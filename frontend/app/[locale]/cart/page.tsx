@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations, useLocale } from 'next-intl';
+import { cartAPI, paymentAPI, CartItem, CheckoutOption, CouponQuote, BuyerData, InitiatePaymentParams } from '@/lib/api';
+import { Link } from '@/i18n/routing';
+import { formatMoney } from '@/lib/money';
+import BuyerDataForm from '@/components/BuyerDataForm';
+import { BuyerDataErrors, emptyBuyerData, toPaymentClientParams, validateBuyerData } from '@/lib/buyerData';
+import { clearIdempotencyKey, getIdempotencyKey } from '@/lib/idempotency';
+
+export default function CartPage() {
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations('cart');
+  const tBuyer = useTranslations('buyerData');
+
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [checkout, setCheckout] = useState<CheckoutOption | null>(null);
+  const [displayCurrency, setDisplayCurrency] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processingPayment, setProcessingPayment] = useState(false);
+  const [couponCode, setCouponCode] = useState('');
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState('');
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [buyerData, setBuyerData] = useState<BuyerData>(emptyBuyerData);
+  const [buyerErrors, setBuyerErrors] = useState<BuyerDataErrors>({});
+
+  useEffect(() => {
+    fetchCart();
+  }, []);
+
+  const fetchCart = async () => {
+    try {
+      const data = await cartAPI.getCart();
+      setItems(data.items);
+      setCheckout(data.checkout);
+      setDisplayCurrency(data.displayCurrency);
+    } catch (err) {
+      console.error('Failed to fetch cart:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async (priceId: string) => {
+    try {
+      await cartAPI.removeItem(priceId);
+      setItems((current) => current.filter((item) => item.priceId !== priceId));
+      // The quote was for the old cart contents
+      setCoupon(null);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to remove item');
+      console.error(err);
+    }
+  };
+
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponCode.trim()) return;
+
+    setApplyingCoupon(true);
+    setCouponError('');
+    try {
+      const quote = await paymentAPI.validateCoupon({ couponCode, fromCart: true });
+      setCoupon(quote);
+    } catch (err: any) {
+      setCoupon(null);
+      setCouponError(err.response?.data?.error || 'Invalid coupon code');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setCoupon(null);
+    setCouponCode('');
+    setCouponError('');
+  };
+
+  const handleCheckout = async () => {
+    const errors = validateBuyerData(buyerData, !!checkout?.buyerDataRequired);
+    setBuyerErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    setProcessingPayment(true);
+    // A different cart or coupon is a new purchase
+    const intent = `cart:${items.map((item) => item.priceId).join(',')}:${coupon?.code ?? ''}`;
+    try {
+      const params: InitiatePaymentParams = {
+        ...toPaymentClientParams(buyerData),
+        fromCart: true,
+        couponCode: coupon?.code,
+        locale,
+      };
+
+      const response = await paymentAPI.initiatePayment(params, getIdempotencyKey(intent));
+      clearIdempotencyKey(intent);
+
+      // Card payments are completed on the gateway's hosted checkout page
+      if (response.checkoutUrl) {
+        window.location.href = response.checkoutUrl;
+        return;
+      }
+
+      // Store payment data in sessionStorage for the payment page
+      sessionStorage.setItem(
+        `payment_${response.orderId}`,
+        JSON.stringify(response)
+      );
+
+      router.push(`/${locale}/payment/${response.orderId}`);
+    } catch (err: any) {
+      if (err.response?.data?.code === 'IDEMPOTENCY_KEY_IN_USE') {
+        // A double click: the first request is still creating the charge
+        return;
+      }
+      if (err.response?.data?.code === 'BUYER_DATA_REQUIRED') {
+        setBuyerErrors(validateBuyerData(buyerData, true));
+        alert(tBuyer('missing'));
+        setProcessingPayment(false);
+        return;
+      }
+      alert(err.response?.data?.error || 'Failed to initiate payment');
+      console.error(err);
+      setProcessingPayment(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-accent-emerald"></div>
+      </div>
+    );
+  }
+
+  // Amounts in the visitor's currency when the cart came with a conversion
+  const itemAmount = (item: CartItem) => item.price.displayAmountInCents ?? item.price.amountInCents;
+  const currency = displayCurrency ?? items[0]?.price.currency ?? 'BRL';
+  const total = items.reduce((sum, item) => sum + itemAmount(item), 0);
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-8">{t('title')}</h1>
+
+        {items.length === 0 ? (
+          <div className="card-noir text-center py-16">
+            <p className="text-gray-400 text-lg mb-6">{t('empty')}</p>
+            <Link href="/store" className="btn-secondary">
+              {t('continueShopping')}
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4 mb-6">
+              {items.map((item) => (
+                <div key={item.id} className="card-noir flex items-center gap-4">
+                  <img
+                    src={item.price.product.imageUrl}
+                    alt={item.price.product.name}
+                    className="w-16 h-16 rounded object-cover"
+                  />
+                  <div className="flex-1">
+                    <Link
+                      href={`/store/${item.price.product.id}`}
+                      className="font-bold text-gray-100 hover:text-accent-emerald"
+                    >
+                      {item.price.product.name}
+                    </Link>
+                    <p className="text-sm text-gray-400">
+                      {item.price.category}
+                      {item.price.billingMode === 'SUBSCRIPTION' &&
+                        ` · ${t('subscriptionPeriod', { days: item.price.periodDays ?? 0 })}`}
+                    </p>
+                  </div>
+                  <span className="font-bold text-gray-100">
+                    {formatMoney(itemAmount(item), currency, locale)}
+                  </span>
+                  <button
+                    onClick={() => handleRemove(item.priceId)}
+                    disabled={processingPayment}
+                    className="text-red-400 hover:underline text-sm disabled:opacity-50"
+                  >
+                    {t('remove')}
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {checkout && (
+              <div className="mb-6">
+                <BuyerDataForm
+                  value={buyerData}
+                  onChange={setBuyerData}
+                  errors={buyerErrors}
+                  required={checkout.buyerDataRequired}
+                />
+              </div>
+            )}
+
+            <div className="card-noir">
+              {coupon ? (
+                <div className="flex justify-between items-center mb-4 text-sm">
+                  <span className="text-accent-lime font-mono">{coupon.code}</span>
+                  <button
+                    onClick={handleRemoveCoupon}
+                    disabled={processingPayment}
+                    className="text-red-400 hover:underline disabled:opacity-50"
+                  >
+                    {t('removeCoupon')}
+                  </button>
+                </div>
+              ) : (
+                <form onSubmit={handleApplyCoupon} className="mb-4">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={couponCode}
+                      onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                      className="input-noir flex-1"
+                      placeholder={t('couponCode')}
+                    />
+                    <button
+                      type="submit"
+                      disabled={applyingCoupon || !couponCode.trim()}
+                      className="btn-secondary whitespace-nowrap disabled:opacity-50"
+                    >
+                      {t('applyCoupon')}
+                    </button>
+                  </div>
+                  {couponError && <p className="text-sm text-red-400 mt-2">{couponError}</p>}
+                </form>
+              )}
+
+              {coupon && (
+                <>
+                  <div className="flex justify-between items-center mb-2 text-gray-400">
+                    <span>{t('subtotal')}</span>
+                    <span>{formatMoney(coupon.subtotalInCents, coupon.currency, locale)}</span>
+                  </div>
+                  <div className="flex justify-between items-center mb-4 text-accent-lime">
+                    <span>{t('discount')}</span>
+                    <span>- {formatMoney(coupon.discountInCents, coupon.currency, locale)}</span>
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-between items-center mb-6">
+                <span className="text-gray-400">{t('total')}</span>
+                <span className="text-3xl font-bold text-accent-gold">
+                  {coupon
+                    ? formatMoney(coupon.totalInCents, coupon.currency, locale)
+                    : formatMoney(total, currency, locale)}
+                </span>
+              </div>
+
+              <button
+                onClick={handleCheckout}
+                disabled={processingPayment || !checkout}
+                className="btn-primary w-full text-lg py-4 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {processingPayment ? t('processing') : checkout?.method === 'CARD' ? t('checkoutCard') : t('checkout')}
+              </button>
+
+              <p className="text-sm text-gray-500 mt-4 text-center">
+                {!checkout ? t('unavailable') : checkout.method === 'CARD' ? t('singleChargeCard') : t('singleCharge')}
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
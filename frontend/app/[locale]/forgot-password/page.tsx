@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { authAPI } from '@/lib/api';
+import { Link } from '@/i18n/routing';
+
+export default function ForgotPasswordPage() {
+  const t = useTranslations('passwordReset');
+  const locale = useLocale();
+
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await authAPI.forgotPassword(email.trim(), locale);
+      setSent(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || t('requestFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-2">{t('forgotTitle')}</h1>
+
+        {sent ? (
+          <div className="card-noir mt-8">
+            <p className="text-gray-300">{t('sent', { email: email.trim() })}</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-gray-400 mb-8">{t('forgotDesc')}</p>
+
+            <form onSubmit={handleSubmit} className="card-noir space-y-4">
+              <div>
+                <label className="block text-gray-300 mb-2 text-sm">{t('email')}</label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="input-noir w-full"
+                  autoComplete="email"
+                  required
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              <button type="submit" disabled={submitting} className="btn-primary w-full disabled:opacity-50">
+                {submitting ? t('sending') : t('send')}
+              </button>
+            </form>
+          </>
+        )}
+
+        <div className="text-center mt-6">
+          <Link href="/login" className="text-sm text-gray-400 hover:underline">
+            {t('backToLogin')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
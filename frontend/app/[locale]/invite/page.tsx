@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { authAPI } from '@/lib/api';
+import { Link, useRouter } from '@/i18n/routing';
+
+// Admin invites link here with ?token=
+export default function AcceptInvitePage({ searchParams }: { searchParams: { token?: string } }) {
+  const t = useTranslations('invite');
+  const router = useRouter();
+  const token = searchParams.token ?? '';
+
+  const [email, setEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [invalid, setInvalid] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setInvalid(true);
+      setLoading(false);
+      return;
+    }
+
+    authAPI
+      .getInvite(token)
+      .then((invite) => setEmail(invite.email))
+      .catch(() => setInvalid(true))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 8) {
+      setError(t('passwordTooShort'));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t('passwordMismatch'));
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await authAPI.acceptInvite(token, password);
+      router.push('/admin/analytics');
+    } catch (err: any) {
+      setError(err.response?.data?.error || t('acceptFailed'));
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-accent-emerald"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-2">{t('title')}</h1>
+
+        {invalid ? (
+          <div className="card-noir text-center">
+            <p className="text-gray-400 mb-4">{t('invalid')}</p>
+            <Link href="/" className="btn-secondary inline-block">
+              {t('backHome')}
+            </Link>
+          </div>
+        ) : (
+          <>
+            <p className="text-gray-400 mb-8">{t('subtitle', { email: email ?? '' })}</p>
+
+            <form onSubmit={handleSubmit} className="card-noir space-y-4">
+              <div>
+                <label className="block text-gray-300 mb-2 text-sm">{t('password')}</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input-noir w-full"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 mb-2 text-sm">{t('confirmPassword')}</label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="input-noir w-full"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              <button type="submit" disabled={submitting} className="btn-primary w-full disabled:opacity-50">
+                {submitting ? t('accepting') : t('accept')}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { authAPI, twoFactorAPI, LoginResult, SecondFactor } from '@/lib/api';
+import { Link, useRouter } from '@/i18n/routing';
+import TwoFactorSetup from '@/components/TwoFactorSetup';
+import TwoFactorCodeForm from '@/components/TwoFactorCodeForm';
+
+export default function LoginPage() {
+  const t = useTranslations('login');
+  const router = useRouter();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [challenge, setChallenge] = useState<LoginResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The admin area sends staff on to the first section their role can see
+  const finish = (role?: string) => {
+    router.push(role === 'ADMIN' || role === 'STAFF' ? '/admin/analytics' : '/account');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await authAPI.login(email.trim(), password);
+      if (result.twoFactorRequired) {
+        setChallenge(result);
+        return;
+      }
+      finish(result.user?.role);
+    } catch (err: any) {
+      const status = err.response?.status;
+      setError(status === 401 ? t('invalidCredentials') : status === 423 ? t('accountLocked') : t('loginFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Challenges last a few minutes; an expired one means starting over
+  const restartOnExpiry = (err: any) => {
+    if (err.response?.data?.code === 'CHALLENGE_EXPIRED') {
+      setChallenge(null);
+      setPassword('');
+      setError(t('challengeExpired'));
+    }
+    throw err;
+  };
+
+  const handleVerify = async (factor: SecondFactor) => {
+    try {
+      const result = await twoFactorAPI.completeLogin(challenge!.challengeToken!, factor);
+      finish(result.user.role);
+    } catch (err) {
+      restartOnExpiry(err);
+    }
+  };
+
+  const handleEnroll = async (code: string) => {
+    try {
+      const result = await twoFactorAPI.completeLogin(challenge!.challengeToken!, { code });
+      return result.recoveryCodes;
+    } catch (err) {
+      return restartOnExpiry(err);
+    }
+  };
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-8">{t('title')}</h1>
+
+        {challenge?.enrollmentRequired ? (
+          <div className="card-noir">
+            <p className="text-sm text-gray-400 mb-4">{t('enrollmentRequired')}</p>
+            <TwoFactorSetup
+              start={() => twoFactorAPI.setupForLogin(challenge.challengeToken!)}
+              confirm={handleEnroll}
+              onDone={() => finish('STAFF')} // Only admins and staff are made to enroll
+            />
+          </div>
+        ) : challenge ? (
+          <div className="card-noir">
+            <p className="text-sm text-gray-400 mb-4">{t('twoFactorPrompt')}</p>
+            <TwoFactorCodeForm onSubmit={handleVerify} />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="card-noir space-y-4">
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">{t('email')}</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="input-noir w-full"
+                autoComplete="email"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">{t('password')}</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input-noir w-full"
+                autoComplete="current-password"
+                required
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <button type="submit" disabled={submitting} className="btn-primary w-full disabled:opacity-50">
+              {submitting ? t('loggingIn') : t('submit')}
+            </button>
+
+            <Link href="/forgot-password" className="block text-center text-sm text-gray-400 hover:underline">
+              {t('forgotPassword')}
+            </Link>
+          </form>
+        )}
+
+        <div className="text-center mt-6">
+          <Link href="/store" className="text-sm text-gray-400 hover:underline">
+            {t('backToStore')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
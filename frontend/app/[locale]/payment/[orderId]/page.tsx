@@ -3,7 +3,8 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import { paymentAPI, PixPaymentResponse } from '@/lib/api';
+import { paymentAPI, Order, PixPaymentResponse } from '@/lib/api';
+import { subscribeOrderEvents } from '@/lib/orderEvents';
 import { Link } from '@/i18n/routing';
 
 export default function PaymentPage() {
@@ -18,6 +19,8 @@ export default function PaymentPage() {
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [checkingStatus, setCheckingStatus] = useState(false);
+  const [expired, setExpired] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
 
   // Store payment data in sessionStorage for page refresh
   useEffect(() => {
@@ -38,34 +41,76 @@ export default function PaymentPage() {
     }
   }, [orderId]);
 
-  // Auto-check payment status every 10 seconds
+  // Returns whether the status ends the wait on this page
+  const handleStatus = (status: Order['status']) => {
+    if (status === 'COMPLETED') {
+      // Redirect to success page
+      router.push(`/${locale}/payment/success/${orderId}`);
+      return true;
+    }
+    if (status === 'FAILED') {
+      // A lapsed code can be replaced; any other failure ends the checkout
+      if (paymentData?.expiresAt && new Date(paymentData.expiresAt).getTime() <= Date.now()) {
+        setExpired(true);
+      } else {
+        setError(t('paymentFailed'));
+      }
+      return true;
+    }
+    return false;
+  };
+
+  // Show the expired state as soon as the code lapses, before the order is marked as failed
+  useEffect(() => {
+    if (!paymentData?.expiresAt) return;
+
+    setExpired(false);
+    const remainingMs = new Date(paymentData.expiresAt).getTime() - Date.now();
+    const timeout = setTimeout(() => setExpired(true), Math.max(remainingMs, 0));
+
+    return () => clearTimeout(timeout);
+  }, [paymentData]);
+
+  // Live status from the order's event stream; polls every 10 seconds if the stream is unavailable
   useEffect(() => {
     if (!paymentData) return;
 
-    const interval = setInterval(async () => {
-      try {
-        const orderData = await paymentAPI.getOrder(orderId);
-        if (orderData.order.status === 'COMPLETED') {
-          clearInterval(interval);
-          // Redirect to success page
-          router.push(`/${locale}/payment/success/${orderId}`);
-        } else if (orderData.order.status === 'FAILED') {
-          clearInterval(interval);
-          setError(t('paymentFailed'));
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const startPolling = () => {
+      interval = setInterval(async () => {
+        try {
+          const orderData = await paymentAPI.getOrder(orderId);
+          if (handleStatus(orderData.order.status)) {
+            clearInterval(interval);
+          }
+        } catch (err) {
+          console.error('Error checking payment status:', err);
         }
-      } catch (err) {
-        console.error('Error checking payment status:', err);
-      }
-    }, 10000); // Check every 10 seconds
+      }, 10000);
+    };
+
+    const unsubscribe = subscribeOrderEvents(
+      orderId,
+      (event) => {
+        if (handleStatus(event.status)) {
+          unsubscribe();
+        }
+      },
+      startPolling
+    );
 
-    return () => clearInterval(interval);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
   }, [paymentData, orderId, router]);
 
   const copyPixCode = async () => {
     if (!paymentData) return;
 
     try {
-      await navigator.clipboard.writeText(paymentData.pixCode);
+      await navigator.clipboard.writeText(paymentData.pixCode ?? '');
       setCopied(true);
       setTimeout(() => setCopied(false), 3000);
     } catch (err) {
@@ -79,11 +124,7 @@ export default function PaymentPage() {
     setCheckingStatus(true);
     try {
       const orderData = await paymentAPI.getOrder(orderId);
-      if (orderData.order.status === 'COMPLETED') {
-        router.push(`/${locale}/payment/success/${orderId}`);
-      } else if (orderData.order.status === 'FAILED') {
-        setError(t('paymentFailed'));
-      }
+      handleStatus(orderData.order.status);
     } catch (err: any) {
       console.error('Error checking payment status:', err);
     } finally {
@@ -91,6 +132,32 @@ export default function PaymentPage() {
     }
   };
 
+  const regenerateCode = async () => {
+    if (regenerating) return;
+
+    setRegenerating(true);
+    try {
+      const response = await paymentAPI.regenerateOrder(orderId, { locale });
+
+      if (response.checkoutUrl) {
+        window.location.href = response.checkoutUrl;
+        return;
+      }
+
+      sessionStorage.setItem(`payment_${orderId}`, JSON.stringify(response));
+      setPaymentData(response);
+    } catch (err: any) {
+      if (err.response?.data?.code === 'ALREADY_PAID') {
+        router.push(`/${locale}/payment/success/${orderId}`);
+        return;
+      }
+      alert(err.response?.data?.error || t('regenerateFailed'));
+      console.error(err);
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -144,94 +211,114 @@ export default function PaymentPage() {
           </div>
         </div>
 
-        {/* QR Code */}
-        <div className="card-noir text-center mb-6">
-          <h3 className="text-xl font-bold text-accent-lime mb-4">
-            {t('scanWithApp')}
-          </h3>
-
-          {paymentData.pixQrCodeBase64 ? (
-            <>
-              <div className="bg-white p-4 rounded-lg inline-block mb-4">
-                {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img
-                  src={
-                    paymentData.pixQrCodeBase64.startsWith('data:')
-                      ? paymentData.pixQrCodeBase64
-                      : `data:image/png;base64,${paymentData.pixQrCodeBase64}`
-                  }
-                  alt="PIX QR Code"
-                  width={256}
-                  height={256}
-                  className="rounded"
-                  onError={(e) => {
-                    console.error('QR Code failed to load');
-                    e.currentTarget.style.display = 'none';
-                  }}
-                />
-              </div>
-              <p className="text-sm text-gray-500">
-                {t('openBankApp')}
-              </p>
-            </>
-          ) : (
-            <div className="bg-noir-darker p-8 rounded-lg mb-4">
-              <p className="text-gray-400">
-                {t('qrCodeNotAvailable')}
-              </p>
-            </div>
-          )}
-        </div>
+        {expired ? (
+          <div className="card-noir text-center">
+            <h3 className="text-xl font-bold text-accent-gold mb-2">
+              {t('codeExpired')}
+            </h3>
+            <p className="text-gray-400 mb-6">
+              {t('codeExpiredDesc')}
+            </p>
+            <button
+              onClick={regenerateCode}
+              disabled={regenerating}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {regenerating ? t('regenerating') : t('regenerate')}
+            </button>
+          </div>
+        ) : (
+          <>
+          {/* QR Code */}
+          <div className="card-noir text-center mb-6">
+            <h3 className="text-xl font-bold text-accent-lime mb-4">
+              {t('scanWithApp')}
+            </h3>
 
-        {/* Copy-Paste Code */}
-        <div className="card-noir mb-6">
-          <h3 className="text-xl font-bold text-accent-emerald mb-4">
-            {t('orCopyCode')}
-          </h3>
-
-          <div className="bg-noir-darker p-4 rounded border border-noir-light mb-4">
-            <code className="text-sm text-gray-300 break-all">
-              {paymentData.pixCode}
-            </code>
+            {paymentData.pixQrCodeBase64 ? (
+              <>
+                <div className="bg-white p-4 rounded-lg inline-block mb-4">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={
+                      paymentData.pixQrCodeBase64.startsWith('data:')
+                        ? paymentData.pixQrCodeBase64
+                        : `data:image/png;base64,${paymentData.pixQrCodeBase64}`
+                    }
+                    alt="PIX QR Code"
+                    width={256}
+                    height={256}
+                    className="rounded"
+                    onError={(e) => {
+                      console.error('QR Code failed to load');
+                      e.currentTarget.style.display = 'none';
+                    }}
+                  />
+                </div>
+                <p className="text-sm text-gray-500">
+                  {t('openBankApp')}
+                </p>
+              </>
+            ) : (
+              <div className="bg-noir-darker p-8 rounded-lg mb-4">
+                <p className="text-gray-400">
+                  {t('qrCodeNotAvailable')}
+                </p>
+              </div>
+            )}
           </div>
 
-          <button
-            onClick={copyPixCode}
-            className={`btn-primary w-full ${copied ? 'bg-green-600' : ''}`}
-          >
-            {copied ? t('copied') : t('copyPixCode')}
-          </button>
+          {/* Copy-Paste Code */}
+          <div className="card-noir mb-6">
+            <h3 className="text-xl font-bold text-accent-emerald mb-4">
+              {t('orCopyCode')}
+            </h3>
 
-          <p className="text-sm text-gray-500 mt-4 whitespace-pre-line">
-            {t('instructions')}
-          </p>
-        </div>
+            <div className="bg-noir-darker p-4 rounded border border-noir-light mb-4">
+              <code className="text-sm text-gray-300 break-all">
+                {paymentData.pixCode}
+              </code>
+            </div>
 
-        {/* Status Check */}
-        <div className="card-noir text-center">
-          <p className="text-gray-400 mb-4">
-            {t('waitingConfirmation')}
-          </p>
+            <button
+              onClick={copyPixCode}
+              className={`btn-primary w-full ${copied ? 'bg-green-600' : ''}`}
+            >
+              {copied ? t('copied') : t('copyPixCode')}
+            </button>
 
-          <div className="flex items-center justify-center gap-2 mb-4">
-            <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-accent-emerald"></div>
-            <span className="text-sm text-gray-500">
-              {t('checkingStatus')}
-            </span>
+            <p className="text-sm text-gray-500 mt-4 whitespace-pre-line">
+              {t('instructions')}
+            </p>
           </div>
 
-          <button
-            onClick={manualCheckStatus}
-            disabled={checkingStatus}
-            className="btn-secondary"
-          >
-            {checkingStatus ? t('checking') : t('checkStatusNow')}
-          </button>
+          {/* Status Check */}
+          <div className="card-noir text-center">
+            <p className="text-gray-400 mb-4">
+              {t('waitingConfirmation')}
+            </p>
 
-          <p className="text-xs text-gray-600 mt-4">
-            {t('paymentExpires')}: {paymentData.expiresAt ? new Date(paymentData.expiresAt).toLocaleString() : 'N/A'}
-          </p>
-        </div>
+            <div className="flex items-center justify-center gap-2 mb-4">
+              <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-accent-emerald"></div>
+              <span className="text-sm text-gray-500">
+                {t('checkingStatus')}
+              </span>
+            </div>
+
+            <button
+              onClick={manualCheckStatus}
+              disabled={checkingStatus}
+              className="btn-secondary"
+            >
+              {checkingStatus ? t('checking') : t('checkStatusNow')}
+            </button>
+
+            <p className="text-xs text-gray-600 mt-4">
+              {t('paymentExpires')}: {paymentData.expiresAt ? new Date(paymentData.expiresAt).toLocaleString() : 'N/A'}
+            </p>
+          </div>
+          </>
+        )}
 
         {/* Back Link */}
         <div className="text-center mt-8">
@@ -2,14 +2,17 @@
 
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
-import { useTranslations } from 'next-intl';
-import { paymentAPI, Order } from '@/lib/api';
+import { useTranslations, useLocale } from 'next-intl';
+import { paymentAPI, Order, OrderItem } from '@/lib/api';
 import { Link } from '@/i18n/routing';
+import { formatMoney } from '@/lib/money';
+import ClaimAccountForm from '@/components/ClaimAccountForm';
 
 export default function PaymentSuccessPage() {
   const params = useParams();
   const orderId = params.orderId as string;
   const t = useTranslations('payment');
+  const locale = useLocale();
 
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
@@ -17,7 +20,7 @@ export default function PaymentSuccessPage() {
   const [errorType, setErrorType] = useState<'auth' | 'not_found' | 'network' | 'unknown'>('unknown');
   const [retryCount, setRetryCount] = useState(0);
   const [retrying, setRetrying] = useState(false);
-  const [downloadCopied, setDownloadCopied] = useState(false);
+  const [copiedItemId, setCopiedItemId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchOrderWithRetry();
@@ -107,13 +110,22 @@ export default function PaymentSuccessPage() {
     setRetrying(false);
   };
 
-  const copyDownloadLink = async () => {
-    if (!order?.downloadLink) return;
+  // Buyers get a signed, expiring link per item; the raw link is only present for admins
+  const getDownloadUrl = (item: OrderItem) => item.delivery?.url || item.downloadLink;
+
+  const items = order?.items || [];
+  // Item amounts are in the currency the order was charged in
+  const currency = order?.currency ?? items[0]?.price?.currency ?? 'BRL';
+  const totalPaid = items.reduce((sum, item) => sum + item.amountInCents - item.discountInCents, 0);
+
+  const copyDownloadLink = async (item: OrderItem) => {
+    const downloadUrl = getDownloadUrl(item);
+    if (!downloadUrl) return;
 
     try {
-      await navigator.clipboard.writeText(order.downloadLink);
-      setDownloadCopied(true);
-      setTimeout(() => setDownloadCopied(false), 3000);
+      await navigator.clipboard.writeText(downloadUrl);
+      setCopiedItemId(item.id);
+      setTimeout(() => setCopiedItemId(null), 3000);
     } catch (err) {
       console.error('Failed to copy:', err);
     }
@@ -201,6 +213,16 @@ export default function PaymentSuccessPage() {
                 </button>
               )}
 
+              {/* Pedido de outra sessão (navegador limpo, outro dispositivo) */}
+              {(errorType === 'auth' || errorType === 'not_found') && (
+                <div className="text-sm text-gray-400">
+                  {t('lostAccess')}{' '}
+                  <Link href="/recover" className="text-accent-emerald hover:underline">
+                    {t('recoverOrder')}
+                  </Link>
+                </div>
+              )}
+
               <Link href="/store" className="btn-secondary block">
                 Back to Store
               </Link>
@@ -259,22 +281,23 @@ export default function PaymentSuccessPage() {
             <p className="text-gray-400 text-sm">Order ID: {order.id}</p>
           </div>
 
-          {order.price && (
+          {items.length > 0 && (
             <div className="space-y-2">
-              <div className="flex justify-between">
-                <span className="text-gray-400">Product:</span>
-                <span className="text-gray-200 font-semibold">
-                  {order.price.product?.name}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-400">Quality:</span>
-                <span className="text-gray-200">{order.price.category}</span>
-              </div>
-              <div className="flex justify-between">
+              {items.map((item) => (
+                <div key={item.id} className="flex justify-between">
+                  <span className="text-gray-200 font-semibold">
+                    {item.price?.product?.name}
+                    <span className="text-gray-400 font-normal"> · {item.price?.category}</span>
+                  </span>
+                  <span className="text-gray-300">
+                    {formatMoney(item.amountInCents, currency, locale)}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between pt-2 border-t border-noir-light">
                 <span className="text-gray-400">Amount Paid:</span>
                 <span className="text-accent-gold font-bold text-lg">
-                  {order.price.currency} {order.price.amount.toFixed(2)}
+                  {formatMoney(totalPaid, currency, locale)}
                 </span>
               </div>
               <div className="flex justify-between">
@@ -287,60 +310,106 @@ export default function PaymentSuccessPage() {
           )}
         </div>
 
-        {/* Download Link */}
-        {order.downloadLink && (
-          <div className="card-noir mb-6">
-            <h3 className="text-xl font-bold text-accent-lime mb-4">
-              Download Your Content
-            </h3>
-
-            <div className="bg-noir-darker p-4 rounded border border-noir-light mb-4">
-              <code className="text-sm text-gray-300 break-all">
-                {order.downloadLink}
-              </code>
-            </div>
-
-            <div className="space-y-3">
-              <a
-                href={order.downloadLink}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="btn-primary w-full text-center block text-lg py-4"
-              >
-                🎁 Access Your Content Now
-              </a>
+        {items.map((item) => {
+          const downloadUrl = getDownloadUrl(item);
+          const hasInvite = item.telegramInviteLink && !item.telegramInviteRevokedAt;
 
-              <button
-                onClick={copyDownloadLink}
-                className={`btn-secondary w-full ${downloadCopied ? 'bg-green-600' : ''}`}
-              >
-                {downloadCopied ? '✓ Copied' : 'Copy Link'}
-              </button>
-            </div>
+          if (!downloadUrl && !hasInvite) {
+            return null;
+          }
 
-            <p className="text-sm text-gray-500 mt-4">
-              💡 Tip: Save this link! You can access your download anytime.
-            </p>
+          return (
+            <div key={item.id} className="card-noir mb-6">
+              <h3 className="text-xl font-bold text-accent-lime mb-4">
+                {items.length > 1
+                  ? `${item.price?.product?.name} · ${item.price?.category}`
+                  : 'Your Content'}
+              </h3>
+
+              {/* Telegram Channel Invite */}
+              {hasInvite && (
+                <div className="mb-6">
+                  <a
+                    href={item.telegramInviteLink!}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="btn-primary w-full text-center block text-lg py-4"
+                  >
+                    ✈️ Join the Private Channel on Telegram
+                  </a>
+
+                  <p className="text-sm text-gray-500 mt-2">
+                    💡 This invite works for one person only
+                    {item.telegramInviteExpiresAt && ` and expires on ${new Date(item.telegramInviteExpiresAt).toLocaleString()}`}.
+                    Don't share it.
+                  </p>
+                </div>
+              )}
 
-            <div className="mt-6 pt-6 border-t border-noir-light text-center">
-              <a
-                href="https://t.me/SUPORTEPARADISE02"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center gap-2 text-accent-emerald hover:text-accent-lime transition-colors"
-              >
-                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 0C5.373 0 0 5.373 0 12s5.373 12 12 12 12-5.373 12-12S18.627 0 12 0zm5.894 8.221l-1.97 9.28c-.145.658-.537.818-1.084.508l-3-2.21-1.446 1.394c-.14.18-.357.295-.6.295-.002 0-.003 0-.005 0l.213-3.054 5.56-5.022c.24-.213-.054-.334-.373-.121l-6.869 4.326-2.96-.924c-.64-.203-.658-.64.135-.954l11.566-4.458c.538-.196 1.006.128.832.941z"></path>
-                </svg>
-                <span className="font-semibold">{t('support')}</span>
-              </a>
-              <p className="text-sm text-gray-500 mt-2">
-                {t('needHelp')}
-              </p>
+              {/* Download Link */}
+              {downloadUrl && (
+                <>
+                  <div className="bg-noir-darker p-4 rounded border border-noir-light mb-4">
+                    <code className="text-sm text-gray-300 break-all">
+                      {downloadUrl}
+                    </code>
+                  </div>
+
+                  <div className="space-y-3">
+                    <a
+                      href={downloadUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="btn-primary w-full text-center block text-lg py-4"
+                    >
+                      🎁 Access Your Content Now
+                    </a>
+
+                    <button
+                      onClick={() => copyDownloadLink(item)}
+                      className={`btn-secondary w-full ${copiedItemId === item.id ? 'bg-green-600' : ''}`}
+                    >
+                      {copiedItemId === item.id ? '✓ Copied' : 'Copy Link'}
+                    </button>
+                  </div>
+
+                  {item.delivery ? (
+                    <p className="text-sm text-gray-500 mt-4">
+                      💡 This link expires on {new Date(item.delivery.expiresAt).toLocaleString()} and
+                      can be used {item.delivery.remainingUses} more time(s). Come back to this page to get a new one.
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-500 mt-4">
+                      💡 Tip: Save this link! You can access your download anytime.
+                    </p>
+                  )}
+                </>
+              )}
             </div>
+          );
+        })}
+
+        {order.status === 'COMPLETED' && (
+          <div className="card-noir mb-6 text-center">
+            <a
+              href="https://t.me/SUPORTEPARADISE02"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 text-accent-emerald hover:text-accent-lime transition-colors"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M12 0C5.373 0 0 5.373 0 12s5.373 12 12 12 12-5.373 12-12S18.627 0 12 0zm5.894 8.221l-1.97 9.28c-.145.658-.537.818-1.084.508l-3-2.21-1.446 1.394c-.14.18-.357.295-.6.295-.002 0-.003 0-.005 0l.213-3.054 5.56-5.022c.24-.213-.054-.334-.373-.121l-6.869 4.326-2.96-.924c-.64-.203-.658-.64.135-.954l11.566-4.458c.538-.196 1.006.128.832.941z"></path>
+              </svg>
+              <span className="font-semibold">{t('support')}</span>
+            </a>
+            <p className="text-sm text-gray-500 mt-2">
+              {t('needHelp')}
+            </p>
           </div>
         )}
 
+        {order.status === 'COMPLETED' && <ClaimAccountForm />}
+
         {/* Actions */}
         <div className="text-center space-y-4">
           <Link href="/store" className="btn-secondary inline-block">
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { recoveryAPI, RecoveryResult, storeSession } from '@/lib/api';
+import { Link, useRouter } from '@/i18n/routing';
+import { formatMoney } from '@/lib/money';
+
+type Method = 'receipt' | 'order' | 'email';
+
+export default function RecoverOrdersPage() {
+  const t = useTranslations('recovery');
+  const locale = useLocale();
+  const router = useRouter();
+
+  const [method, setMethod] = useState<Method>('receipt');
+  const [endToEndId, setEndToEndId] = useState('');
+  const [orderId, setOrderId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RecoveryResult | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      if (method === 'receipt') {
+        setResult(await recoveryAPI.byReceipt(endToEndId.trim()));
+      } else if (method === 'order') {
+        setResult(await recoveryAPI.byOrder(orderId.trim(), amount.trim()));
+      } else if (!codeSent) {
+        await recoveryAPI.sendEmailCode(email.trim());
+        setCodeSent(true);
+      } else {
+        setResult(await recoveryAPI.verifyEmailCode(email.trim(), code.trim()));
+      }
+    } catch (err: any) {
+      setError(err.response?.status === 429 ? t('tooManyAttempts') : t('notFound'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Replaces this device's session with the guest session that made the purchase
+  const handleRestoreSession = () => {
+    if (!result?.session) {
+      return;
+    }
+    storeSession(result.session);
+    router.push(`/payment/success/${result.orders[0].id}`);
+  };
+
+  const selectMethod = (next: Method) => {
+    setMethod(next);
+    setError(null);
+  };
+
+  if (result) {
+    return (
+      <div className="min-h-screen py-16 px-4">
+        <div className="max-w-2xl mx-auto">
+          <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-2">{t('foundTitle')}</h1>
+          <p className="text-gray-400 mb-8">{t('foundDesc', { count: result.orders.length })}</p>
+
+          {result.orders.map((order) => (
+            <div key={order.id} className="card-noir mb-6">
+              <div className="flex justify-between items-center mb-4">
+                <span className="text-sm text-gray-500 font-mono">{order.id}</span>
+                <span className="text-accent-emerald font-semibold">
+                  {formatMoney(order.totalInCents, order.currency, locale)}
+                </span>
+              </div>
+
+              {order.items.map((item) => (
+                <div key={item.id} className="border-t border-noir-light pt-4 mt-4">
+                  <p className="font-semibold">{item.productName ?? t('unknownProduct')}</p>
+                  {item.category && <p className="text-sm text-gray-500 mb-2">{item.category}</p>}
+
+                  {item.delivery && (
+                    <a href={item.delivery.url} target="_blank" rel="noopener noreferrer" className="btn-primary inline-block mt-2">
+                      {t('access')}
+                    </a>
+                  )}
+                  {item.telegramInviteLink && (
+                    <a href={item.telegramInviteLink} target="_blank" rel="noopener noreferrer" className="btn-secondary inline-block mt-2 ml-2">
+                      {t('joinTelegram')}
+                    </a>
+                  )}
+                  {!item.delivery && !item.telegramInviteLink && (
+                    <p className="text-sm text-gray-500">{t('noDelivery')}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {result.session && (
+            <div className="card-noir mb-6">
+              <p className="text-sm text-gray-400 mb-4">{t('restoreHint')}</p>
+              <button onClick={handleRestoreSession} className="btn-primary w-full">
+                {t('restore')}
+              </button>
+            </div>
+          )}
+
+          {result.hasAccount && (
+            <p className="text-sm text-gray-400 text-center">{t('hasAccount')}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-2">{t('title')}</h1>
+        <p className="text-gray-400 mb-8">{t('subtitle')}</p>
+
+        <div className="flex gap-2 mb-6">
+          {(['receipt', 'order', 'email'] as Method[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => selectMethod(option)}
+              className={method === option ? 'btn-primary flex-1' : 'btn-secondary flex-1'}
+            >
+              {t(`methods.${option}`)}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="card-noir space-y-4">
+          <p className="text-sm text-gray-400">{t(`hints.${method}`)}</p>
+
+          {method === 'receipt' && (
+            <input
+              type="text"
+              value={endToEndId}
+              onChange={(e) => setEndToEndId(e.target.value)}
+              className="input-noir w-full font-mono"
+              placeholder="E00000000202401011200abcdefghijk"
+              required
+            />
+          )}
+
+          {method === 'order' && (
+            <>
+              <input
+                type="text"
+                value={orderId}
+                onChange={(e) => setOrderId(e.target.value)}
+                className="input-noir w-full font-mono"
+                placeholder={t('orderIdPlaceholder')}
+                required
+              />
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="input-noir w-full"
+                placeholder={t('amountPlaceholder')}
+                required
+              />
+            </>
+          )}
+
+          {method === 'email' && (
+            <>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="input-noir w-full"
+                placeholder={t('emailPlaceholder')}
+                disabled={codeSent}
+                required
+              />
+              {codeSent && (
+                <>
+                  <p className="text-sm text-accent-emerald">{t('codeSent')}</p>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="input-noir w-full font-mono tracking-widest"
+                    placeholder="000000"
+                    maxLength={6}
+                    required
+                  />
+                </>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <button type="submit" disabled={submitting} className="btn-primary w-full disabled:opacity-50">
+            {submitting
+              ? t('searching')
+              : method === 'email' && !codeSent
+              ? t('sendCode')
+              : t('recover')}
+          </button>
+        </form>
+
+        <div className="text-center mt-6">
+          <Link href="/store" className="text-sm text-gray-400 hover:underline">
+            {t('backToStore')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { authAPI } from '@/lib/api';
+import { Link } from '@/i18n/routing';
+
+// Password reset emails link here with ?token=
+export default function ResetPasswordPage({ searchParams }: { searchParams: { token?: string } }) {
+  const t = useTranslations('passwordReset');
+  const token = searchParams.token ?? '';
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [done, setDone] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError(t('passwordMismatch'));
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await authAPI.resetPassword(token, password);
+      setDone(true);
+    } catch (err: any) {
+      // The server knows the minimum length, which is longer for admin accounts
+      setError(err.response?.data?.error || t('resetFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-8">{t('resetTitle')}</h1>
+
+        {!token ? (
+          <div className="card-noir text-center">
+            <p className="text-gray-400 mb-4">{t('invalidLink')}</p>
+            <Link href="/forgot-password" className="btn-secondary inline-block">
+              {t('requestNew')}
+            </Link>
+          </div>
+        ) : done ? (
+          <div className="card-noir text-center">
+            <p className="text-gray-300 mb-4">{t('resetDone')}</p>
+            <Link href="/login" className="btn-primary inline-block">
+              {t('goToLogin')}
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="card-noir space-y-4">
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">{t('newPassword')}</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input-noir w-full"
+                autoComplete="new-password"
+                minLength={6}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-2 text-sm">{t('confirmPassword')}</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="input-noir w-full"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <button type="submit" disabled={submitting} className="btn-primary w-full disabled:opacity-50">
+              {submitting ? t('resetting') : t('reset')}
+            </button>
+
+            <Link href="/forgot-password" className="block text-center text-sm text-gray-400 hover:underline">
+              {t('requestNew')}
+            </Link>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
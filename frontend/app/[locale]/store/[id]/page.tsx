@@ -3,9 +3,13 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useTranslations, useLocale } from 'next-intl';
-import { productAPI, paymentAPI, Product } from '@/lib/api';
+import { productAPI, paymentAPI, cartAPI, Product, Price, BuyerData, InitiatePaymentParams } from '@/lib/api';
 import { Link } from '@/i18n/routing';
 import { ProductStructuredData, BreadcrumbStructuredData } from '@/components/StructuredData';
+import { formatPrice } from '@/lib/money';
+import BuyerDataForm from '@/components/BuyerDataForm';
+import { BuyerDataErrors, emptyBuyerData, toPaymentClientParams, validateBuyerData } from '@/lib/buyerData';
+import { clearIdempotencyKey, getIdempotencyKey } from '@/lib/idempotency';
 
 export default function ProductDetailsPage() {
   const params = useParams();
@@ -14,18 +18,20 @@ export default function ProductDetailsPage() {
   const locale = useLocale();
   const t = useTranslations('productDetails');
   const tCommon = useTranslations('common');
+  const tBuyer = useTranslations('buyerData');
 
   const [product, setProduct] = useState<Product | null>(null);
-  const [detectedCountry, setDetectedCountry] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [processingPayment, setProcessingPayment] = useState(false);
-  const [paymentGateway, setPaymentGateway] = useState<'pushinpay' | 'syncpay'>('pushinpay');
   const [blackFridayPromo, setBlackFridayPromo] = useState(false);
+  const [addingToCart, setAddingToCart] = useState<string | null>(null);
+  const [cartPriceIds, setCartPriceIds] = useState<string[]>([]);
+  const [buyerData, setBuyerData] = useState<BuyerData>(emptyBuyerData);
+  const [buyerErrors, setBuyerErrors] = useState<BuyerDataErrors>({});
 
   useEffect(() => {
     fetchProduct();
-    fetchGatewayConfig();
     fetchPromoStatus();
   }, [productId]);
 
@@ -33,7 +39,6 @@ export default function ProductDetailsPage() {
     try {
       const data = await productAPI.getById(productId);
       setProduct(data.product);
-      setDetectedCountry(data.detectedCountry); // Keep for payment logic, just don't display
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to load product');
       console.error(err);
@@ -42,19 +47,6 @@ export default function ProductDetailsPage() {
     }
   };
 
-  const fetchGatewayConfig = async () => {
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/settings/public`);
-      const data = await response.json();
-      if (data.paymentGateway) {
-        setPaymentGateway(data.paymentGateway);
-      }
-    } catch (err) {
-      console.error('Failed to fetch gateway config:', err);
-      // Keep default gateway
-    }
-  };
-
   const fetchPromoStatus = async () => {
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/settings/public`);
@@ -65,23 +57,30 @@ export default function ProductDetailsPage() {
     }
   };
 
-  const handlePurchase = async (priceId: string) => {
+  const handlePurchase = async (price: Price) => {
+    const errors = validateBuyerData(buyerData, !!price.checkout?.buyerDataRequired);
+    setBuyerErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
     setProcessingPayment(true);
+    const intent = `price:${price.id}`;
     try {
-      const params: any = {
-        priceId,
-        gateway: paymentGateway,
+      const params: InitiatePaymentParams = {
+        ...toPaymentClientParams(buyerData),
+        priceId: price.id,
+        locale,
       };
 
-      // Add fixed/generic client info if using SyncPay
-      if (paymentGateway === 'syncpay') {
-        params.clientName = 'Cliente Telegram Secrets';
-        params.clientCpf = '00000000000';
-        params.clientEmail = 'cliente@telegram-secrets.com';
-        params.clientPhone = '11999999999';
-      }
+      const response = await paymentAPI.initiatePayment(params, getIdempotencyKey(intent));
+      clearIdempotencyKey(intent);
 
-      const response = await paymentAPI.initiatePayment(params);
+      // Card payments are completed on the gateway's hosted checkout page
+      if (response.checkoutUrl) {
+        window.location.href = response.checkoutUrl;
+        return;
+      }
 
       // Store payment data in sessionStorage for the payment page
       sessionStorage.setItem(
@@ -92,12 +91,36 @@ export default function ProductDetailsPage() {
       // Redirect to payment page with QR code (locale is automatically included by next-intl routing)
       router.push(`/${locale}/payment/${response.orderId}`);
     } catch (err: any) {
+      if (err.response?.data?.code === 'IDEMPOTENCY_KEY_IN_USE') {
+        // A double click: the first request is still creating the charge
+        return;
+      }
+      if (err.response?.data?.code === 'BUYER_DATA_REQUIRED') {
+        // The gateway changed since the page loaded
+        setBuyerErrors(validateBuyerData(buyerData, true));
+        alert(tBuyer('missing'));
+        setProcessingPayment(false);
+        return;
+      }
       alert(err.response?.data?.error || 'Failed to initiate payment');
       console.error(err);
       setProcessingPayment(false);
     }
   };
 
+  const handleAddToCart = async (priceId: string) => {
+    setAddingToCart(priceId);
+    try {
+      await cartAPI.addItem(priceId);
+      setCartPriceIds((current) => [...current, priceId]);
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to add to cart');
+      console.error(err);
+    } finally {
+      setAddingToCart(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -119,8 +142,9 @@ export default function ProductDetailsPage() {
     );
   }
 
-  // Determine if user is from Brazil
-  const isBrazilianUser = detectedCountry === 'BR';
+  // Prices the visitor can pay online, per the backend's gateway routing rules
+  const purchasablePrices = (product.prices ?? []).filter((price) => price.checkout);
+  const buyerDataRequired = purchasablePrices.some((price) => price.checkout?.buyerDataRequired);
 
   // Breadcrumb for SEO
   const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://telegram-secrets.com';
@@ -211,9 +235,8 @@ export default function ProductDetailsPage() {
                 </p>
               </div>
 
-              {/* CONDITIONAL LOGIC: Brazilian vs Non-Brazilian */}
-              {isBrazilianUser ? (
-                // BRAZIL: Show price tiers and payment options
+              {/* Online checkout when routing gives the visitor a gateway, Telegram otherwise */}
+              {purchasablePrices.length > 0 ? (
                 <div>
                   {blackFridayPromo && (
                     <div className="mb-6 p-4 bg-gradient-to-r from-accent-gold/20 to-accent-lime/20 rounded-lg border-2 border-accent-emerald text-center">
@@ -230,44 +253,71 @@ export default function ProductDetailsPage() {
                     {t('selectQuality')}
                   </h2>
 
-                  {product.prices && product.prices.length > 0 ? (
-                    <div className="space-y-4">
-                      {product.prices
-                          .slice() // Cria uma cópia para não alterar o estado original
-                          .sort((a, b) => a.amount - b.amount) // Ordena pelo preço (amount)
-                          .map((price) => (
-                        <div
-                          key={price.id}
-                          className="card-noir flex items-center justify-between hover:border-accent-emerald transition-all"
-                        >
-                          <div className="flex-1">
-                            <div className="flex items-center gap-3">
-                              <h3 className="text-xl font-bold text-accent-emerald">
-                                {price.category}
-                              </h3>
-                              {blackFridayPromo && (
-                                <span className="bg-accent-gold text-white text-xs font-bold px-2 py-1 rounded uppercase">
-                                  -10%
-                                </span>
-                              )}
-                            </div>
-                            <p className="text-3xl font-bold text-gray-100">
-                              {price.currency} {price.amount.toFixed(2)}
-                            </p>
+                  <div className="space-y-4">
+                    {purchasablePrices
+                        .sort((a, b) => a.amountInCents - b.amountInCents) // Ordena pelo preço
+                        .map((price) => (
+                      <div
+                        key={price.id}
+                        className="card-noir flex items-center justify-between hover:border-accent-emerald transition-all"
+                      >
+                        <div className="flex-1">
+                          <div className="flex items-center gap-3">
+                            <h3 className="text-xl font-bold text-accent-emerald">
+                              {price.category}
+                            </h3>
+                            {blackFridayPromo && (
+                              <span className="bg-accent-gold text-white text-xs font-bold px-2 py-1 rounded uppercase">
+                                -10%
+                              </span>
+                            )}
                           </div>
+                          <p className="text-3xl font-bold text-gray-100">
+                            {formatPrice(price, locale)}
+                          </p>
+                          {price.billingMode === 'SUBSCRIPTION' && (
+                            <p className="text-sm text-accent-gold">
+                              {t('subscriptionPeriod', { days: price.periodDays ?? 0 })}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-500">
+                            {price.checkout?.method === 'CARD' ? t('payByCard') : t('payWithPix')}
+                          </p>
+                        </div>
+                        <div className="flex flex-col gap-2">
                           <button
-                            onClick={() => handlePurchase(price.id)}
+                            onClick={() => handlePurchase(price)}
                             disabled={processingPayment}
                             className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
                           >
                             {processingPayment ? t('processing') : t('buyNow')}
                           </button>
+                          {cartPriceIds.includes(price.id) ? (
+                            <Link href="/cart" className="btn-secondary text-center text-sm">
+                              {t('inCart')}
+                            </Link>
+                          ) : (
+                            <button
+                              onClick={() => handleAddToCart(price.id)}
+                              disabled={addingToCart === price.id}
+                              className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {t('addToCart')}
+                            </button>
+                          )}
                         </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <p className="text-gray-400">{t('noPricesAvailable')}</p>
-                  )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="mt-8">
+                    <BuyerDataForm
+                      value={buyerData}
+                      onChange={setBuyerData}
+                      errors={buyerErrors}
+                      required={buyerDataRequired}
+                    />
+                  </div>
 
                   <div className="mt-8 p-6 bg-noir-medium rounded-lg border border-noir-light">
                     <h3 className="font-bold text-accent-lime mb-2">{t('securePayment')}</h3>
@@ -275,7 +325,7 @@ export default function ProductDetailsPage() {
                   </div>
                 </div>
               ) : (
-                // NON-BRAZIL: Show Telegram purchase button only
+                // No gateway for this visitor's country and currency: Telegram purchase button only
                 <div>
                   <h2 className="text-2xl font-bold text-accent-lime mb-6">
                     {t('purchaseViaTelegram')}
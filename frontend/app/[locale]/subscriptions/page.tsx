@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations, useLocale } from 'next-intl';
+import { entitlementAPI, paymentAPI, Entitlement, PaymentClientParams, BuyerData } from '@/lib/api';
+import { Link } from '@/i18n/routing';
+import { formatMoney } from '@/lib/money';
+import BuyerDataForm from '@/components/BuyerDataForm';
+import { BuyerDataErrors, emptyBuyerData, toPaymentClientParams, validateBuyerData } from '@/lib/buyerData';
+
+export default function SubscriptionsPage() {
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations('subscriptions');
+  const tBuyer = useTranslations('buyerData');
+
+  const [entitlements, setEntitlements] = useState<Entitlement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  // Renewals use the details saved on the account; the form only shows when the gateway asks for them
+  const [showBuyerForm, setShowBuyerForm] = useState(false);
+  const [buyerData, setBuyerData] = useState<BuyerData>(emptyBuyerData);
+  const [buyerErrors, setBuyerErrors] = useState<BuyerDataErrors>({});
+
+  useEffect(() => {
+    fetchEntitlements();
+  }, []);
+
+  const fetchEntitlements = async () => {
+    try {
+      const data = await entitlementAPI.getEntitlements();
+      setEntitlements(data.entitlements);
+    } catch (err) {
+      console.error('Failed to fetch subscriptions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRenew = async (entitlementId: string) => {
+    const errors = validateBuyerData(buyerData, showBuyerForm);
+    setBuyerErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    setRenewingId(entitlementId);
+    try {
+      const params: PaymentClientParams = {
+        ...toPaymentClientParams(buyerData),
+        locale,
+      };
+
+      const response = await paymentAPI.renewEntitlement(entitlementId, params);
+
+      // Card payments are completed on the gateway's hosted checkout page
+      if (response.checkoutUrl) {
+        window.location.href = response.checkoutUrl;
+        return;
+      }
+
+      // Store payment data in sessionStorage for the payment page
+      sessionStorage.setItem(
+        `payment_${response.orderId}`,
+        JSON.stringify(response)
+      );
+
+      router.push(`/${locale}/payment/${response.orderId}`);
+    } catch (err: any) {
+      if (err.response?.data?.code === 'BUYER_DATA_REQUIRED') {
+        setShowBuyerForm(true);
+        alert(tBuyer('missing'));
+        setRenewingId(null);
+        return;
+      }
+      alert(err.response?.data?.error || 'Failed to initiate payment');
+      console.error(err);
+      setRenewingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-accent-emerald"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-8">{t('title')}</h1>
+
+        {entitlements.length === 0 ? (
+          <div className="card-noir text-center py-16">
+            <p className="text-gray-400 text-lg mb-6">{t('empty')}</p>
+            <Link href="/store" className="btn-secondary">
+              {t('browse')}
+            </Link>
+          </div>
+        ) : (
+          <>
+            {showBuyerForm && (
+              <div className="mb-6">
+                <BuyerDataForm
+                  value={buyerData}
+                  onChange={setBuyerData}
+                  errors={buyerErrors}
+                  required
+                />
+              </div>
+            )}
+
+            <div className="space-y-4 mb-6">
+              {entitlements.map((entitlement) => {
+                const { price } = entitlement;
+                const isActive = entitlement.status === 'ACTIVE';
+                const canRenew = price && price.billingMode === 'SUBSCRIPTION' && price.product.isActive;
+                const date = new Date(entitlement.expiresAt).toLocaleDateString(locale);
+
+                return (
+                  <div key={entitlement.id} className="card-noir">
+                    <div className="flex items-center gap-4 mb-4">
+                      {price && (
+                        <img
+                          src={price.product.imageUrl}
+                          alt={price.product.name}
+                          className="w-16 h-16 rounded object-cover"
+                        />
+                      )}
+                      <div className="flex-1">
+                        <p className="font-bold text-gray-100">{price?.product.name ?? '—'}</p>
+                        {price && <p className="text-sm text-gray-400">{price.category}</p>}
+                      </div>
+                      <span
+                        className={`text-xs font-bold px-2 py-1 rounded uppercase ${
+                          isActive ? 'bg-accent-emerald text-white' : 'bg-noir-light text-gray-400'
+                        }`}
+                      >
+                        {isActive ? t('active') : t('expired')}
+                      </span>
+                    </div>
+
+                    <p className={`text-sm mb-4 ${isActive ? 'text-gray-300' : 'text-red-400'}`}>
+                      {isActive ? t('expiresOn', { date }) : t('expiredOn', { date })}
+                    </p>
+
+                    {canRenew ? (
+                      <button
+                        onClick={() => handleRenew(entitlement.id)}
+                        disabled={renewingId !== null}
+                        className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {renewingId === entitlement.id
+                          ? t('processing')
+                          : `${t('renew', { days: price.periodDays ?? 0 })} · ${formatMoney(price.amountInCents, price.currency, locale)}`}
+                      </button>
+                    ) : (
+                      <p className="text-sm text-gray-500">{t('unavailable')}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="text-sm text-gray-500 text-center">{t('renewHint')}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { authAPI } from '@/lib/api';
+import { Link } from '@/i18n/routing';
+
+// Verification emails link here with ?token=
+export default function VerifyEmailPage({ searchParams }: { searchParams: { token?: string } }) {
+  const t = useTranslations('verifyEmail');
+  const token = searchParams.token ?? '';
+
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'invalid'>('verifying');
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('invalid');
+      return;
+    }
+
+    authAPI
+      .verifyEmail(token)
+      .then(() => setStatus('verified'))
+      // A link only works once: a repeated request (e.g. effects running twice) mustn't undo success
+      .catch(() => setStatus((current) => (current === 'verified' ? current : 'invalid')));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-4xl font-serif font-bold text-accent-emerald mb-8">{t('title')}</h1>
+
+        <div className="card-noir text-center">
+          {status === 'verifying' ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-accent-emerald"></div>
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-300 mb-4">{status === 'verified' ? t('verified') : t('invalid')}</p>
+              <Link href="/account" className="btn-secondary inline-block">
+                {t('goToAccount')}
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { buyerDataAPI, BuyerData } from '@/lib/api';
+import { BuyerDataErrors, BuyerDataField, emptyBuyerData } from '@/lib/buyerData';
+
+interface BuyerDataFormProps {
+  value: BuyerData;
+  onChange: (value: BuyerData) => void;
+  errors: BuyerDataErrors;
+  required: boolean; // The checkout's gateway can't charge without it
+}
+
+const FIELDS: Array<{ field: BuyerDataField; type: string; autoComplete: string }> = [
+  { field: 'name', type: 'text', autoComplete: 'name' },
+  { field: 'cpf', type: 'text', autoComplete: 'off' },
+  { field: 'email', type: 'email', autoComplete: 'email' },
+  { field: 'phone', type: 'tel', autoComplete: 'tel' },
+];
+
+/**
+ * Payer identification for checkout, prefilled with what the account saved on the last purchase
+ */
+export default function BuyerDataForm({ value, onChange, errors, required }: BuyerDataFormProps) {
+  const t = useTranslations('buyerData');
+  const [hasSaved, setHasSaved] = useState(false);
+
+  useEffect(() => {
+    fetchSavedData();
+  }, []);
+
+  const fetchSavedData = async () => {
+    try {
+      const data = await buyerDataAPI.get();
+      if (data.buyerData) {
+        setHasSaved(true);
+        onChange(data.buyerData);
+      }
+    } catch (error) {
+      // Not logged in yet; checkout asks for it
+      console.error('Failed to load buyer data:', error);
+    }
+  };
+
+  const handleForget = async () => {
+    try {
+      await buyerDataAPI.remove();
+      setHasSaved(false);
+      onChange(emptyBuyerData);
+    } catch (error) {
+      console.error('Failed to delete buyer data:', error);
+    }
+  };
+
+  return (
+    <div className="card-noir">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold text-accent-emerald">{t('title')}</h3>
+        <span className="text-xs text-gray-500 uppercase">{required ? t('required') : t('optional')}</span>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">{required ? t('requiredHint') : t('optionalHint')}</p>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        {FIELDS.map(({ field, type, autoComplete }) => (
+          <div key={field}>
+            <label className="block text-gray-300 mb-2 text-sm">{t(`fields.${field}`)}</label>
+            <input
+              type={type}
+              value={value[field]}
+              onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+              className="input-noir w-full"
+              placeholder={t(`placeholders.${field}`)}
+              autoComplete={autoComplete}
+            />
+            {errors[field] && <p className="text-sm text-red-400 mt-1">{t(`errors.${errors[field]}`)}</p>}
+          </div>
+        ))}
+      </div>
+
+      {hasSaved && (
+        <button onClick={handleForget} className="text-sm text-red-400 hover:underline mt-4">
+          {t('forget')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { authAPI } from '@/lib/api';
+
+/**
+ * Lets a guest keep their purchases by turning the session into an account
+ * Renders nothing for logged-in customers. Codes copied from other devices' guest sessions
+ * merge those purchases too.
+ */
+export default function ClaimAccountForm() {
+  const t = useTranslations('account');
+  const locale = useLocale();
+  const [isGuest, setIsGuest] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [deviceCodes, setDeviceCodes] = useState('');
+  const [showDevices, setShowDevices] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [claimedOrders, setClaimedOrders] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setIsGuest(authAPI.getSessionRole() === 'GUEST');
+  }, []);
+
+  const handleCopyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(localStorage.getItem('auth_token') || '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy device code:', err);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) {
+      setError(t('passwordTooShort'));
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const guestTokens = deviceCodes.split(/\s+/).filter(Boolean);
+      const data = await authAPI.claimGuest(email.trim(), password, guestTokens.length ? guestTokens : undefined, locale);
+      setClaimedOrders(data.mergedOrders);
+      setIsGuest(false);
+    } catch (err: any) {
+      setError(err.response?.data?.error || t('claimFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (claimedOrders !== null) {
+    return (
+      <div className="card-noir mb-6 text-center">
+        <p className="text-accent-emerald font-semibold">{t('claimed')}</p>
+        {claimedOrders > 0 && (
+          <p className="text-sm text-gray-400 mt-2">{t('mergedOrders', { count: claimedOrders })}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (!isGuest) {
+    return null;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="card-noir mb-6">
+      <h3 className="font-bold text-accent-emerald mb-2">{t('claimTitle')}</h3>
+      <p className="text-sm text-gray-400 mb-4">{t('claimDesc')}</p>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-gray-300 mb-2 text-sm">{t('email')}</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="input-noir w-full"
+            autoComplete="email"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-gray-300 mb-2 text-sm">{t('password')}</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="input-noir w-full"
+            autoComplete="new-password"
+            required
+          />
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowDevices(!showDevices)}
+        className="text-sm text-gray-400 hover:underline mt-4"
+      >
+        {t('otherDevices')}
+      </button>
+
+      {showDevices && (
+        <div className="mt-3">
+          <p className="text-sm text-gray-500 mb-2">{t('otherDevicesHint')}</p>
+          <textarea
+            value={deviceCodes}
+            onChange={(e) => setDeviceCodes(e.target.value)}
+            className="input-noir w-full font-mono text-xs"
+            rows={3}
+          />
+          <button type="button" onClick={handleCopyCode} className="text-sm text-accent-emerald hover:underline mt-2">
+            {copied ? t('codeCopied') : t('copyDeviceCode')}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400 mt-4">{error}</p>}
+
+      <button type="submit" disabled={submitting} className="btn-primary w-full mt-4 disabled:opacity-50">
+        {submitting ? t('claiming') : t('claim')}
+      </button>
+    </form>
+  );
+}
@@ -40,6 +40,24 @@ export default function Header() {
             >
               {t('store')}
             </Link>
+            <Link
+              href="/cart"
+              className="text-gray-300 hover:text-accent-emerald transition-colors"
+            >
+              {t('cart')}
+            </Link>
+            <Link
+              href="/subscriptions"
+              className="text-gray-300 hover:text-accent-emerald transition-colors"
+            >
+              {t('subscriptions')}
+            </Link>
+            <Link
+              href="/account"
+              className="text-gray-300 hover:text-accent-emerald transition-colors"
+            >
+              {t('account')}
+            </Link>
           </nav>
 
           {/* Mobile menu button */}
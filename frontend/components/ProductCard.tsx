@@ -1,8 +1,9 @@
 'use client';
 
-import { useTranslations } from 'next-intl';
+import { useTranslations, useLocale } from 'next-intl';
 import { Link } from '@/i18n/routing';
 import { Product } from '@/lib/api';
+import { formatPrice } from '@/lib/money';
 
 interface ProductCardProps {
   product: Product;
@@ -11,9 +12,10 @@ interface ProductCardProps {
 
 export default function ProductCard({ product, showDiscount = false }: ProductCardProps) {
   const t = useTranslations('store');
+  const locale = useLocale();
 
   // Sort prices by amount
-  const sortedPrices = [...(product.prices || [])].sort((a, b) => a.amount - b.amount);
+  const sortedPrices = [...(product.prices || [])].sort((a, b) => a.amountInCents - b.amountInCents);
 
   // Get minimum price (cheapest)
   const minPrice = sortedPrices[0];
@@ -70,7 +72,7 @@ export default function ProductCard({ product, showDiscount = false }: ProductCa
             <div className="flex justify-between items-center text-xs md:text-sm">
               <span className="text-gray-500">{t('priceFrom')}</span>
               <span className="font-bold text-gray-300">
-                {minPrice.currency} {minPrice.amount.toFixed(2)}
+                {formatPrice(minPrice, locale)}
               </span>
             </div>
           )}
@@ -78,7 +80,7 @@ export default function ProductCard({ product, showDiscount = false }: ProductCa
             <div className="flex justify-between items-center text-xs md:text-sm">
               <span className="text-gray-500">{t('mostBought')}</span>
               <span className="font-bold text-gray-300">
-                {middlePrice.currency} {middlePrice.amount.toFixed(2)}
+                {formatPrice(middlePrice, locale)}
               </span>
             </div>
           )}
@@ -86,7 +88,7 @@ export default function ProductCard({ product, showDiscount = false }: ProductCa
             <div className="flex justify-between items-center text-xs md:text-sm">
               <span className="text-gray-500">{t('recommended')}</span>
               <span className="font-bold text-accent-emerald">
-                {secondMostExpensive.currency} {secondMostExpensive.amount.toFixed(2)}
+                {formatPrice(secondMostExpensive, locale)}
               </span>
             </div>
           )}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { sessionsAPI, SessionInfo } from '@/lib/api';
+
+interface SessionListProps {
+  userId?: string; // Admins: someone else's sessions instead of the caller's
+}
+
+/**
+ * Devices signed in to an account, each of which can be signed out
+ */
+export default function SessionList({ userId }: SessionListProps) {
+  const t = useTranslations('sessions');
+  const locale = useLocale();
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [userId]);
+
+  const fetchSessions = async () => {
+    try {
+      const data = await sessionsAPI.list(userId);
+      setSessions(data.sessions);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch sessions:', err);
+      setError(t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    setBusyId(sessionId);
+    try {
+      await sessionsAPI.revoke(sessionId);
+      setSessions(sessions.filter((session) => session.id !== sessionId));
+    } catch (err) {
+      console.error('Failed to revoke session:', err);
+      setError(t('revokeFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm(userId ? t('confirmRevokeUser') : t('confirmRevokeOthers'))) {
+      return;
+    }
+    setBusyId('all');
+    try {
+      await sessionsAPI.revokeAll(userId);
+      setSessions(sessions.filter((session) => session.current));
+    } catch (err) {
+      console.error('Failed to revoke sessions:', err);
+      setError(t('revokeFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describe = (session: SessionInfo) => {
+    const place = [session.city, session.countryCode].filter(Boolean).join(', ');
+    return [place, session.ip].filter(Boolean).join(' · ') || t('unknownLocation');
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  const others = sessions.filter((session) => !session.current);
+
+  return (
+    <div className="card-noir mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold text-accent-emerald">{t('title')}</h3>
+        {(userId ? sessions.length > 0 : others.length > 0) && (
+          <button
+            onClick={handleRevokeAll}
+            disabled={busyId !== null}
+            className="text-sm text-red-400 hover:underline disabled:opacity-50"
+          >
+            {userId ? t('revokeAll') : t('revokeOthers')}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('empty')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex justify-between items-start gap-4 border-t border-noir-light pt-3">
+              <div className="min-w-0">
+                <p className="text-sm truncate" title={session.userAgent ?? undefined}>
+                  {session.userAgent || t('unknownDevice')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {describe(session)} ·{' '}
+                  {t('lastSeen', { date: new Date(session.lastSeenAt).toLocaleString(locale) })}
+                </p>
+              </div>
+              {session.current ? (
+                <span className="text-xs text-accent-emerald whitespace-nowrap">{t('current')}</span>
+              ) : (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={busyId !== null}
+                  className="text-sm text-red-400 hover:underline whitespace-nowrap disabled:opacity-50"
+                >
+                  {busyId === session.id ? t('revoking') : t('revoke')}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect } from 'react';
-import { authAPI } from '@/lib/api';
+import { authAPI, clearSession } from '@/lib/api';
 
 export default function SessionManager() {
     useEffect(() => {
@@ -13,6 +13,17 @@ export default function SessionManager() {
             if (!token) {
                 console.log('No token found, creating guest session...');
                 await authAPI.createGuestSession();
+                return;
+            }
+
+            // Token de antes das sessões (sem refresh token): troque por uma sessão;
+            // se ele não vale mais, comece uma nova sessão de convidado
+            if (!localStorage.getItem('refresh_token')) {
+                const upgraded = await authAPI.upgradeSession();
+                if (!upgraded) {
+                    clearSession();
+                    await authAPI.createGuestSession();
+                }
             }
         };
 
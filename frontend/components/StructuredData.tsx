@@ -1,4 +1,5 @@
 import React from 'react';
+import { fromMinorUnits } from '@/lib/money';
 
 interface ProductStructuredDataProps {
   product: {
@@ -7,7 +8,7 @@ interface ProductStructuredDataProps {
     description: string;
     imageUrl: string;
     prices?: Array<{
-      amount: number;
+      amountInCents: number;
       currency: string;
     }>;
   };
@@ -21,15 +22,15 @@ interface ProductStructuredDataProps {
 export function ProductStructuredData({ product, locale }: ProductStructuredDataProps) {
   const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://telegramvipacess.com';
 
-  // Find the lowest price for the product
-  const lowestPrice = product.prices && product.prices.length > 0
-    ? Math.min(...product.prices.map(p => p.amount))
-    : 0;
-
   const currency = product.prices && product.prices.length > 0
     ? product.prices[0].currency
     : 'USD';
 
+  // Find the lowest price for the product
+  const lowestPrice = product.prices && product.prices.length > 0
+    ? fromMinorUnits(Math.min(...product.prices.map(p => p.amountInCents)), currency)
+    : 0;
+
   const structuredData = {
     '@context': 'https://schema.org',
     '@type': 'Product',
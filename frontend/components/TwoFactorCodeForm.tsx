@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { SecondFactor } from '@/lib/api';
+
+interface TwoFactorCodeFormProps {
+  onSubmit: (factor: SecondFactor) => Promise<void>;
+  submitLabel?: string;
+}
+
+/**
+ * Asks for a code from the authenticator app, or a recovery code in its place
+ */
+export default function TwoFactorCodeForm({ onSubmit, submitLabel }: TwoFactorCodeFormProps) {
+  const t = useTranslations('twoFactor');
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [value, setValue] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(useRecovery ? { recoveryCode: value.trim() } : { code: value.trim() });
+    } catch (err: any) {
+      setError(err.response?.data?.error || t('invalidCode'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleRecovery = () => {
+    setUseRecovery(!useRecovery);
+    setValue('');
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <label className="block text-gray-300 mb-2 text-sm">
+        {useRecovery ? t('recoveryCodeLabel') : t('codeLabel')}
+      </label>
+      <input
+        type="text"
+        inputMode={useRecovery ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="input-noir w-full font-mono tracking-widest"
+        placeholder={useRecovery ? 'xxxxx-xxxxx' : '000000'}
+        maxLength={useRecovery ? 11 : 6}
+        autoFocus
+        required
+      />
+
+      <button type="button" onClick={toggleRecovery} className="text-sm text-gray-400 hover:underline mt-2">
+        {useRecovery ? t('useAuthenticator') : t('useRecoveryCode')}
+      </button>
+
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+
+      <button type="submit" disabled={submitting} className="btn-primary w-full mt-4 disabled:opacity-50">
+        {submitting ? t('verifying') : submitLabel ?? t('verify')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { TwoFactorEnrollment } from '@/lib/api';
+
+interface TwoFactorSetupProps {
+  start: () => Promise<TwoFactorEnrollment>;
+  confirm: (code: string) => Promise<string[] | undefined>; // Resolves to the recovery codes
+  onDone: () => void;
+}
+
+/**
+ * Pairs an authenticator app (QR code or secret), confirms its first code, then shows the
+ * recovery codes once
+ */
+export default function TwoFactorSetup({ start, confirm, onDone }: TwoFactorSetupProps) {
+  const t = useTranslations('twoFactor');
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    start()
+      .then(setEnrollment)
+      .catch((err: any) => setError(err.response?.data?.error || t('setupFailed')));
+  }, []);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      setRecoveryCodes((await confirm(code.trim())) ?? []);
+    } catch (err: any) {
+      setError(err.response?.data?.error || t('invalidCode'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes!.join('\n'));
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy recovery codes:', err);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div>
+        <h3 className="font-bold text-accent-emerald mb-2">{t('recoveryCodesTitle')}</h3>
+        <p className="text-sm text-gray-400 mb-4">{t('recoveryCodesDesc')}</p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm mb-4">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode} className="bg-noir-darker rounded px-3 py-2 text-center">
+              {recoveryCode}
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <button type="button" onClick={handleCopy} className="btn-secondary flex-1">
+            {copied ? t('copied') : t('copyCodes')}
+          </button>
+          <button type="button" onClick={onDone} className="btn-primary flex-1">
+            {t('savedCodes')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return error ? (
+      <p className="text-sm text-red-400">{error}</p>
+    ) : (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-accent-emerald"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleConfirm}>
+      <h3 className="font-bold text-accent-emerald mb-2">{t('setupTitle')}</h3>
+      <p className="text-sm text-gray-400 mb-4">{t('setupDesc')}</p>
+      <div className="flex justify-center mb-4">
+        <img src={enrollment.qrCode} alt={t('qrAlt')} className="w-48 h-48 rounded bg-white p-2" />
+      </div>
+      <p className="text-xs text-gray-500 mb-1">{t('manualEntry')}</p>
+      <code className="block text-xs text-accent-emerald break-all mb-4">{enrollment.secret}</code>
+
+      <label className="block text-gray-300 mb-2 text-sm">{t('codeLabel')}</label>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className="input-noir w-full font-mono tracking-widest"
+        placeholder="000000"
+        maxLength={6}
+        required
+      />
+
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+
+      <button type="submit" disabled={submitting} className="btn-primary w-full mt-4 disabled:opacity-50">
+        {submitting ? t('verifying') : t('enable')}
+      </button>
+    </form>
+  );
+}
@@ -21,6 +21,92 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+// Access tokens are short-lived: renew an expired one once with the refresh token and retry
+api.interceptors.response.use(undefined, async (error) => {
+  const config = error.config;
+  const code = error.response?.data?.code;
+
+  if (code === 'TOKEN_EXPIRED' && config && !config._retried) {
+    config._retried = true;
+    const token = await refreshAccessToken();
+    if (token) {
+      return api(config);
+    }
+  }
+
+  if (code === 'SESSION_REVOKED') {
+    clearSession();
+  }
+
+  return Promise.reject(error);
+});
+
+// Session tokens (localStorage: auth_token is the access token, refresh_token renews it)
+
+export function storeSession(data: { token: string; refreshToken?: string | null }) {
+  localStorage.setItem('auth_token', data.token);
+  // null when another tab rotated it a moment ago and already stored the new one
+  if (data.refreshToken) {
+    localStorage.setItem('refresh_token', data.refreshToken);
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('refresh_token');
+}
+
+function readTokenPayload(token: string | null): { role?: string; exp?: number } | null {
+  try {
+    return JSON.parse(atob(token!.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+  } catch (error) {
+    return null;
+  }
+}
+
+let refreshing: Promise<string | null> | null = null;
+
+/**
+ * Renew the access token; concurrent callers share one request, since the refresh token rotates
+ * Returns null (and forgets the session when the server ended it) if it can't be renewed.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshToken = localStorage.getItem('refresh_token');
+      if (!refreshToken) {
+        return null;
+      }
+      try {
+        const response = await axios.post(`${API_URL}/api/auth/refresh`, { refreshToken });
+        storeSession(response.data);
+        return response.data.token as string;
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          clearSession();
+        }
+        return null;
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+/**
+ * Access token for requests made outside the `api` instance (fetch streams), renewed if it's
+ * about to expire
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const token = localStorage.getItem('auth_token');
+  const exp = readTokenPayload(token)?.exp;
+  if (token && exp && exp * 1000 - Date.now() < 30 * 1000 && localStorage.getItem('refresh_token')) {
+    return (await refreshAccessToken()) ?? token;
+  }
+  return token;
+}
+
 // Types
 export interface Product {
   id: string;
@@ -29,7 +115,7 @@ export interface Product {
   imageUrl: string;
   previewMediaUrl?: string | null; // Optional preview media (video/image/gif) URL
   isActive: boolean;
-  telegramLink?: string | null; // External Telegram link for non-BR purchases
+  telegramLink?: string | null; // External Telegram link for visitors who can't pay online
   prices: Price[];
   createdAt: string;
   updatedAt: string;
@@ -37,13 +123,41 @@ export interface Product {
 
 export interface Price {
   id: string;
-  amount: number;
+  amountInCents: number; // Minor units of `currency`
   currency: string;
+  displayAmountInCents?: number; // Storefront only: the amount in the visitor's currency
+  displayCurrency?: string;
   category: string;
   deliveryLink: string; // Specific download link for this price tier
+  telegramChatId?: string | null; // Private channel buyers get a single-use invite to
+  billingMode?: 'ONE_TIME' | 'SUBSCRIPTION';
+  periodDays?: number | null; // Days of access a SUBSCRIPTION price buys (30, 90 or 365)
+  checkout?: CheckoutOption | null; // Product details only: how this visitor pays, null if they can't online
   productId: string;
 }
 
+export type PaymentGatewaySlug = 'pushinpay' | 'syncpay' | 'stripe';
+
+export interface CheckoutOption {
+  gateway: PaymentGatewaySlug;
+  method: 'PIX' | 'CARD'; // CARD checkouts redirect to the gateway's hosted page
+  buyerDataRequired: boolean; // The gateway needs name, CPF, email and phone before charging
+}
+
+export interface GatewayRoute {
+  id: string;
+  countryCode: string | null; // null for any country, NON_BR for everyone except Brazil
+  currency: string | null; // Currency the buyer sees; null for any currency
+  gateway: PaymentGatewaySlug;
+  method: CheckoutOption['method'];
+  priority: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GatewayRouteInput = Partial<Pick<GatewayRoute, 'countryCode' | 'currency' | 'gateway' | 'priority' | 'isActive'>>;
+
 export interface ProductRegion {
   id: string;
   productId: string;
@@ -52,15 +166,23 @@ export interface ProductRegion {
 
 export interface Order {
   id: string;
-  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'REFUNDED' | 'DISPUTED';
   userId: string;
   priceId: string;
-  gateway?: 'PUSHINPAY' | 'SYNCPAY';
-  pushinpayTxId?: string;
-  syncpayTxId?: string;
-  downloadLink?: string;
+  gateway?: 'PUSHINPAY' | 'SYNCPAY' | 'STRIPE';
+  gatewayTxId?: string; // Transaction ID returned by the gateway
+  currency?: string; // Currency charged; item amounts and the discount are in it
+  priceCurrency?: string | null; // Set when the prices were converted for this order
+  exchangeRate?: number | null; // 1 priceCurrency = exchangeRate currency
+  exchangeRateAt?: string | null;
+  discountInCents?: number; // Coupon discount taken off the items' total
+  paidAt?: string | null;
+  expiresAt?: string | null; // When the current charge lapses
   createdAt: string;
-  price?: Price & { product?: Product };
+  updatedAt?: string;
+  price?: Price & { product?: Product }; // Single-price checkouts only; use `items`
+  items?: OrderItem[];
+  events?: OrderEvent[]; // Only returned to admins
   user?: {
     id: string;
     email: string;
@@ -68,19 +190,173 @@ export interface Order {
   };
 }
 
+export interface OrderItem {
+  id: string;
+  priceId: string | null;
+  amountInCents: number; // Price amount at checkout time, in the order's currency
+  discountInCents: number; // Share of the order's coupon discount
+  price?: (Omit<Price, 'deliveryLink'> & { deliveryLink?: string; product?: Product }) | null;
+  downloadLink?: string | null; // Only returned to admins; buyers get `delivery`
+  delivery?: DeliveryAccess | null;
+  telegramInviteLink?: string | null; // Single-use invite to the price's channel
+  telegramInviteExpiresAt?: string | null;
+  telegramInviteRevokedAt?: string | null;
+  deliveryTokens?: DeliveryToken[]; // Only returned to admins
+}
+
+export interface Coupon {
+  id: string;
+  code: string;
+  type: 'PERCENT' | 'FIXED';
+  value: number; // Percentage for PERCENT, minor units of `currency` for FIXED
+  currency: string | null;
+  productIds: string[]; // Empty = all products
+  priceIds: string[]; // Empty = all price tiers
+  regionCodes: string[]; // Empty = all regions
+  minAmountInCents: number | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerUser: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+  _count?: { redemptions: number };
+}
+
+export type CouponInput = Partial<Omit<Coupon, 'id' | 'createdAt' | '_count'>>;
+
+export interface CouponQuote {
+  code: string;
+  subtotalInCents: number;
+  discountInCents: number;
+  totalInCents: number;
+  currency: string; // Currency the buyer will be charged in
+}
+
+export interface CartItem {
+  id: string;
+  priceId: string;
+  createdAt: string;
+  price: {
+    id: string;
+    amountInCents: number;
+    currency: string;
+    displayAmountInCents?: number; // Cart only: the amount in the visitor's currency
+    category: string;
+    billingMode: 'ONE_TIME' | 'SUBSCRIPTION';
+    periodDays: number | null;
+    product: Pick<Product, 'id' | 'name' | 'imageUrl' | 'isActive'>;
+  };
+}
+
+export interface GatewayHealth {
+  gateway: PaymentGatewaySlug;
+  state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+  requests: number; // Charge attempts in the breaker window
+  failures: number;
+  errorRate: number; // 0-1
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+export interface BuyerDataRequirement {
+  gateway: PaymentGatewaySlug;
+  settingKey: string; // Setting toggled with settingsAPI.updateSetting ("true"/"false")
+  required: boolean;
+  locked: boolean; // The gateway can't charge without buyer data, so it's always required
+}
+
+export interface ExchangeRate {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number; // 1 baseCurrency = rate quoteCurrency
+  source: string; // "manual" or the provider id
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Entitlement {
+  id: string;
+  status: 'ACTIVE' | 'EXPIRED';
+  startsAt: string;
+  expiresAt: string;
+  expiredAt: string | null;
+  createdAt: string;
+  price: CartItem['price'] | null; // Null if the price tier was deleted
+}
+
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  fromStatus: Order['status'] | null;
+  toStatus: Order['status'];
+  source: 'CHECKOUT' | 'WEBHOOK' | 'RECONCILIATION' | 'EXPIRATION' | 'ADMIN';
+  actorUserId?: string | null;
+  actor?: { id: string; email: string } | null;
+  gatewayStatus?: string | null;
+  endToEndId?: string | null;
+  gatewayPaidAt?: string | null;
+  payload?: unknown;
+  note?: string | null;
+  createdAt: string;
+}
+
+export interface DeliveryAccess {
+  url: string; // Signed /api/delivery link
+  expiresAt: string;
+  remainingUses: number;
+}
+
+export interface DeliveryRedemption {
+  id: string;
+  ip?: string | null;
+  countryCode?: string | null;
+  country?: string | null;
+  region?: string | null;
+  city?: string | null;
+  userAgent?: string | null;
+  createdAt: string;
+}
+
+export interface DeliveryToken {
+  id: string;
+  expiresAt: string;
+  maxUses: number;
+  useCount: number;
+  revokedAt?: string | null;
+  createdAt: string;
+  redemptions: DeliveryRedemption[];
+}
+
 export interface PixPaymentResponse {
   success: boolean;
   orderId: string;
-  gateway: 'pushinpay' | 'syncpay';
+  gateway: PaymentGatewaySlug;
+  method: CheckoutOption['method'];
   transactionId: string;
-  pixCode: string; // Copy-paste PIX code
-  pixQrCodeBase64?: string; // Base64 QR code image (only for PushinPay)
+  pixCode?: string; // Copy-paste PIX code
+  pixQrCodeBase64?: string; // Base64 QR code image
+  checkoutUrl?: string; // Hosted checkout page for CARD payments
   amount: string; // Formatted currency (e.g., "R$ 10,00")
   amountInCents: number;
-  status?: 'created' | 'paid' | 'expired';
+  currency: string; // Currency charged
+  status?: 'PENDING' | 'PAID' | 'FAILED' | 'REFUNDED' | 'DISPUTED'; // Normalized gateway status
   expiresAt?: string;
-  productName: string;
+  productName: string; // Comma-separated for multi-item orders
   priceCategory: string;
+  items?: Array<{
+    priceId: string;
+    productName: string;
+    category: string;
+    amountInCents: number;
+    currency: string;
+    periodDays?: number | null; // Set for subscription renewals and purchases
+  }>;
+  coupon?: { code: string; discountInCents: number } | null;
   message?: string; // Message from gateway (e.g., SyncPay)
 }
 
@@ -119,12 +395,28 @@ export const authAPI = {
     // ...
   },
 
+  /**
+   * Sign in with email and password; accounts with two-factor authentication get a challenge
+   * to finish with twoFactorAPI.completeLogin instead of a session
+   */
   login: async (email: string, password: string) => {
-    // ...
+    const response = await api.post<LoginResult>('/api/auth/login', { email, password });
+    const { token, refreshToken } = response.data;
+    if (token) {
+      storeSession({ token, refreshToken });
+    }
+    return response.data;
   },
 
-  logout: () => {
-    // ...
+  // Ends the session on the server too, so the tokens can't be reused
+  logout: async () => {
+    try {
+      await api.post('/api/auth/logout');
+    } catch (error) {
+      console.error('Failed to end session:', error);
+    } finally {
+      clearSession();
+    }
   },
 
   // NOVA FUNÇÃO ADICIONADA AQUI
@@ -132,8 +424,8 @@ export const authAPI = {
     try {
       const response = await api.post('/api/auth/guest');
       if (response.data.token) {
-        // Armazena o token do guest no localStorage
-        localStorage.setItem('auth_token', response.data.token);
+        // Armazena os tokens do guest no localStorage
+        storeSession(response.data);
       }
       return response.data;
     } catch (error) {
@@ -142,6 +434,205 @@ export const authAPI = {
       return null;
     }
   },
+
+  /**
+   * Turn the current guest session into an account; guestTokens are sessions from other devices
+   * whose purchases move into it. The token is replaced with the account's. The email
+   * verification link opens in `locale`.
+   */
+  claimGuest: async (email: string, password: string, guestTokens?: string[], locale?: string) => {
+    const response = await api.post<{
+      user: { id: string; email: string; role: string };
+      token: string;
+      mergedGuests: number;
+      mergedOrders: number;
+    }>('/api/auth/claim', { email, password, guestTokens, locale });
+    storeSession(response.data);
+    return response.data;
+  },
+
+  /**
+   * The signed-in user and the admin-area permissions they hold (none for customers)
+   */
+  getMe: async () => {
+    const response = await api.get<{
+      user: { id: string; email: string; role: string; staffRole: StaffRole | null; emailVerified: boolean };
+      permissions: Permission[];
+    }>('/api/auth/me');
+    return response.data;
+  },
+
+  // Always succeeds for a well-formed email, so it doesn't reveal which ones have accounts;
+  // the emailed link opens in `locale`
+  forgotPassword: async (email: string, locale: string) => {
+    const response = await api.post('/api/auth/forgot-password', { email, locale });
+    return response.data;
+  },
+
+  // Every session of the account ends; the user logs in again with the new password
+  resetPassword: async (token: string, password: string) => {
+    const response = await api.post('/api/auth/reset-password', { token, password });
+    return response.data;
+  },
+
+  verifyEmail: async (token: string) => {
+    const response = await api.post('/api/auth/verify-email', { token });
+    return response.data;
+  },
+
+  resendVerification: async (locale: string) => {
+    const response = await api.post('/api/auth/verify-email/resend', { locale });
+    return response.data;
+  },
+
+  // Email an admin invite was sent to; fails when the invite can no longer be used
+  getInvite: async (token: string) => {
+    const response = await api.get<{ email: string; staffRole: StaffRole | null; expiresAt: string }>(`/api/auth/invites/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  // Sets the invitee's password and signs in as admin or staff
+  acceptInvite: async (token: string, password: string) => {
+    const response = await api.post<{
+      user: { id: string; email: string; role: string };
+      token: string;
+      refreshToken: string;
+    }>(`/api/auth/invites/${encodeURIComponent(token)}/accept`, { password });
+    storeSession(response.data);
+    return response.data;
+  },
+
+  /**
+   * Role in the stored token (GUEST, CUSTOMER, STAFF, ADMIN), or null without a readable one
+   */
+  getSessionRole: (): string | null => {
+    const role = readTokenPayload(localStorage.getItem('auth_token'))?.role;
+    return typeof role === 'string' ? role : null;
+  },
+
+  /**
+   * Open a server session for a token issued before sessions existed; false if it's no longer valid
+   */
+  upgradeSession: async (): Promise<boolean> => {
+    try {
+      const response = await api.post('/api/auth/session');
+      storeSession(response.data);
+      return true;
+    } catch (error) {
+      console.error('Failed to upgrade session:', error);
+      return false;
+    }
+  },
+};
+
+export interface LoginResult {
+  user?: { id: string; email: string; role: string; staffRole?: StaffRole | null };
+  token?: string;
+  refreshToken?: string;
+  twoFactorRequired?: boolean;
+  enrollmentRequired?: boolean; // 2FA is enforced and this admin or staff member hasn't set it up yet
+  challengeToken?: string;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string; // Data URL
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+  required: boolean; // Enforced for this admin or staff member
+  sessionVerified: boolean;
+}
+
+// Second factor for admins and staff; a code is a TOTP code or, in its place, a recovery code
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
+export const twoFactorAPI = {
+  // Finishing a login that returned a challenge
+  setupForLogin: async (challengeToken: string) => {
+    const response = await api.post<TwoFactorEnrollment>('/api/auth/2fa/challenge/setup', { challengeToken });
+    return response.data;
+  },
+
+  // recoveryCodes is set when this login also enrolled the authenticator
+  completeLogin: async (challengeToken: string, factor: SecondFactor) => {
+    const response = await api.post<{
+      user: { id: string; email: string; role: string };
+      token: string;
+      refreshToken: string;
+      recoveryCodes?: string[];
+    }>('/api/auth/2fa/challenge/verify', { challengeToken, ...factor });
+    storeSession(response.data);
+    return response.data;
+  },
+
+  getStatus: async () => {
+    const response = await api.get<TwoFactorStatus>('/api/auth/2fa');
+    return response.data;
+  },
+
+  setup: async () => {
+    const response = await api.post<TwoFactorEnrollment>('/api/auth/2fa/setup');
+    return response.data;
+  },
+
+  // Ends the other sessions; this one gets a verified token
+  enable: async (code: string) => {
+    const response = await api.post<{ recoveryCodes: string[]; token: string }>('/api/auth/2fa/enable', { code });
+    storeSession(response.data);
+    return response.data;
+  },
+
+  verifySession: async (factor: SecondFactor) => {
+    const response = await api.post<{ token: string }>('/api/auth/2fa/verify', factor);
+    storeSession(response.data);
+    return response.data;
+  },
+
+  regenerateRecoveryCodes: async (code: string) => {
+    const response = await api.post<{ recoveryCodes: string[] }>('/api/auth/2fa/recovery-codes', { code });
+    return response.data;
+  },
+
+  disable: async (factor: SecondFactor) => {
+    const response = await api.post('/api/auth/2fa/disable', factor);
+    return response.data;
+  },
+};
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  countryCode: string | null;
+  city: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
+}
+
+// Signed-in devices; userId (admins only) targets another user's sessions
+export const sessionsAPI = {
+  list: async (userId?: string) => {
+    const response = await api.get<{ sessions: SessionInfo[] }>('/api/auth/sessions', { params: { userId } });
+    return response.data;
+  },
+
+  revoke: async (sessionId: string) => {
+    const response = await api.delete(`/api/auth/sessions/${sessionId}`);
+    return response.data;
+  },
+
+  // Every session but the current one (or all of `userId`'s)
+  revokeAll: async (userId?: string) => {
+    const response = await api.delete<{ revoked: number }>('/api/auth/sessions', { params: { userId } });
+    return response.data;
+  },
 };
 
 export const adminAPI = {
@@ -158,7 +649,7 @@ export const adminAPI = {
     isActive?: boolean;
     telegramLink?: string;
     prices?: Array<{
-      amount: number;
+      amountInCents: number;
       currency: string;
       category: string;
       deliveryLink: string;
@@ -193,6 +684,102 @@ export const adminAPI = {
     return response.data;
   },
 
+  refundOrder: async (orderId: string, note?: string) => {
+    const response = await api.post<{ order: Order; message: string; gatewayRefunded: boolean }>(
+      `/api/admin/orders/${orderId}/refund`,
+      { note }
+    );
+    return response.data;
+  },
+
+  getGatewayHealth: async () => {
+    const response = await api.get<{ preferred: GatewayHealth['gateway']; gateways: GatewayHealth[] }>('/api/admin/gateways/health');
+    return response.data;
+  },
+
+  getBuyerDataRequirements: async () => {
+    const response = await api.get<{ gateways: BuyerDataRequirement[] }>('/api/admin/gateways/buyer-data');
+    return response.data;
+  },
+
+  // Payment routing rules
+  getGatewayRoutes: async () => {
+    const response = await api.get<{ routes: GatewayRoute[] }>('/api/admin/gateway-routes');
+    return response.data;
+  },
+
+  createGatewayRoute: async (data: GatewayRouteInput) => {
+    const response = await api.post<{ message: string }>('/api/admin/gateway-routes', data);
+    return response.data;
+  },
+
+  updateGatewayRoute: async (routeId: string, data: GatewayRouteInput) => {
+    const response = await api.put<{ message: string }>(`/api/admin/gateway-routes/${routeId}`, data);
+    return response.data;
+  },
+
+  deleteGatewayRoute: async (routeId: string) => {
+    const response = await api.delete(`/api/admin/gateway-routes/${routeId}`);
+    return response.data;
+  },
+
+  // Exchange rates
+  getExchangeRates: async () => {
+    const response = await api.get<{ rates: ExchangeRate[]; provider: string | null }>('/api/admin/exchange-rates');
+    return response.data;
+  },
+
+  setExchangeRate: async (data: { baseCurrency: string; quoteCurrency: string; rate: number }) => {
+    const response = await api.put<{ rate: ExchangeRate; message: string }>('/api/admin/exchange-rates', data);
+    return response.data;
+  },
+
+  deleteExchangeRate: async (rateId: string) => {
+    const response = await api.delete(`/api/admin/exchange-rates/${rateId}`);
+    return response.data;
+  },
+
+  refreshExchangeRates: async () => {
+    const response = await api.post<{ updated: number; message: string }>('/api/admin/exchange-rates/refresh');
+    return response.data;
+  },
+
+  // Coupon management
+  getCoupons: async () => {
+    const response = await api.get<{ coupons: Coupon[] }>('/api/admin/coupons');
+    return response.data;
+  },
+
+  createCoupon: async (data: CouponInput) => {
+    const response = await api.post<{ coupon: Coupon; message: string }>('/api/admin/coupons', data);
+    return response.data;
+  },
+
+  updateCoupon: async (couponId: string, data: CouponInput) => {
+    const response = await api.put<{ coupon: Coupon; message: string }>(`/api/admin/coupons/${couponId}`, data);
+    return response.data;
+  },
+
+  deleteCoupon: async (couponId: string) => {
+    const response = await api.delete(`/api/admin/coupons/${couponId}`);
+    return response.data;
+  },
+
+  reissueTelegramInvite: async (orderId: string) => {
+    const response = await api.post<{ items: OrderItem[]; message: string }>(
+      `/api/admin/orders/${orderId}/telegram-invite`
+    );
+    return response.data;
+  },
+
+  setOrderStatus: async (orderId: string, status: 'COMPLETED' | 'FAILED', note?: string) => {
+    const response = await api.put<{ order: Order; message: string }>(`/api/admin/orders/${orderId}/status`, {
+      status,
+      note,
+    });
+    return response.data;
+  },
+
   // Region management
   addProductRegion: async (productId: string, countryCode: string) => {
     const response = await api.post('/api/admin/products/regions', {
@@ -209,20 +796,26 @@ export const adminAPI = {
 
   // Price management
   addPrice: async (productId: string, data: {
-    amount: number;
+    amountInCents: number;
     currency: string;
     category: string;
     deliveryLink: string;
+    telegramChatId?: string;
+    billingMode?: 'ONE_TIME' | 'SUBSCRIPTION';
+    periodDays?: number | null;
   }) => {
     const response = await api.post(`/api/admin/products/${productId}/prices`, data);
     return response.data;
   },
 
   updatePrice: async (priceId: string, data: {
-    amount?: number;
+    amountInCents?: number;
     currency?: string;
     category?: string;
     deliveryLink?: string;
+    telegramChatId?: string;
+    billingMode?: 'ONE_TIME' | 'SUBSCRIPTION';
+    periodDays?: number | null;
   }) => {
     const response = await api.put(`/api/admin/prices/${priceId}`, data);
     return response.data;
@@ -240,20 +833,273 @@ export const adminAPI = {
     const response = await api.delete(`/api/admin/prices/${priceId}`);
     return response.data;
   },
+
+  getAdmins: async () => {
+    const response = await api.get<{
+      admins: AdminAccount[];
+      invites: AdminInvite[];
+      twoFactorRequired: boolean;
+    }>('/api/admin/admins');
+    return response.data;
+  },
+
+  setTwoFactorRequired: async (required: boolean) => {
+    const response = await api.put('/api/admin/two-factor/enforcement', { required });
+    return response.data;
+  },
+
+  resetTwoFactor: async (adminId: string) => {
+    const response = await api.delete(`/api/admin/admins/${adminId}/two-factor`);
+    return response.data;
+  },
+
+  // inviteUrl is only returned here; it's also emailed to the invitee and opens in `locale`
+  createInvite: async (email: string, access: StaffAccess = 'ADMIN', locale?: string) => {
+    const response = await api.post<{ invite: AdminInvite; inviteUrl: string }>('/api/admin/invites', {
+      email,
+      access,
+      locale,
+    });
+    return response.data;
+  },
+
+  // NONE removes the user from the team; their sessions end either way
+  setAccess: async (userId: string, access: StaffAccess | 'NONE') => {
+    const response = await api.put(`/api/admin/admins/${userId}/access`, { access });
+    return response.data;
+  },
+
+  revokeInvite: async (inviteId: string) => {
+    const response = await api.delete(`/api/admin/invites/${inviteId}`);
+    return response.data;
+  },
 };
 
-export interface InitiatePaymentParams {
-  priceId: string;
-  gateway?: 'pushinpay' | 'syncpay';
+export type StaffRole = 'EDITOR' | 'SUPPORT' | 'FINANCE';
+
+// A full admin, or staff limited to their role's permissions
+export type StaffAccess = 'ADMIN' | StaffRole;
+
+export type Permission =
+  | 'analytics:read'
+  | 'products:read'
+  | 'products:write'
+  | 'orders:read'
+  | 'orders:write'
+  | 'orders:refund'
+  | 'coupons:read'
+  | 'coupons:write'
+  | 'settings:read'
+  | 'settings:write'
+  | 'sessions:manage'
+  | 'staff:manage';
+
+export interface AdminAccount {
+  id: string;
+  email: string;
+  access: StaffAccess;
+  createdAt: string;
+  twoFactorEnabled: boolean;
+}
+
+export interface AdminInvite {
+  id: string;
+  email: string;
+  access: StaffAccess;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy?: { id: string; email: string } | null;
+}
+
+export interface InitiatePaymentParams extends PaymentClientParams {
+  priceId?: string;
+  fromCart?: boolean; // Pay for the whole cart in one charge instead of a single priceId
+  couponCode?: string;
+}
+
+// Payer data some gateways require; when omitted, the backend uses the data saved on the account
+export interface PaymentClientParams {
   clientName?: string;
   clientCpf?: string;
   clientEmail?: string;
-  clientPhone?: string;
+  clientPhone?: string; // E.164, e.g. +5511999999999
+  locale?: string; // Language of the page hosted checkouts return to
+}
+
+// Buyer identification saved (encrypted) on the account and reused on the next checkouts
+export interface BuyerData {
+  name: string;
+  cpf: string;
+  email: string;
+  phone: string;
+}
+
+export const buyerDataAPI = {
+  get: async () => {
+    const response = await api.get<{ buyerData: BuyerData | null }>('/api/buyer-data');
+    return response.data;
+  },
+
+  save: async (params: PaymentClientParams) => {
+    const response = await api.put<{ buyerData: BuyerData; message: string }>('/api/buyer-data', params);
+    return response.data;
+  },
+
+  remove: async () => {
+    const response = await api.delete('/api/buyer-data');
+    return response.data;
+  },
+};
+
+export interface RecoveredOrder {
+  id: string;
+  status: Order['status'];
+  currency: string;
+  totalInCents: number;
+  paidAt: string | null;
+  createdAt: string;
+  items: Array<{
+    id: string;
+    productName: string | null;
+    category: string | null;
+    delivery: DeliveryAccess | null;
+    telegramInviteLink: string | null;
+  }>;
+}
+
+export interface RecoveryResult {
+  orders: RecoveredOrder[];
+  session: { token: string; refreshToken: string; userId: string } | null; // Guest session of the latest order
+  hasAccount: boolean; // Some orders belong to a registered account
+}
+
+// Public order recovery for buyers who lost their session; each call takes a proof of payment
+export const recoveryAPI = {
+  byReceipt: async (endToEndId: string) => {
+    const response = await api.post<RecoveryResult>('/api/recovery/receipt', { endToEndId });
+    return response.data;
+  },
+
+  byOrder: async (orderId: string, amount: string) => {
+    const response = await api.post<RecoveryResult>('/api/recovery/order', { orderId, amount });
+    return response.data;
+  },
+
+  sendEmailCode: async (email: string) => {
+    const response = await api.post<{ message: string }>('/api/recovery/email', { email });
+    return response.data;
+  },
+
+  verifyEmailCode: async (email: string, code: string) => {
+    const response = await api.post<RecoveryResult>('/api/recovery/email/verify', { email, code });
+    return response.data;
+  },
+};
+
+export interface MyOrder {
+  id: string;
+  status: Order['status'];
+  gateway: NonNullable<Order['gateway']>;
+  currency: string;
+  discountInCents: number;
+  totalInCents: number;
+  paidAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  resumable: boolean; // Pending with a charge that can still be paid
+  items: Array<{
+    id: string;
+    amountInCents: number;
+    discountInCents: number;
+    price: (Pick<Price, 'id' | 'category' | 'billingMode' | 'periodDays'> & {
+      product: Pick<Product, 'id' | 'name' | 'imageUrl'>;
+    }) | null;
+    delivery: DeliveryAccess | null;
+    telegramInviteLink: string | null;
+    telegramInviteExpiresAt: string | null;
+  }>;
+}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
 }
 
+export const meAPI = {
+  getOrders: async (page = 1, pageSize = 20) => {
+    const response = await api.get<{ orders: MyOrder[]; pagination: Pagination }>('/api/me/orders', {
+      params: { page, pageSize },
+    });
+    return response.data;
+  },
+
+  // Stored checkout response of a pending order, for the payment page
+  getOrderPayment: async (orderId: string) => {
+    const response = await api.get<{ payment: PixPaymentResponse }>(`/api/me/orders/${orderId}/payment`);
+    return response.data;
+  },
+};
+
+export const entitlementAPI = {
+  getEntitlements: async () => {
+    const response = await api.get<{ entitlements: Entitlement[] }>('/api/entitlements');
+    return response.data;
+  },
+};
+
+export const cartAPI = {
+  getCart: async () => {
+    const response = await api.get<{
+      items: CartItem[];
+      totalInCents: number;
+      currency: string | null;
+      displayTotalInCents: number;
+      displayCurrency: string | null; // Currency the visitor sees amounts in
+      checkout: CheckoutOption | null;
+    }>('/api/cart');
+    return response.data;
+  },
+
+  addItem: async (priceId: string) => {
+    const response = await api.post<{ item: CartItem; message: string }>('/api/cart', { priceId });
+    return response.data;
+  },
+
+  removeItem: async (priceId: string) => {
+    const response = await api.delete(`/api/cart/${priceId}`);
+    return response.data;
+  },
+
+  clear: async () => {
+    const response = await api.delete('/api/cart');
+    return response.data;
+  },
+};
+
 export const paymentAPI = {
-  initiatePayment: async (params: InitiatePaymentParams): Promise<PixPaymentResponse> => {
-    const response = await api.post<PixPaymentResponse>('/api/payments/initiate-payment', params);
+  // Retries with the same idempotencyKey return the first attempt's order instead of charging again
+  initiatePayment: async (params: InitiatePaymentParams, idempotencyKey?: string): Promise<PixPaymentResponse> => {
+    const response = await api.post<PixPaymentResponse>('/api/payments/initiate-payment', params, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
+    return response.data;
+  },
+
+  renewEntitlement: async (entitlementId: string, params: PaymentClientParams): Promise<PixPaymentResponse> => {
+    const response = await api.post<PixPaymentResponse>(`/api/payments/entitlements/${entitlementId}/renew`, params);
+    return response.data;
+  },
+
+  validateCoupon: async (params: { couponCode: string; priceId?: string; fromCart?: boolean }) => {
+    const response = await api.post<CouponQuote>('/api/payments/validate-coupon', params);
+    return response.data;
+  },
+
+  // New PIX code for an order whose charge expired; same items and amounts
+  regenerateOrder: async (orderId: string, params: PaymentClientParams): Promise<PixPaymentResponse> => {
+    const response = await api.post<PixPaymentResponse>(`/api/payments/order/${orderId}/regenerate`, params);
     return response.data;
   },
 
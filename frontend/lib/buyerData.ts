@@ -0,0 +1,89 @@
+import { BuyerData, PaymentClientParams } from './api';
+
+// Same rules the backend applies (services/buyerData.ts), checked here to flag fields before paying
+
+export type BuyerDataField = keyof BuyerData;
+
+// Field -> message key under buyerData.errors
+export type BuyerDataErrors = Partial<Record<BuyerDataField, string>>;
+
+export const emptyBuyerData: BuyerData = { name: '', cpf: '', email: '', phone: '' };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+export function normalizeCpf(cpf: string): string {
+  return cpf.replace(/[.\-\s]/g, '');
+}
+
+export function normalizePhone(phone: string): string {
+  return phone.replace(/[\s()-]/g, '');
+}
+
+/**
+ * CPF with valid check digits; repeated-digit numbers like 000.000.000-00 are rejected
+ */
+export function isValidCpf(value: string): boolean {
+  const cpf = normalizeCpf(value);
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) {
+    return false;
+  }
+
+  const digits = cpf.split('').map(Number);
+  const checkDigit = (length: number) => {
+    const sum = digits
+      .slice(0, length)
+      .reduce((total, digit, index) => total + digit * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === digits[9] && checkDigit(10) === digits[10];
+}
+
+export function isBuyerDataEmpty(data: BuyerData): boolean {
+  return !data.name.trim() && !data.cpf.trim() && !data.email.trim() && !data.phone.trim();
+}
+
+/**
+ * Field errors for the checkout form; an empty form is fine unless the gateway requires it
+ */
+export function validateBuyerData(data: BuyerData, required: boolean): BuyerDataErrors {
+  if (!required && isBuyerDataEmpty(data)) {
+    return {};
+  }
+
+  const errors: BuyerDataErrors = {};
+  const name = data.name.trim();
+  const email = data.email.trim();
+
+  if (name.length < 3 || name.length > 120) {
+    errors.name = 'name';
+  }
+  if (!isValidCpf(data.cpf)) {
+    errors.cpf = 'cpf';
+  }
+  if (!EMAIL_PATTERN.test(email) || email.length > 254) {
+    errors.email = 'email';
+  }
+  if (!E164_PATTERN.test(normalizePhone(data.phone))) {
+    errors.phone = 'phone';
+  }
+  return errors;
+}
+
+/**
+ * Payment params for the form; nothing when it's empty, so the backend uses the saved data
+ */
+export function toPaymentClientParams(data: BuyerData): PaymentClientParams {
+  if (isBuyerDataEmpty(data)) {
+    return {};
+  }
+
+  return {
+    clientName: data.name.trim(),
+    clientCpf: normalizeCpf(data.cpf),
+    clientEmail: data.email.trim(),
+    clientPhone: normalizePhone(data.phone),
+  };
+}
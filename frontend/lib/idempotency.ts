@@ -0,0 +1,22 @@
+// One Idempotency-Key per checkout intent, kept until that checkout succeeds, so double clicks
+// and retries over a flaky connection get the same order and PIX code back
+
+const STORAGE_PREFIX = 'idempotency_';
+
+export function getIdempotencyKey(intent: string): string {
+  const storageKey = `${STORAGE_PREFIX}${intent}`;
+  const existing = sessionStorage.getItem(storageKey);
+  if (existing) {
+    return existing;
+  }
+
+  const key = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  sessionStorage.setItem(storageKey, key);
+  return key;
+}
+
+export function clearIdempotencyKey(intent: string): void {
+  sessionStorage.removeItem(`${STORAGE_PREFIX}${intent}`);
+}
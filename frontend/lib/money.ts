@@ -0,0 +1,38 @@
+// Amounts from the API are integers in the currency's minor units (e.g. 1990 for R$ 19,90)
+
+export function currencyExponent(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch (error) {
+    return 2;
+  }
+}
+
+export function fromMinorUnits(amountInCents: number, currency: string): number {
+  return amountInCents / Math.pow(10, currencyExponent(currency));
+}
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * Math.pow(10, currencyExponent(currency)));
+}
+
+/**
+ * Format minor units for display, e.g. formatMoney(1990, 'BRL', 'pt') -> "R$ 19,90"
+ */
+export function formatMoney(amountInCents: number, currency: string, locale?: string): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(
+    fromMinorUnits(amountInCents, currency)
+  );
+}
+
+/**
+ * Format a price in the visitor's currency when the API converted it, otherwise as listed
+ */
+export function formatPrice(
+  price: { amountInCents: number; currency: string; displayAmountInCents?: number; displayCurrency?: string },
+  locale?: string
+): string {
+  return price.displayCurrency && price.displayAmountInCents !== undefined
+    ? formatMoney(price.displayAmountInCents, price.displayCurrency, locale)
+    : formatMoney(price.amountInCents, price.currency, locale);
+}
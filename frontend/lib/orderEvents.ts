@@ -0,0 +1,100 @@
+import { Order, getAccessToken } from './api';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export interface OrderStatusEvent {
+  orderId: string;
+  status: Order['status'];
+  previousStatus: Order['status'] | null; // null for the snapshot sent when the stream opens
+  expiresAt: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Follow an order's status over GET /api/payments/order/:orderId/events
+ * Read with fetch rather than EventSource, which can't send the Authorization header.
+ * `onClose` runs when the stream can't be opened or drops, so the caller can fall back to
+ * polling; it doesn't run after the returned function is called.
+ */
+export function subscribeOrderEvents(
+  orderId: string,
+  onStatus: (event: OrderStatusEvent) => void,
+  onClose: () => void
+): () => void {
+  const controller = new AbortController();
+
+  const run = async () => {
+    const token = await getAccessToken();
+    const response = await fetch(`${API_URL}/api/payments/order/${orderId}/events`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Order event stream unavailable (${response.status})`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += value;
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() ?? '';
+
+      for (const message of messages) {
+        const event = parseMessage(message);
+        if (event) {
+          onStatus(event);
+        }
+      }
+    }
+  };
+
+  run()
+    .catch((error) => {
+      if (!controller.signal.aborted) {
+        console.error('Order event stream failed:', error);
+      }
+    })
+    .finally(() => {
+      if (!controller.signal.aborted) {
+        onClose();
+      }
+    });
+
+  return () => controller.abort();
+}
+
+// Only "status" events carry data; lines starting with ":" are keep-alive comments
+function parseMessage(message: string): OrderStatusEvent | null {
+  let eventName = 'message';
+  const data: string[] = [];
+
+  for (const line of message.split('\n')) {
+    if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (eventName !== 'status' || data.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data.join('\n'));
+  } catch (error) {
+    console.error('Invalid order event:', error);
+    return null;
+  }
+}